@@ -69,6 +69,42 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="leave"
+        options={{
+          href: null, // Opened from the attendance screen
+        }}
+      />
+      <Tabs.Screen
+        name="payroll-summary"
+        options={{
+          href: null, // Opened from the payslip screen
+        }}
+      />
+      <Tabs.Screen
+        name="tax-planner"
+        options={{
+          href: null, // Opened from the payroll summary screen
+        }}
+      />
+      <Tabs.Screen
+        name="lop-reconciliation"
+        options={{
+          href: null, // Opened from the payslip screen
+        }}
+      />
+      <Tabs.Screen
+        name="compensation"
+        options={{
+          href: null, // Opened from the profile screen
+        }}
+      />
+      <Tabs.Screen
+        name="advances"
+        options={{
+          href: null, // Opened from the profile screen
+        }}
+      />
       <Tabs.Screen
         name="explore"
         options={{
@@ -0,0 +1,460 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import moment from 'moment';
+import { router } from 'expo-router';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../../components/ui/Button';
+import { Card } from '../../components/ui/Card';
+import { Loading } from '../../components/ui/Loading';
+import { TabSafeContainer } from '../../components/ui/TabSafeContainer';
+import { AdvanceRequestModal } from '../../components/AdvanceRequestModal';
+import { Colors, Typography, Spacing, Theme } from '../../constants/theme';
+import { ADVANCE_STATUS_META } from '../../constants/advances';
+import AdvanceManager, { AdvanceInput, AdvanceOverview } from '../../services/advanceManager';
+import { AdvanceRequest } from '../../types/api';
+import { useToast } from '../../components/ToastProvider';
+import { handleApiError, logError } from '../../utils/errorHandling';
+import { formatPayrollMonth } from '../../utils/payroll';
+import { formatRupees } from '../../utils/payslipTemplate';
+
+export default function AdvancesScreen() {
+  const { user } = useAuth();
+  const { showSuccess, showError, showWarning, showInfo } = useToast();
+  const [overview, setOverview] = useState<AdvanceOverview | null>(null);
+  const [requests, setRequests] = useState<AdvanceRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [showRequestModal, setShowRequestModal] = useState(false);
+
+  useEffect(() => {
+    loadAdvances();
+  }, [user]);
+
+  const loadAdvances = async () => {
+    if (!user) {
+      showError('User session expired. Please log in again.');
+      setIsLoading(false);
+      return;
+    }
+
+    const advanceManager = AdvanceManager.getInstance();
+    setRequests(await advanceManager.getRequests(user.id));
+
+    try {
+      const loaded = await advanceManager.getOverview(user.id);
+      setOverview(loaded);
+      if (loaded.unavailableMonths > 0) {
+        showWarning(`${loaded.unavailableMonths} payslip(s) could not be loaded, so repayment history may be incomplete.`);
+      }
+    } catch (error) {
+      const appError = handleApiError(error);
+      logError(appError, 'Staff advance loading');
+      showError(appError.message || 'Failed to load your advances. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+
+    // Status refresh is best-effort; local copies still show while offline
+    try {
+      const resolved = await advanceManager.syncStatuses(user.id);
+      resolved.forEach(request => {
+        const label = ADVANCE_STATUS_META[request.status].label.toLowerCase();
+        if (request.status === 'approved') {
+          showSuccess(`Your advance of ${formatRupees(request.amount)} was ${label}`);
+        } else {
+          showWarning(`Your advance of ${formatRupees(request.amount)} was ${label}`);
+        }
+      });
+      setRequests(await advanceManager.getRequests(user.id));
+    } catch (error) {
+      logError(error, 'Advance request status sync');
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadAdvances();
+    setIsRefreshing(false);
+  };
+
+  // Errors propagate to the modal, which shows them inline
+  const handleSubmitRequest = async (input: AdvanceInput) => {
+    if (!user) return;
+
+    const { queued } = await AdvanceManager.getInstance().submit(user.id, input);
+    setRequests(await AdvanceManager.getInstance().getRequests(user.id));
+    setShowRequestModal(false);
+    if (queued) {
+      showInfo('You are offline. Your advance request will be sent when you reconnect.');
+    } else {
+      showSuccess('Advance request sent for approval');
+    }
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Ionicons name="arrow-back" size={24} color={Colors.primary} />
+        <Text style={styles.backButtonText}>Back to Profile</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderTitle = () => (
+    <View style={styles.titleContainer}>
+      <Text style={styles.title}>Staff Advances</Text>
+      <Text style={styles.subtitle}>Outstanding balance and repayments from your salary</Text>
+    </View>
+  );
+
+  const renderRow = (label: string, value: string) => (
+    <View style={styles.detailRow}>
+      <Text style={styles.detailLabel}>{label}</Text>
+      <Text style={styles.detailValue}>{value}</Text>
+    </View>
+  );
+
+  const renderOutstanding = () => {
+    if (!overview) return null;
+
+    const { balance, projection } = overview;
+
+    return (
+      <Card style={styles.card}>
+        <Text style={styles.balanceLabel}>Outstanding Advance</Text>
+        <Text style={styles.balanceValue}>{formatRupees(balance)}</Text>
+
+        {projection?.status === 'scheduled' ? (
+          <>
+            {renderRow('Monthly deduction', formatRupees(projection.installment))}
+            {renderRow('Installments left', `${projection.monthsRemaining}`)}
+            {renderRow('Paid off by', formatPayrollMonth(projection.payoff.month, projection.payoff.year))}
+            <Text style={styles.noteText}>Projected at your latest payslip deduction</Text>
+          </>
+        ) : projection?.status === 'paused' ? (
+          <>
+            <View style={[styles.statusBadge, styles.pausedBadge, { backgroundColor: Colors.warning + '20' }]}>
+              <Text style={[styles.statusBadgeText, { color: Colors.warning }]}>Recovery Paused</Text>
+            </View>
+            {renderRow(
+              'Last deduction',
+              `${formatRupees(projection.lastDeduction.amount)} · ${formatPayrollMonth(
+                projection.lastDeduction.month,
+                projection.lastDeduction.year
+              )}`
+            )}
+            <Text style={styles.noteText}>
+              Nothing was deducted on your{' '}
+              {formatPayrollMonth(projection.pausedSince.month, projection.pausedSince.year)} payslip, so there is
+              no repayment schedule until deductions resume.
+            </Text>
+          </>
+        ) : (
+          <Text style={styles.noteText}>
+            {balance > 0
+              ? 'Payroll has not started recovering this advance yet, so there is no repayment schedule.'
+              : 'You have no advance to repay.'}
+          </Text>
+        )}
+      </Card>
+    );
+  };
+
+  const renderSchedule = () => {
+    if (overview?.projection?.status !== 'scheduled') return null;
+
+    return (
+      <Card title="Repayment Schedule" style={styles.card}>
+        {overview.projection.schedule.map(item => (
+          <View key={`${item.year}_${item.month}`} style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{formatPayrollMonth(item.month, item.year)}</Text>
+            <View style={styles.amountColumn}>
+              <Text style={styles.detailValue}>{formatRupees(item.amount)}</Text>
+              <Text style={styles.balanceAfterText}>Balance {formatRupees(item.balanceAfter)}</Text>
+            </View>
+          </View>
+        ))}
+      </Card>
+    );
+  };
+
+  const renderHistory = () => {
+    if (!overview || overview.history.length === 0) return null;
+
+    const total = overview.history.reduce((sum, item) => sum + item.amount, 0);
+
+    return (
+      <Card title="Repaid in the Last 12 Months" style={styles.card}>
+        {[...overview.history].reverse().map(item => (
+          <View key={`${item.year}_${item.month}`} style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{formatPayrollMonth(item.month, item.year)}</Text>
+            <Text style={styles.detailValue}>{formatRupees(item.amount)}</Text>
+          </View>
+        ))}
+        <View style={[styles.detailRow, styles.totalRow]}>
+          <Text style={styles.totalLabel}>Total repaid</Text>
+          <Text style={styles.totalValue}>{formatRupees(total)}</Text>
+        </View>
+      </Card>
+    );
+  };
+
+  const renderRequests = () => (
+    <Card title="Advance Requests" style={styles.card}>
+      {requests.length === 0 ? (
+        <Text style={styles.noteText}>You have not requested an advance from the app.</Text>
+      ) : (
+        [...requests].reverse().map(request => {
+          const meta = ADVANCE_STATUS_META[request.status];
+          return (
+            <View key={request.id} style={styles.requestRow}>
+              <View style={styles.requestHeader}>
+                <Text style={styles.requestAmount}>{formatRupees(request.amount)}</Text>
+                <View style={[styles.statusBadge, { backgroundColor: meta.color + '20' }]}>
+                  <Text style={[styles.statusBadgeText, { color: meta.color }]}>{meta.label}</Text>
+                </View>
+              </View>
+              <Text style={styles.requestText}>
+                Over {request.installments} {request.installments === 1 ? 'month' : 'months'} - requested{' '}
+                {moment(request.submittedAt).format('DD MMM YYYY')}
+              </Text>
+              <Text style={styles.requestText}>{request.reason}</Text>
+              {request.reviewerComment ? (
+                <Text style={styles.reviewerText}>HR: {request.reviewerComment}</Text>
+              ) : null}
+              {!request.synced && (
+                <Text style={styles.reviewerText}>Waiting to sync - will be sent when you are online</Text>
+              )}
+            </View>
+          );
+        })
+      )}
+
+      <Button
+        text="Request Advance"
+        icon="add-circle-outline"
+        onPress={() => setShowRequestModal(true)}
+        disabled={requests.some(request => request.status === 'pending')}
+        fullWidth
+        style={styles.requestButton}
+      />
+    </Card>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <TabSafeContainer>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+          }
+          showsVerticalScrollIndicator={false}
+        >
+          {renderHeader()}
+          {renderTitle()}
+
+          {isLoading ? (
+            <Loading message="Loading advances..." />
+          ) : (
+            <>
+              {renderOutstanding()}
+              {renderSchedule()}
+              {renderHistory()}
+              {renderRequests()}
+            </>
+          )}
+        </ScrollView>
+
+        <AdvanceRequestModal
+          visible={showRequestModal}
+          onClose={() => setShowRequestModal(false)}
+          onSubmit={handleSubmitRequest}
+        />
+      </TabSafeContainer>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  scrollView: {
+    flex: 1,
+  },
+
+  scrollContent: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+
+  header: {
+    marginBottom: Spacing.lg,
+  },
+
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+  },
+
+  backButtonText: {
+    marginLeft: Spacing.sm,
+    fontSize: Typography.fontSize.base,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  titleContainer: {
+    marginBottom: Spacing.lg,
+  },
+
+  title: {
+    fontSize: Typography.fontSize['2xl'],
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.xs,
+  },
+
+  subtitle: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+  },
+
+  card: {
+    marginBottom: Spacing.md,
+  },
+
+  balanceLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+
+  balanceValue: {
+    fontSize: Typography.fontSize['3xl'],
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+    textAlign: 'center',
+    marginBottom: Spacing.md,
+  },
+
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+
+  detailLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  detailValue: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  amountColumn: {
+    alignItems: 'flex-end',
+  },
+
+  balanceAfterText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+  },
+
+  totalRow: {
+    borderBottomWidth: 0,
+    paddingVertical: Spacing.sm,
+  },
+
+  totalLabel: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textPrimary,
+  },
+
+  totalValue: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.primary,
+  },
+
+  noteText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: Spacing.sm,
+  },
+
+  requestRow: {
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+
+  requestHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.xs,
+  },
+
+  requestAmount: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textPrimary,
+  },
+
+  requestText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+
+  reviewerText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: Spacing.xs,
+  },
+
+  statusBadge: {
+    borderRadius: Theme.borderRadius.full,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+  },
+
+  statusBadgeText: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+
+  pausedBadge: {
+    alignSelf: 'center',
+    marginBottom: Spacing.sm,
+  },
+
+  requestButton: {
+    marginTop: Spacing.md,
+  },
+});
@@ -0,0 +1,419 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { Card } from '../../components/ui/Card';
+import { Loading } from '../../components/ui/Loading';
+import { TabSafeContainer } from '../../components/ui/TabSafeContainer';
+import { Colors, Typography, Spacing, Theme } from '../../constants/theme';
+import { EMPLOYER_ESI, EMPLOYER_PF } from '../../constants/statutoryContributions';
+import apiClient from '../../services/apiClient';
+import { EmployeeDetailsResponse } from '../../types/api';
+import { useToast } from '../../components/ToastProvider';
+import { handleApiError, logError, withRetry } from '../../utils/errorHandling';
+import { SalaryStructure, buildSalaryStructure, scaleSalaryStructure } from '../../utils/compensation';
+import { formatRupees } from '../../utils/payslipTemplate';
+
+type StructurePeriod = 'monthly' | 'annual';
+
+const PERIODS: { value: StructurePeriod; label: string }[] = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'annual', label: 'Annual' },
+];
+
+interface BreakdownSegment {
+  label: string;
+  amount: number;
+  color: string;
+}
+
+export default function CompensationScreen() {
+  const { user } = useAuth();
+  const { showError } = useToast();
+  const [structure, setStructure] = useState<SalaryStructure | null>(null);
+  const [period, setPeriod] = useState<StructurePeriod>('monthly');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadStructure();
+  }, [user]);
+
+  const loadStructure = async () => {
+    if (!user) {
+      showError('User session expired. Please log in again.');
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      // The /view/ API returns the employee data directly, not wrapped in a 'data' property
+      const details: EmployeeDetailsResponse['data'] | null = await withRetry(
+        () => apiClient.getEmployeeView(user.id),
+        2
+      );
+      setStructure(details ? buildSalaryStructure(details) : null);
+    } catch (error) {
+      const appError = handleApiError(error);
+      logError(appError, 'Salary structure loading');
+      showError(appError.message || 'Failed to load your salary structure. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadStructure();
+    setIsRefreshing(false);
+  };
+
+  const amounts = structure && period === 'annual' ? scaleSalaryStructure(structure, 12) : structure;
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Ionicons name="arrow-back" size={24} color={Colors.primary} />
+        <Text style={styles.backButtonText}>Back to Profile</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderTitle = () => (
+    <View style={styles.titleContainer}>
+      <Text style={styles.title}>Salary Structure</Text>
+      <Text style={styles.subtitle}>Your pay components and cost to company</Text>
+    </View>
+  );
+
+  const renderPeriodToggle = () => (
+    <View style={styles.chipRow}>
+      {PERIODS.map(item => (
+        <TouchableOpacity
+          key={item.value}
+          style={[styles.chip, period === item.value && styles.chipSelected]}
+          onPress={() => setPeriod(item.value)}
+        >
+          <Text style={[styles.chipText, period === item.value && styles.chipTextSelected]}>{item.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderBar = (segments: BreakdownSegment[]) => {
+    const total = segments.reduce((sum, segment) => sum + segment.amount, 0);
+    if (total <= 0) return null;
+
+    return (
+      <>
+        <View style={styles.bar}>
+          {segments
+            .filter(segment => segment.amount > 0)
+            .map(segment => (
+              <View key={segment.label} style={{ flex: segment.amount, backgroundColor: segment.color }} />
+            ))}
+        </View>
+        {segments.map(segment => (
+          <View key={segment.label} style={styles.legendRow}>
+            <View style={[styles.legendDot, { backgroundColor: segment.color }]} />
+            <Text style={styles.legendLabel}>{segment.label}</Text>
+            <Text style={styles.legendValue}>
+              {formatRupees(segment.amount)} ({Math.round((segment.amount / total) * 100)}%)
+            </Text>
+          </View>
+        ))}
+      </>
+    );
+  };
+
+  const renderRow = (label: string, amount: number, isTotal = false) => (
+    <View key={label} style={[styles.detailRow, isTotal && styles.totalRow]}>
+      <Text style={isTotal ? styles.totalLabel : styles.detailLabel}>{label}</Text>
+      <Text style={isTotal ? styles.totalValue : styles.detailValue}>{formatRupees(amount)}</Text>
+    </View>
+  );
+
+  const renderCtc = (values: SalaryStructure) => (
+    <Card style={styles.card}>
+      <Text style={styles.ctcLabel}>{period === 'annual' ? 'Annual CTC' : 'Monthly CTC'}</Text>
+      <Text style={styles.ctcValue}>{formatRupees(values.ctc)}</Text>
+      {renderBar([
+        { label: 'Fixed pay', amount: values.fixedPay, color: Colors.primary },
+        { label: 'Variable pay', amount: values.variablePay, color: Colors.info },
+        { label: 'Employer PF and ESI', amount: values.employerPf + values.employerEsi, color: Colors.success },
+      ])}
+    </Card>
+  );
+
+  const renderEarnings = (values: SalaryStructure) => (
+    <Card title="Earnings" style={styles.card}>
+      {renderRow('Basic Pay', values.basicPay)}
+      {renderRow('HRA', values.hra)}
+      {renderRow('Other Allowances', values.others)}
+      {renderRow('Fixed Pay', values.fixedPay, true)}
+      {renderRow('Incentive (variable)', values.incentive)}
+      {renderRow('Gross Pay', values.grossPay, true)}
+    </Card>
+  );
+
+  const renderEmployerContributions = (values: SalaryStructure) => (
+    <Card title="Employer Contributions" style={styles.card}>
+      {renderRow('Provident Fund', values.employerPf)}
+      {values.employerPension > 0 && renderRow('of which Pension (EPS)', values.employerPension)}
+      {renderRow('ESI', values.employerEsi)}
+      {renderRow('Cost to Company', values.ctc, true)}
+      <Text style={styles.noteText}>
+        Employer PF is {EMPLOYER_PF.rate}% of basic pay up to {formatRupees(EMPLOYER_PF.wageCeiling)} a month.
+        Employer ESI is {EMPLOYER_ESI.rate}% of gross pay while gross is up to{' '}
+        {formatRupees(EMPLOYER_ESI.wageCeiling)} a month.
+      </Text>
+    </Card>
+  );
+
+  const renderDeductions = (values: SalaryStructure) => (
+    <Card title="Deductions" style={styles.card}>
+      {renderBar([
+        { label: 'Provident Fund', amount: values.employeePf, color: Colors.warning },
+        { label: 'ESI', amount: values.employeeEsi, color: Colors.info },
+        { label: 'TDS', amount: values.tds, color: Colors.error },
+      ])}
+      {renderRow('Statutory Deductions', values.statutoryDeductions, true)}
+      {renderRow('Net Take-Home', values.netTakeHome, true)}
+    </Card>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <TabSafeContainer>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+          }
+          showsVerticalScrollIndicator={false}
+        >
+          {renderHeader()}
+          {renderTitle()}
+
+          {isLoading ? (
+            <Loading message="Loading salary structure..." />
+          ) : amounts && amounts.grossPay > 0 ? (
+            <>
+              {renderPeriodToggle()}
+              {renderCtc(amounts)}
+              {renderEarnings(amounts)}
+              {renderEmployerContributions(amounts)}
+              {renderDeductions(amounts)}
+            </>
+          ) : (
+            <Card style={styles.card}>
+              <View style={styles.emptyState}>
+                <Ionicons name="wallet-outline" size={48} color={Colors.textSecondary} />
+                <Text style={styles.emptyStateText}>
+                  Your salary structure has not been set up yet. Please contact HR.
+                </Text>
+              </View>
+            </Card>
+          )}
+        </ScrollView>
+      </TabSafeContainer>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  scrollView: {
+    flex: 1,
+  },
+
+  scrollContent: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+
+  header: {
+    marginBottom: Spacing.lg,
+  },
+
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+  },
+
+  backButtonText: {
+    marginLeft: Spacing.sm,
+    fontSize: Typography.fontSize.base,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  titleContainer: {
+    marginBottom: Spacing.lg,
+  },
+
+  title: {
+    fontSize: Typography.fontSize['2xl'],
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.xs,
+  },
+
+  subtitle: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+  },
+
+  card: {
+    marginBottom: Spacing.md,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+
+  chip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderRadius: Theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  chipText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+  },
+
+  chipTextSelected: {
+    color: Colors.white,
+  },
+
+  ctcLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+
+  ctcValue: {
+    fontSize: Typography.fontSize['3xl'],
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+    textAlign: 'center',
+    marginBottom: Spacing.md,
+  },
+
+  bar: {
+    flexDirection: 'row',
+    height: 12,
+    borderRadius: Theme.borderRadius.full,
+    overflow: 'hidden',
+    backgroundColor: Colors.gray200,
+    marginBottom: Spacing.sm,
+  },
+
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 2,
+  },
+
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: Spacing.sm,
+  },
+
+  legendLabel: {
+    flex: 1,
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  legendValue: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+
+  detailLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  detailValue: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  totalRow: {
+    borderBottomWidth: 0,
+    paddingVertical: Spacing.sm,
+  },
+
+  totalLabel: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textPrimary,
+  },
+
+  totalValue: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.primary,
+  },
+
+  noteText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: Spacing.sm,
+  },
+
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: Spacing.lg,
+  },
+
+  emptyStateText: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.sm,
+  },
+});
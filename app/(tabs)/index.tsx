@@ -19,16 +19,30 @@ import { TabSafeContainer } from '../../components/ui/TabSafeContainer';
 import { useMemoryCleanup } from '../../hooks/useMemoryCleanup';
 import { useLoadingState, LoadingOverlay } from '../../components/LoadingComponents';
 import { useDashboardPreloader } from '../../hooks/useDashboardPreloader';
+import { useBreakTracker } from '../../hooks/useBreakTracker';
+import { useShiftSchedule } from '../../hooks/useShiftSchedule';
 import { Card } from '../../components/ui/Card';
 import { Colors, Typography, Spacing, Theme } from '../../constants/theme';
+import { BREAK_REASONS, getBreakReasonLabel } from '../../constants/breakReasons';
+import { ATTENDANCE_FLAG_META } from '../../constants/shifts';
 import apiClient from '../../services/apiClient';
+import GeofenceService from '../../services/geofenceService';
 import { useToast } from '../../components/ToastProvider';
-import { handleApiError, logError, withRetry } from '../../utils/errorHandling';
+import { useOfflineManager } from '../../services/offlineManager';
+import { handleApiError, logError } from '../../utils/errorHandling';
+import {
+  evaluateShift,
+  formatMinutes,
+  getBreakMinutes,
+  getGrossMinutes,
+  getNetMinutes,
+} from '../../utils/attendance';
+import { BreakReason, PunchFlag } from '../../types/api';
 
 export default function DashboardScreen() {
   const { user, logout } = useAuth();
   const { loadingState, startLoading, stopLoading } = useLoadingState();
-  const { showSuccess, showError, showWarning } = useToast();
+  const { showSuccess, showError, showWarning, showInfo } = useToast();
   const [currentTime, setCurrentTime] = useState(moment());
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [dashboardStats, setDashboardStats] = useState({
@@ -51,6 +65,22 @@ export default function DashboardScreen() {
     refreshQuoteOnly
   } = useDashboardPreloader(user?.id);
 
+  // Offline punch queue - replays automatically when connectivity returns
+  const {
+    isOnline,
+    pendingPunches,
+    failedRequests,
+    lastSyncAt,
+    dismissFailedRequest
+  } = useOfflineManager(apiClient);
+
+  // Breaks within the working day (tracked locally, synced to the server)
+  const { todayBreaks, activeBreak, startBreak, endBreak } = useBreakTracker(user?.id);
+  const [showBreakReasons, setShowBreakReasons] = useState(false);
+
+  // Assigned shift, used to flag late arrival, early exit, short hours and overtime
+  const { shift } = useShiftSchedule(user?.id);
+
   // Memory cleanup
   useMemoryCleanup({
     onUnmount: () => {
@@ -96,6 +126,32 @@ export default function DashboardScreen() {
 
 
 
+  // Refresh attendance once queued punches have reached the server
+  useEffect(() => {
+    if (lastSyncAt) {
+      showSuccess('Offline punches synced');
+      forceRefreshAfterCheckInOut();
+    }
+  }, [lastSyncAt]);
+
+  // Report requests the server rejected for good instead of dropping them silently
+  useEffect(() => {
+    if (failedRequests.length === 0) return;
+
+    const failed = failedRequests[0];
+    // Other requests are undone on this device by their manager, so they can be made again
+    const nextStep = failed.punchType
+      ? 'Please contact HR to have it corrected.'
+      : 'It has been undone on this device - please try again.';
+    Alert.alert(
+      failed.punchType ? 'Punch Not Synced' : 'Request Not Synced',
+      `${failed.label} made at ${moment(failed.recordedAt).format('DD MMM, hh:mm A')} could not be synced` +
+        `${failed.lastError ? ` (${failed.lastError})` : ''}. ${nextStep}`,
+      [{ text: 'OK', onPress: () => dismissFailedRequest(failed.id) }],
+      { cancelable: false }
+    );
+  }, [failedRequests]);
+
   // Helper function to calculate total working hours
   const calculateTotalHours = (timelog: any[]) => {
     if (!timelog || timelog.length === 0) return '0:00';
@@ -145,27 +201,78 @@ export default function DashboardScreen() {
         return;
       }
 
-      // Show loading state
-      startLoading('Processing check-in/out...');
-
       // Use memoized today's record to determine check-in/out action
-      const isCheckedIn = !!(todayAttendanceRecord && todayAttendanceRecord.checkin && !todayAttendanceRecord.checkout);
+      const isCheckedIn = !!(effectiveTodayRecord && effectiveTodayRecord.checkin && !effectiveTodayRecord.checkout);
       
       const action = isCheckedIn ? 'checkout' : 'checkin';
+      const actionLabel = isCheckedIn ? 'check out' : 'check in';
+
+      // Capture device position and resolve it against the office fence
+      startLoading('Verifying your location...');
+      const geofence = await GeofenceService.getInstance().checkPunchLocation(user.workLocation);
+
+      // Only employees with a fenced office are held to the fence
+      const isOutsideFence = !!geofence.office &&
+        (geofence.status === 'outside' || geofence.status === 'unavailable');
+
+      if (isOutsideFence && geofence.office) {
+        const policy = geofence.office.policy;
+        const reason = geofence.status === 'unavailable'
+          ? (geofence.error || 'Your location could not be verified')
+          : `You are ${geofence.location?.distance} m away from ${geofence.office.name}`;
+
+        if (policy === 'block') {
+          showError(`${reason}. You can only ${actionLabel} at the office.`);
+          return;
+        }
+
+        if (policy === 'warn') {
+          stopLoading();
+          const confirmed = await confirmOutsideGeofence(reason, actionLabel);
+          if (!confirmed) return;
+        }
+      }
+
+      // A running break ends with the checkout
+      if (isCheckedIn && activeBreak) {
+        await endBreak();
+      }
+
+      // Show loading state
+      startLoading('Processing check-in/out...');
       console.log(`🔄 Performing ${action} for user:`, user.id);
 
-      // Make API call with retry mechanism
-      const response = await withRetry(
-        () => isCheckedIn ? apiClient.checkOut(user.id) : apiClient.checkIn(user.id),
-        2 // max 2 retries
-      );
+      const location = geofence.location ?? undefined;
+      // A punch the fence could not clear goes in flagged, with or without a position
+      const flag: PunchFlag | undefined = isOutsideFence
+        ? {
+            reason: geofence.status === 'unavailable' ? 'location_unavailable' : 'outside_geofence',
+            detail: geofence.status === 'unavailable' ? geofence.error : undefined,
+          }
+        : undefined;
+
+      // The API client retries internally and queues the punch when there is no connection,
+      // so the same idempotency key is kept for every attempt
+      const response = await apiClient.submitPunch(action, user.id, location, flag);
 
       if (response && response.message) {
         // Show success message first
-        showSuccess(response.message);
+        if (response.queued) {
+          showInfo(response.message);
+        } else if (isOutsideFence) {
+          showWarning(
+            `${response.message} - flagged for HR review (${
+              flag?.reason === 'location_unavailable' ? 'location unavailable' : 'outside office'
+            })`
+          );
+        } else {
+          showSuccess(response.message);
+        }
         
         // Force refresh to get updated state immediately (bypasses cache)
-        await forceRefreshAfterCheckInOut();
+        if (!response.queued) {
+          await forceRefreshAfterCheckInOut();
+        }
         
       } else {
         throw new Error('Invalid response from server');
@@ -181,6 +288,20 @@ export default function DashboardScreen() {
 
 
 
+  // Ask the user to confirm a punch made away from the office
+  const confirmOutsideGeofence = (reason: string, actionLabel: string) =>
+    new Promise<boolean>(resolve => {
+      Alert.alert(
+        'Outside Office',
+        `${reason}. Do you still want to ${actionLabel}? This punch will be flagged for HR review.`,
+        [
+          { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+          { text: 'Continue', onPress: () => resolve(true) },
+        ],
+        { cancelable: true, onDismiss: () => resolve(false) }
+      );
+    });
+
   const handleLogout = async () => {
     Alert.alert(
       'Logout',
@@ -250,6 +371,163 @@ export default function DashboardScreen() {
     return record;
   }, [employeeDetails?.timelog]);
 
+  // Overlay punches still waiting in the offline queue on top of the server record
+  const todayPendingPunches = useMemo(
+    () => pendingPunches.filter(punch => moment(punch.deviceTimestamp).isSame(moment(), 'day')),
+    [pendingPunches]
+  );
+
+  const effectiveTodayRecord = useMemo(() => {
+    if (todayPendingPunches.length === 0) return todayAttendanceRecord;
+
+    const record = { ...(todayAttendanceRecord || { date: moment().format('DD/MM/YYYY') }) };
+    todayPendingPunches.forEach(punch => {
+      if (punch.type === 'checkin') {
+        record.checkin = punch.deviceTimestamp;
+        record.checkout = undefined;
+      } else {
+        record.checkout = punch.deviceTimestamp;
+      }
+    });
+    return record;
+  }, [todayAttendanceRecord, todayPendingPunches]);
+
+  const renderPendingSync = () => {
+    if (todayPendingPunches.length === 0) return null;
+
+    return (
+      <View style={styles.pendingSync}>
+        <Ionicons name="cloud-upload-outline" size={16} color={Colors.warning} />
+        <Text style={styles.pendingSyncText}>
+          {todayPendingPunches.length} punch{todayPendingPunches.length > 1 ? 'es' : ''} pending sync
+          {isOnline ? '' : ' - waiting for connection'}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderShiftFlags = () => {
+    if (!effectiveTodayRecord?.checkin) return null;
+
+    const evaluation = evaluateShift(effectiveTodayRecord, shift, todayBreaks, currentTime);
+    const details: Record<string, string> = {
+      late: `Late by ${formatMinutes(evaluation.lateMinutes)}`,
+      early_exit: `Left ${formatMinutes(evaluation.earlyExitMinutes)} early`,
+      overtime: `Overtime ${formatMinutes(evaluation.overtimeMinutes)}`,
+    };
+
+    return (
+      <View style={styles.shiftFlags}>
+        <Text style={styles.shiftText}>
+          {shift.name} {shift.start} - {shift.end}
+        </Text>
+        <View style={styles.shiftFlagRow}>
+          {evaluation.flags.map(flag => {
+            const meta = ATTENDANCE_FLAG_META[flag];
+            return (
+              <View key={flag} style={[styles.shiftFlagChip, { backgroundColor: meta.color + '15' }]}>
+                <Text style={[styles.shiftFlagText, { color: meta.color }]}>
+                  {details[flag] || meta.label}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  const handleStartBreak = async (reason: BreakReason) => {
+    try {
+      setShowBreakReasons(false);
+      startLoading('Starting break...');
+      const { queued } = await startBreak(reason);
+      showSuccess(`${getBreakReasonLabel(reason)} break started${queued ? ' (pending sync)' : ''}`);
+    } catch (error) {
+      const appError = handleApiError(error);
+      logError(appError, 'Start break');
+      showError(appError.message);
+    } finally {
+      stopLoading();
+    }
+  };
+
+  const handleEndBreak = async () => {
+    try {
+      startLoading('Ending break...');
+      const result = await endBreak();
+      if (result) {
+        const minutes = getBreakMinutes([result.record]);
+        showSuccess(`Break ended after ${formatMinutes(minutes)}${result.queued ? ' (pending sync)' : ''}`);
+      }
+    } catch (error) {
+      const appError = handleApiError(error);
+      logError(appError, 'End break');
+      showError(appError.message);
+    } finally {
+      stopLoading();
+    }
+  };
+
+  const renderBreakSection = () => {
+    const breakMinutes = getBreakMinutes(todayBreaks, currentTime);
+
+    if (activeBreak) {
+      const elapsed = moment.utc(Math.max(0, currentTime.diff(moment(activeBreak.start)))).format('HH:mm:ss');
+      return (
+        <View style={styles.breakSection}>
+          <View style={styles.breakTimerRow}>
+            <Text style={styles.breakReasonText}>{getBreakReasonLabel(activeBreak.reason)}</Text>
+            <Text style={styles.breakTimerText}>{elapsed}</Text>
+          </View>
+          <Button
+            text="End Break"
+            variant="primary"
+            icon="play"
+            onPress={handleEndBreak}
+            fullWidth
+          />
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.breakSection}>
+        {breakMinutes > 0 && (
+          <Text style={styles.smallTimeText}>
+            Breaks today: {formatMinutes(breakMinutes)} ({todayBreaks.length})
+          </Text>
+        )}
+        {showBreakReasons ? (
+          <View style={styles.breakReasons}>
+            {BREAK_REASONS.map(reason => (
+              <TouchableOpacity
+                key={reason.value}
+                style={styles.breakReasonChip}
+                onPress={() => handleStartBreak(reason.value)}
+              >
+                <Ionicons name={reason.icon} size={16} color={Colors.primary} />
+                <Text style={styles.breakReasonChipText}>{reason.label}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.breakReasonChip} onPress={() => setShowBreakReasons(false)}>
+              <Ionicons name="close" size={16} color={Colors.textSecondary} />
+              <Text style={[styles.breakReasonChipText, { color: Colors.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <Button
+            text="Start Break"
+            variant="outline"
+            icon="cafe-outline"
+            onPress={() => setShowBreakReasons(true)}
+            fullWidth
+          />
+        )}
+      </View>
+    );
+  };
+
   const renderCheckInStatus = () => {
     // Show loading or error state while waiting for API data
     if (preloaderLoading) {
@@ -298,7 +576,7 @@ export default function DashboardScreen() {
     }
 
     // Use memoized today's record
-    const todayRecord = todayAttendanceRecord;
+    const todayRecord = effectiveTodayRecord;
     
     // Show status based on what API actually returned
     if (!todayRecord) {
@@ -344,7 +622,8 @@ export default function DashboardScreen() {
     
     const checkInTime = hasCheckedIn ? moment(todayRecord.checkin).format('hh:mm A') : null;
     const checkOutTime = hasCheckedOut ? moment(todayRecord.checkout).format('hh:mm A') : null;
-    const totalHours = todayRecord.totalhours || '0:00';
+    const totalHours = formatMinutes(getGrossMinutes(todayRecord, currentTime));
+    const netHours = formatMinutes(getNetMinutes(todayRecord, todayBreaks, currentTime));
 
     if (hasCheckedIn && hasCheckedOut) {
       // Completed for the day
@@ -360,10 +639,14 @@ export default function DashboardScreen() {
             <View style={styles.timeInfo}>
               <Text style={styles.smallTimeText}>In: {checkInTime}</Text>
               <Text style={styles.smallTimeText}>Out: {checkOutTime}</Text>
-              <Text style={styles.todayHours}>Hours: {totalHours}</Text>
+              <Text style={styles.smallTimeText}>Gross: {totalHours}</Text>
+              <Text style={styles.todayHours}>Net: {netHours}</Text>
             </View>
           </View>
           
+          {renderPendingSync()}
+          {renderShiftFlags()}
+          
           <Button
             text="Completed"
             variant="secondary"
@@ -390,17 +673,26 @@ export default function DashboardScreen() {
         <Card style={styles.statusCard}>
           <View style={styles.statusHeader}>
             <View style={styles.statusInfo}>
-              <Ionicons name="checkmark-circle" size={24} color={Colors.success} />
-              <Text style={[styles.statusText, { color: Colors.success }]}>
-                Checked In
+              <Ionicons
+                name={activeBreak ? 'cafe' : 'checkmark-circle'}
+                size={24}
+                color={activeBreak ? Colors.warning : Colors.success}
+              />
+              <Text style={[styles.statusText, { color: activeBreak ? Colors.warning : Colors.success }]}>
+                {activeBreak ? 'On Break' : 'Checked In'}
               </Text>
             </View>
             <View style={styles.timeInfo}>
               <Text style={styles.smallTimeText}>In: {checkInTime}</Text>
-              <Text style={styles.todayHours}>Hours: {totalHours}</Text>
+              <Text style={styles.smallTimeText}>Gross: {totalHours}</Text>
+              <Text style={styles.todayHours}>Net: {netHours}</Text>
             </View>
           </View>
           
+          {renderPendingSync()}
+          {renderShiftFlags()}
+          {renderBreakSection()}
+          
           <Button
             text="Check Out"
             variant="danger"
@@ -780,6 +1072,97 @@ const styles = StyleSheet.create({
     marginTop: Spacing.sm,
   },
 
+  // Break section
+  breakSection: {
+    marginBottom: Spacing.sm,
+  },
+
+  breakTimerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
+
+  breakReasonText: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.warning,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  breakTimerText: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.warning,
+  },
+
+  breakReasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+
+  breakReasonChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: Theme.borderRadius.full,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+  },
+
+  breakReasonChipText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.primary,
+    marginLeft: Spacing.xs,
+  },
+
+  // Pending sync indicator
+  shiftFlags: {
+    marginBottom: Spacing.sm,
+  },
+
+  shiftText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.xs,
+  },
+
+  shiftFlagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+  },
+
+  shiftFlagChip: {
+    borderRadius: Theme.borderRadius.full,
+    paddingVertical: 2,
+    paddingHorizontal: Spacing.sm,
+  },
+
+  shiftFlagText: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+
+  pendingSync: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.warning + '15',
+    borderRadius: Theme.borderRadius.md,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+
+  pendingSyncText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.warning,
+    marginLeft: Spacing.xs,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
   // Offline indicator styles
   offlineIndicator: {
     flexDirection: 'row',
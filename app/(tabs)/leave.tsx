@@ -0,0 +1,666 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import moment from 'moment';
+import { router } from 'expo-router';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../../components/ui/Button';
+import { Card } from '../../components/ui/Card';
+import { Loading } from '../../components/ui/Loading';
+import { TabSafeContainer } from '../../components/ui/TabSafeContainer';
+import { Colors, Typography, Spacing, Theme } from '../../constants/theme';
+import {
+  LEAVE_SESSIONS,
+  LEAVE_STATUS_META,
+  LEAVE_TYPES,
+  getLeaveSessionLabel,
+  getLeaveTypeMeta,
+} from '../../constants/leaveTypes';
+import LeaveManager from '../../services/leaveManager';
+import HolidayCalendar, { MonthCalendar } from '../../services/holidayCalendar';
+import { LeaveApplication, LeaveBalance, LeaveSession, LeaveType } from '../../types/api';
+import { useToast } from '../../components/ToastProvider';
+import { getErrorMessage, handleApiError, logError } from '../../utils/errorHandling';
+import { ATTENDANCE_DATE_FORMAT } from '../../utils/attendance';
+
+export default function LeaveScreen() {
+  const { user } = useAuth();
+  const { showSuccess, showError, showWarning } = useToast();
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [balancesEstimated, setBalancesEstimated] = useState(false);
+  const [applications, setApplications] = useState<LeaveApplication[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Application form
+  const [leaveType, setLeaveType] = useState<LeaveType>('casual');
+  const [session, setSession] = useState<LeaveSession>('full_day');
+  const [fromDate, setFromDate] = useState(moment().add(1, 'day').startOf('day'));
+  const [toDate, setToDate] = useState(moment().add(1, 'day').startOf('day'));
+  const [reason, setReason] = useState('');
+  const [calendar, setCalendar] = useState<MonthCalendar | null>(null);
+
+  const leaveManager = LeaveManager.getInstance();
+
+  useEffect(() => {
+    loadLeaveData();
+  }, []);
+
+  // Weekly offs and holidays in the selected range are not charged as leave
+  useEffect(() => {
+    if (!user?.id) return;
+    let isCurrent = true;
+    HolidayCalendar.getInstance()
+      .getRangeCalendar(user.id, user.workLocation, fromDate, toDate)
+      .then(rangeCalendar => {
+        if (isCurrent) setCalendar(rangeCalendar);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [user?.id, user?.workLocation, fromDate, toDate]);
+
+  const loadLeaveData = async () => {
+    if (!user?.id) {
+      showError('User session expired. Please log in again.');
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setApplications(await leaveManager.syncApplications(user.id));
+    } catch (error) {
+      // History still shows what this device knows about
+      logError(handleApiError(error), 'Leave applications sync');
+      setApplications(await leaveManager.getApplications(user.id));
+      showWarning('Showing saved leave history. Pull to refresh when online.');
+    }
+
+    const { balances: loadedBalances, estimated } = await leaveManager.getBalances(user.id);
+    setBalances(loadedBalances);
+    setBalancesEstimated(estimated);
+    setIsLoading(false);
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadLeaveData();
+    setIsRefreshing(false);
+  };
+
+  const handleSessionChange = (value: LeaveSession) => {
+    setSession(value);
+    if (value !== 'full_day') {
+      setToDate(fromDate.clone());
+    }
+  };
+
+  const shiftFromDate = (days: number) => {
+    const next = fromDate.clone().add(days, 'day');
+    setFromDate(next);
+    if (session !== 'full_day' || toDate.isBefore(next, 'day')) {
+      setToDate(next.clone());
+    }
+  };
+
+  const shiftToDate = (days: number) => {
+    const next = toDate.clone().add(days, 'day');
+    if (!next.isBefore(fromDate, 'day')) {
+      setToDate(next);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!user?.id) {
+      showError('User session expired. Please log in again.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await leaveManager.apply(
+        user.id,
+        {
+          type: leaveType,
+          fromDate: fromDate.format(ATTENDANCE_DATE_FORMAT),
+          toDate: toDate.format(ATTENDANCE_DATE_FORMAT),
+          session,
+          reason,
+        },
+        balances,
+        user.workLocation
+      );
+      showSuccess('Leave application submitted for approval');
+      setReason('');
+      await loadLeaveData();
+    } catch (error) {
+      logError(error, 'Leave application');
+      showError(getErrorMessage(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = (application: LeaveApplication) => {
+    Alert.alert(
+      'Cancel Leave',
+      `Cancel your ${getLeaveTypeMeta(application.type).label.toLowerCase()} from ${application.fromDate} to ${application.toDate}?`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Leave',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await leaveManager.cancel(user!.id, application.id);
+              showSuccess('Leave application cancelled');
+              await loadLeaveData();
+            } catch (error) {
+              logError(error, 'Leave cancellation');
+              showError(getErrorMessage(error));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatLeaveDates = (application: LeaveApplication) => {
+    const from = moment(application.fromDate, ATTENDANCE_DATE_FORMAT);
+    const to = moment(application.toDate, ATTENDANCE_DATE_FORMAT);
+    if (from.isSame(to, 'day')) {
+      return application.session === 'full_day'
+        ? from.format('DD MMM YYYY')
+        : `${from.format('DD MMM YYYY')} (${getLeaveSessionLabel(application.session)})`;
+    }
+    return `${from.format('DD MMM')} - ${to.format('DD MMM YYYY')}`;
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Ionicons name="arrow-back" size={24} color={Colors.primary} />
+        <Text style={styles.backButtonText}>Back</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderTitle = () => (
+    <View style={styles.titleContainer}>
+      <Text style={styles.title}>Leave</Text>
+      <Text style={styles.subtitle}>Check balances and apply for time off</Text>
+    </View>
+  );
+
+  const renderBalances = () => (
+    <Card title="Leave Balance" style={styles.card}>
+      <View style={styles.balanceGrid}>
+        {balances.map(balance => {
+          const meta = getLeaveTypeMeta(balance.type);
+          return (
+            <View key={balance.type} style={[styles.balanceItem, { borderLeftColor: meta.color }]}>
+              <Text style={styles.balanceValue}>
+                {balance.type === 'unpaid' ? balance.used : balance.available}
+              </Text>
+              <Text style={styles.balanceLabel}>{meta.label}</Text>
+              <Text style={styles.balanceMeta}>
+                {balance.type === 'unpaid'
+                  ? 'days taken'
+                  : `of ${balance.total} · ${balance.used} used${balance.pending ? ` · ${balance.pending} pending` : ''}`}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+      {balancesEstimated && (
+        <Text style={styles.noteText}>
+          Estimated from applications on this device - the server balance could not be loaded.
+        </Text>
+      )}
+    </Card>
+  );
+
+  const renderDateStepper = (
+    label: string,
+    value: moment.Moment,
+    onShift: (days: number) => void
+  ) => (
+    <View style={styles.dateField}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <View style={styles.dateStepper}>
+        <TouchableOpacity style={styles.dateArrow} onPress={() => onShift(-1)}>
+          <Ionicons name="chevron-back" size={20} color={Colors.primary} />
+        </TouchableOpacity>
+        <View style={styles.dateDisplay}>
+          <Text style={styles.dateText}>{value.format('DD MMM YYYY')}</Text>
+          <Text style={styles.dayText}>{value.format('dddd')}</Text>
+        </View>
+        <TouchableOpacity style={styles.dateArrow} onPress={() => onShift(1)}>
+          <Ionicons name="chevron-forward" size={20} color={Colors.primary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderApplyForm = () => {
+    const days = calendar
+      ? leaveManager.countDays(
+          fromDate.format(ATTENDANCE_DATE_FORMAT),
+          toDate.format(ATTENDANCE_DATE_FORMAT),
+          session,
+          calendar
+        )
+      : null;
+
+    return (
+      <Card title="Apply for Leave" style={styles.card}>
+        <Text style={styles.fieldLabel}>Leave Type</Text>
+        <View style={styles.chipRow}>
+          {LEAVE_TYPES.map(item => (
+            <TouchableOpacity
+              key={item.value}
+              style={[styles.chip, leaveType === item.value && styles.chipSelected]}
+              onPress={() => setLeaveType(item.value)}
+            >
+              <Text style={[styles.chipText, leaveType === item.value && styles.chipTextSelected]}>
+                {item.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.fieldLabel}>Duration</Text>
+        <View style={styles.chipRow}>
+          {LEAVE_SESSIONS.map(item => (
+            <TouchableOpacity
+              key={item.value}
+              style={[styles.chip, session === item.value && styles.chipSelected]}
+              onPress={() => handleSessionChange(item.value)}
+            >
+              <Text style={[styles.chipText, session === item.value && styles.chipTextSelected]}>
+                {item.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {renderDateStepper(session === 'full_day' ? 'From' : 'Date', fromDate, shiftFromDate)}
+        {session === 'full_day' && renderDateStepper('To', toDate, shiftToDate)}
+
+        {days !== null && (
+          <Text style={styles.daysText}>
+            {days} working {days === 1 ? 'day' : 'days'}
+          </Text>
+        )}
+
+        <Text style={styles.fieldLabel}>Reason</Text>
+        <TextInput
+          style={styles.reasonInput}
+          value={reason}
+          onChangeText={setReason}
+          placeholder="Reason for leave"
+          placeholderTextColor={Colors.textDisabled}
+          multiline
+          maxLength={300}
+        />
+
+        <Button
+          text="Apply Leave"
+          icon="paper-plane"
+          onPress={handleApply}
+          loading={isSubmitting}
+          disabled={isSubmitting}
+          fullWidth
+          style={styles.applyButton}
+        />
+      </Card>
+    );
+  };
+
+  const renderHistory = () => (
+    <Card title="Leave History" style={styles.card}>
+      {applications.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="airplane-outline" size={48} color={Colors.textSecondary} />
+          <Text style={styles.emptyStateText}>No leave applications yet</Text>
+        </View>
+      ) : (
+        applications.map(application => {
+          const typeMeta = getLeaveTypeMeta(application.type);
+          const statusMeta = LEAVE_STATUS_META[application.status];
+          return (
+            <View key={application.id} style={styles.historyRow}>
+              <View style={[styles.historyMarker, { backgroundColor: typeMeta.color }]} />
+              <View style={styles.historyInfo}>
+                <Text style={styles.historyType}>
+                  {typeMeta.label} · {application.days} {application.days === 1 ? 'day' : 'days'}
+                </Text>
+                <Text style={styles.historyDates}>{formatLeaveDates(application)}</Text>
+                <Text style={styles.historyReason} numberOfLines={2}>{application.reason}</Text>
+                {application.reviewerComment ? (
+                  <Text style={styles.historyComment}>HR: {application.reviewerComment}</Text>
+                ) : null}
+              </View>
+              <View style={styles.historyActions}>
+                <View style={[styles.statusBadge, { backgroundColor: statusMeta.color + '20' }]}>
+                  <Text style={[styles.statusBadgeText, { color: statusMeta.color }]}>
+                    {statusMeta.label}
+                  </Text>
+                </View>
+                {application.status === 'pending' && (
+                  <TouchableOpacity onPress={() => handleCancel(application)} style={styles.cancelLink}>
+                    <Text style={styles.cancelLinkText}>Cancel</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          );
+        })
+      )}
+    </Card>
+  );
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Loading message="Loading leave details..." />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <TabSafeContainer>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+          }
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {renderHeader()}
+          {renderTitle()}
+          {renderBalances()}
+          {renderApplyForm()}
+          {renderHistory()}
+        </ScrollView>
+      </TabSafeContainer>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  scrollView: {
+    flex: 1,
+  },
+
+  scrollContent: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+
+  header: {
+    marginBottom: Spacing.lg,
+  },
+
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+  },
+
+  backButtonText: {
+    marginLeft: Spacing.sm,
+    fontSize: Typography.fontSize.base,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  titleContainer: {
+    marginBottom: Spacing.lg,
+  },
+
+  title: {
+    fontSize: Typography.fontSize['2xl'],
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.xs,
+  },
+
+  subtitle: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+  },
+
+  card: {
+    marginBottom: Spacing.md,
+  },
+
+  balanceGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+
+  balanceItem: {
+    width: '48%',
+    backgroundColor: Colors.surfaceVariant,
+    borderRadius: Theme.borderRadius.md,
+    borderLeftWidth: 4,
+    padding: Spacing.sm,
+  },
+
+  balanceValue: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+  },
+
+  balanceLabel: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  balanceMeta: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+
+  noteText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: Spacing.sm,
+  },
+
+  fieldLabel: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.xs,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+
+  chip: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: Theme.borderRadius.full,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  chipText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+  },
+
+  chipTextSelected: {
+    color: Colors.white,
+  },
+
+  dateField: {
+    marginBottom: Spacing.md,
+  },
+
+  dateStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: Theme.borderRadius.md,
+  },
+
+  dateArrow: {
+    padding: Spacing.sm,
+  },
+
+  dateDisplay: {
+    flex: 1,
+    alignItems: 'center',
+  },
+
+  dateText: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textPrimary,
+  },
+
+  dayText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+  },
+
+  daysText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.primary,
+    marginBottom: Spacing.md,
+  },
+
+  reasonInput: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: Theme.borderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    minHeight: 70,
+    fontSize: Typography.fontSize.base,
+    color: Colors.textPrimary,
+    textAlignVertical: 'top',
+  },
+
+  applyButton: {
+    marginTop: Spacing.md,
+  },
+
+  historyRow: {
+    flexDirection: 'row',
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+
+  historyMarker: {
+    width: 4,
+    borderRadius: 2,
+    marginRight: Spacing.sm,
+  },
+
+  historyInfo: {
+    flex: 1,
+  },
+
+  historyType: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textPrimary,
+  },
+
+  historyDates: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+    marginTop: 2,
+  },
+
+  historyReason: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+
+  historyComment: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+
+  historyActions: {
+    alignItems: 'flex-end',
+    marginLeft: Spacing.sm,
+  },
+
+  statusBadge: {
+    borderRadius: Theme.borderRadius.full,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+  },
+
+  statusBadgeText: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+
+  cancelLink: {
+    marginTop: Spacing.sm,
+  },
+
+  cancelLinkText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.error,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: Spacing.lg,
+  },
+
+  emptyStateText: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+    marginTop: Spacing.sm,
+  },
+});
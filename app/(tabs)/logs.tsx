@@ -6,6 +6,7 @@ import {
   ScrollView,
   RefreshControl,
   TouchableOpacity,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -14,6 +15,7 @@ import { Picker } from '@react-native-picker/picker';
 
 import { useAuth } from '../../contexts/AuthContext';
 
+import { Button } from '../../components/ui/Button';
 import { Card } from '../../components/ui/Card';
 import { Loading } from '../../components/ui/Loading';
 import { TabSafeContainer } from '../../components/ui/TabSafeContainer';
@@ -21,44 +23,84 @@ import { Colors, Typography, Spacing, Theme } from '../../constants/theme';
 import apiClient from '../../services/apiClient';
 import { useToast } from '../../components/ToastProvider';
 import { handleApiError, logError, withRetry } from '../../utils/errorHandling';
+import {
+  ATTENDANCE_DATE_FORMAT,
+  formatMinutes,
+  getBreakMinutes,
+  getNetMinutes,
+  parseHoursToMinutes,
+} from '../../utils/attendance';
+import {
+  AttendanceRecord,
+  AttendanceStats,
+  EMPTY_ATTENDANCE_STATS,
+  calculateAttendanceStats,
+  evaluateRecord,
+  getRecordBreaks as getAttendanceRecordBreaks,
+} from '../../utils/attendanceStats';
+import BreakManager from '../../services/breakManager';
+import RegularizationManager, { RegularizationInput } from '../../services/regularizationManager';
+import LeaveManager from '../../services/leaveManager';
+import HolidayCalendar, { MonthCalendar } from '../../services/holidayCalendar';
+import { WEEKLY_OFF_PATTERNS } from '../../constants/holidays';
+import { RegularizationModal } from '../../components/RegularizationModal';
+import { AttendanceCalendar, CalendarDay } from '../../components/AttendanceCalendar';
+import { AttendanceDayModal } from '../../components/AttendanceDayModal';
+import { ExportAttendanceModal, ExportRange } from '../../components/ExportAttendanceModal';
+import ExportService, { ExportFormat } from '../../services/exportService';
+import { buildAttendanceCsv, buildAttendanceExportRows, buildAttendanceHtml } from '../../utils/attendanceExport';
+import { REGULARIZATION_STATUS_META } from '../../constants/regularizationReasons';
+import { getLeaveTypeMeta } from '../../constants/leaveTypes';
+import { ATTENDANCE_FLAGS, ATTENDANCE_FLAG_META } from '../../constants/shifts';
+import { useShiftSchedule } from '../../hooks/useShiftSchedule';
+import {
+  BreakRecord,
+  Holiday,
+  LeaveApplication,
+  RegularizationRequest,
+  WeeklyOffPreset,
+} from '../../types/api';
 import { router } from 'expo-router';
 
-interface AttendanceRecord {
+// A day in the list: a server record, approved leave (or both, for half-day leave), or a holiday
+interface AttendanceDay {
   date: string;
-  checkin: string;
-  checkout: string;
-  totalhours: string;
-  autocheckout: boolean;
-  _id: string;
-}
-
-interface AttendanceStats {
-  totalRecords: number;
-  presentDays: number;
-  totalHours: string;
-  avgHoursPerDay: string;
+  record?: AttendanceRecord;
+  leave?: LeaveApplication;
+  holiday?: Holiday;
 }
 
 export default function AttendanceLogsScreen() {
   const { user } = useAuth();
-  const { showSuccess, showError, showWarning } = useToast();
+  const { showSuccess, showError, showWarning, showInfo } = useToast();
   const [attendanceData, setAttendanceData] = useState<AttendanceRecord[]>([]);
   const [selectedMonth, setSelectedMonth] = useState(moment().month() + 1); // moment months are 0-indexed
   const [selectedYear, setSelectedYear] = useState(moment().year());
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [stats, setStats] = useState<AttendanceStats>({
-    totalRecords: 0,
-    presentDays: 0,
-    totalHours: '00:00',
-    avgHoursPerDay: '00:00'
-  });
+  const [stats, setStats] = useState<AttendanceStats>(EMPTY_ATTENDANCE_STATS);
+  const [breakLog, setBreakLog] = useState<Record<string, BreakRecord[]>>({});
+  const [regularizations, setRegularizations] = useState<Record<string, RegularizationRequest>>({});
+  const [selectedRecord, setSelectedRecord] = useState<AttendanceRecord | null>(null);
+  const [leaveDays, setLeaveDays] = useState<Record<string, LeaveApplication>>({});
+  const [calendar, setCalendar] = useState<MonthCalendar | null>(null);
+  const { shift } = useShiftSchedule(user?.id);
+  const [viewMode, setViewMode] = useState<'table' | 'calendar'>('table');
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
 
   // Load data on component mount and when month/year changes
   useEffect(() => {
     loadAttendanceData();
   }, [selectedMonth, selectedYear]);
 
+  // Re-flag the month once the assigned shift replaces the default one
+  useEffect(() => {
+    if (calendar) {
+      calculateStats(attendanceData, breakLog, leaveDays, calendar);
+    }
+  }, [shift]);
+
   const loadAttendanceData = async () => {
     try {
       setIsLoading(true);
@@ -76,9 +118,28 @@ export default function AttendanceLogsScreen() {
       
       const logs = response.data || [];
       setAttendanceData(logs);
+
+      // Breaks recorded on this device fill in for days the server has none for
+      const localBreaks = await BreakManager.getInstance().getBreakLog(user.id);
+      setBreakLog(localBreaks);
+
+      // Leave approved since the last visit to the leave screen counts too; offline the saved copy is used
+      const leaveManager = LeaveManager.getInstance();
+      try {
+        await leaveManager.syncApplications(user.id);
+      } catch (error) {
+        logError(handleApiError(error), 'Leave applications sync');
+      }
+      const approvedLeave = await leaveManager.getApprovedLeaveDays(user.id, user.workLocation);
+      setLeaveDays(approvedLeave);
+
+      const monthCalendar = await HolidayCalendar.getInstance().getMonthCalendar(user.id, user.workLocation, selectedYear);
+      setCalendar(monthCalendar);
       
       // Calculate statistics
-      calculateStats(logs);
+      calculateStats(logs, localBreaks, approvedLeave, monthCalendar);
+
+      await loadRegularizations();
 
       if (logs.length === 0) {
         showWarning(`No attendance records found for ${selectedMonth}/${selectedYear}`);
@@ -95,35 +156,236 @@ export default function AttendanceLogsScreen() {
     }
   };
 
-  const calculateStats = (logs: AttendanceRecord[]) => {
-    const totalRecords = logs.length;
-    const presentDays = logs.filter(log => log.checkin).length;
-    
-    // Calculate total hours
-    let totalMinutes = 0;
-    logs.forEach(log => {
-      if (log.totalhours && log.totalhours !== '00:00') {
-        const [hours, minutes] = log.totalhours.split(':').map(Number);
-        totalMinutes += (hours * 60) + minutes;
+  const loadRegularizations = async () => {
+    if (!user?.id) return;
+    const regularizationManager = RegularizationManager.getInstance();
+    setRegularizations(await regularizationManager.getRequestsByDate(user.id));
+
+    // Status refresh is best-effort; local copies still show while offline
+    try {
+      const resolved = await regularizationManager.syncStatuses(user.id);
+      resolved.forEach(request => {
+        const label = REGULARIZATION_STATUS_META[request.status].label.toLowerCase();
+        const day = moment(request.date, ATTENDANCE_DATE_FORMAT).format('DD MMM');
+        if (request.status === 'approved') {
+          showSuccess(`Regularization for ${day} was ${label}`);
+        } else {
+          showWarning(`Regularization for ${day} was ${label}`);
+        }
+      });
+      setRegularizations(await regularizationManager.getRequestsByDate(user.id));
+    } catch (error) {
+      logError(error, 'Regularization status sync');
+    }
+  };
+
+  const handleSubmitRegularization = async (input: RegularizationInput) => {
+    if (!user?.id) {
+      throw new Error('User session expired. Please log in again.');
+    }
+
+    const { queued } = await RegularizationManager.getInstance().submit(user.id, input);
+    setRegularizations(await RegularizationManager.getInstance().getRequestsByDate(user.id));
+    setSelectedRecord(null);
+
+    if (queued) {
+      showInfo('You are offline. Your regularization request will be sent when you reconnect.');
+    } else {
+      showSuccess('Regularization request submitted for approval');
+    }
+  };
+
+  // Months other than the one on screen are fetched on demand
+  const getRecordsForRange = async (employeeId: string, from: moment.Moment, to: moment.Moment) => {
+    const records: AttendanceRecord[] = [];
+    const month = from.clone().startOf('month');
+
+    while (month.isSameOrBefore(to, 'month')) {
+      if (month.month() + 1 === selectedMonth && month.year() === selectedYear) {
+        records.push(...attendanceData);
+      } else {
+        const response = await withRetry(
+          () => apiClient.getAttendanceLogs(employeeId, month.month() + 1, month.year()),
+          2
+        );
+        records.push(...((response.data || []) as AttendanceRecord[]));
+      }
+      month.add(1, 'month');
+    }
+
+    return records.filter(record =>
+      moment(record.date, ATTENDANCE_DATE_FORMAT).isBetween(from, to, 'day', '[]')
+    );
+  };
+
+  const handleExport = async ({ from, to }: ExportRange, format: ExportFormat) => {
+    if (!user?.id) {
+      throw new Error('User session expired. Please log in again.');
+    }
+
+    try {
+      const records = await getRecordsForRange(user.id, from, to);
+      const rangeCalendar = await HolidayCalendar.getInstance().getRangeCalendar(user.id, user.workLocation, from, to);
+      const exportStats = calculateAttendanceStats(records, {
+        localBreaks: breakLog,
+        approvedLeave: leaveDays,
+        workingDays: HolidayCalendar.getInstance().getWorkingDaysBetween(
+          from,
+          moment.min(to, moment()),
+          rangeCalendar
+        ),
+        shift,
+      });
+      const rows = buildAttendanceExportRows(records, {
+        from,
+        to,
+        shift,
+        localBreaks: breakLog,
+        approvedLeave: leaveDays,
+        holidays: rangeCalendar.holidays,
+      });
+      const meta = {
+        employeeId: user.id,
+        employeeName: user.name,
+        department: user.department,
+        designation: user.designation,
+        from,
+        to,
+        shift,
+      };
+
+      const exportService = ExportService.getInstance();
+      const fileName = `attendance_${user.id}_${from.format('YYYYMMDD')}_${to.format('YYYYMMDD')}.${format}`;
+      const file =
+        format === 'csv'
+          ? exportService.writeCsv(fileName, buildAttendanceCsv(meta, exportStats, rows))
+          : await exportService.writePdf(fileName, buildAttendanceHtml(meta, exportStats, rows));
+
+      await exportService.share(file, format, 'Share attendance report');
+      setShowExportModal(false);
+    } catch (error) {
+      const appError = handleApiError(error);
+      logError(appError, 'Attendance export');
+      throw appError;
+    }
+  };
+
+  const isInSelectedMonth = (date: string) => {
+    const day = moment(date, ATTENDANCE_DATE_FORMAT);
+    return day.month() + 1 === selectedMonth && day.year() === selectedYear;
+  };
+
+  // Merge approved leave and holidays into the month so absent days are explained rather than missing
+  const getAttendanceDays = (): AttendanceDay[] => {
+    const days: AttendanceDay[] = attendanceData.map(record => ({
+      date: record.date,
+      record,
+      leave: leaveDays[record.date],
+    }));
+    const hasDay = (date: string) => days.some(day => day.date === date);
+
+    Object.keys(leaveDays).forEach(date => {
+      if (isInSelectedMonth(date) && !hasDay(date)) {
+        days.push({ date, leave: leaveDays[date] });
       }
     });
-    
-    const totalHours = Math.floor(totalMinutes / 60);
-    const remainingMinutes = totalMinutes % 60;
-    const totalHoursString = `${totalHours.toString().padStart(2, '0')}:${remainingMinutes.toString().padStart(2, '0')}`;
-    
-    // Calculate average hours per day
-    const avgMinutes = presentDays > 0 ? totalMinutes / presentDays : 0;
-    const avgHours = Math.floor(avgMinutes / 60);
-    const avgRemainingMinutes = Math.floor(avgMinutes % 60);
-    const avgHoursString = `${avgHours.toString().padStart(2, '0')}:${avgRemainingMinutes.toString().padStart(2, '0')}`;
-    
-    setStats({
-      totalRecords,
-      presentDays,
-      totalHours: totalHoursString,
-      avgHoursPerDay: avgHoursString
+
+    Object.values(calendar?.holidays || {}).forEach(holiday => {
+      if (isInSelectedMonth(holiday.date) && !hasDay(holiday.date)) {
+        days.push({ date: holiday.date, holiday });
+      }
     });
+
+    return days.sort(
+      (a, b) =>
+        moment(a.date, ATTENDANCE_DATE_FORMAT).valueOf() - moment(b.date, ATTENDANCE_DATE_FORMAT).valueOf()
+    );
+  };
+
+  // Colour every day of the month from data already loaded for the table
+  const getCalendarDays = (): Record<string, CalendarDay> => {
+    const days: Record<string, CalendarDay> = {};
+    const day = moment({ year: selectedYear, month: selectedMonth - 1, date: 1 });
+    const end = day.clone().endOf('month');
+    const today = moment();
+
+    while (day.isSameOrBefore(end, 'day')) {
+      const date = day.format(ATTENDANCE_DATE_FORMAT);
+      const record = attendanceData.find(item => item.date === date);
+      const isToday = day.isSame(today, 'day');
+      let status: CalendarDay['status'] = 'upcoming';
+      let workedMinutes = 0;
+
+      if (record?.checkin) {
+        workedMinutes = getNetMinutes(record, getRecordBreaks(record));
+        if (record.autocheckout) {
+          status = 'auto_checkout';
+        } else if (!record.checkout && !isToday) {
+          status = 'incomplete';
+        } else {
+          status = 'present';
+        }
+      } else if (leaveDays[date]) {
+        status = 'leave';
+      } else if (calendar?.holidays[date]) {
+        status = 'holiday';
+      } else if (calendar && HolidayCalendar.getInstance().isWeeklyOff(day, calendar.weeklyOff)) {
+        status = 'weekend';
+      } else if (day.isBefore(today, 'day')) {
+        status = 'absent';
+      }
+
+      days[date] = { date, status, workedMinutes };
+      day.add(1, 'day');
+    }
+
+    return days;
+  };
+
+  const getRecordBreaks = (record: AttendanceRecord, localBreaks: Record<string, BreakRecord[]> = breakLog) =>
+    getAttendanceRecordBreaks(record, localBreaks);
+
+  const getDayEvaluation = (record: AttendanceRecord, localBreaks: Record<string, BreakRecord[]> = breakLog) =>
+    evaluateRecord(record, shift, localBreaks);
+
+  const calculateStats = (
+    logs: AttendanceRecord[],
+    localBreaks: Record<string, BreakRecord[]>,
+    approvedLeave: Record<string, LeaveApplication>,
+    monthCalendar: MonthCalendar
+  ) => {
+    setStats(
+      calculateAttendanceStats(logs, {
+        localBreaks,
+        approvedLeave,
+        workingDays: HolidayCalendar.getInstance().getWorkingDays(selectedMonth, selectedYear, monthCalendar),
+        shift,
+      })
+    );
+  };
+
+  const handleChangeWeeklyOff = () => {
+    Alert.alert(
+      'Weekly Off',
+      'Which days are your weekly offs?',
+      [
+        ...(Object.keys(WEEKLY_OFF_PATTERNS) as WeeklyOffPreset[]).map(preset => ({
+          text: WEEKLY_OFF_PATTERNS[preset].label,
+          onPress: async () => {
+            if (!user?.id) return;
+            await HolidayCalendar.getInstance().setWeeklyOffPattern(user.id, preset);
+            const monthCalendar = await HolidayCalendar.getInstance().getMonthCalendar(
+              user.id,
+              user.workLocation,
+              selectedYear
+            );
+            setCalendar(monthCalendar);
+            calculateStats(attendanceData, breakLog, leaveDays, monthCalendar);
+          },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
   };
 
   const handleRefresh = async () => {
@@ -160,9 +422,26 @@ export default function AttendanceLogsScreen() {
   );
 
   const renderTitle = () => (
-    <View style={styles.titleContainer}>
-      <Text style={styles.title}>My Attendance Records</Text>
-      <Text style={styles.subtitle}>View your check-in and check-out times</Text>
+    <View style={[styles.titleContainer, styles.titleRow]}>
+      <View style={styles.titleText}>
+        <Text style={styles.title}>My Attendance Records</Text>
+        <Text style={styles.subtitle}>View your check-in and check-out times</Text>
+      </View>
+      <Button
+        text="Leave"
+        variant="outline"
+        size="sm"
+        icon="airplane-outline"
+        onPress={() => router.push('/leave')}
+      />
+      <Button
+        text="Export"
+        variant="outline"
+        size="sm"
+        icon="share-outline"
+        onPress={() => setShowExportModal(true)}
+        disabled={!user?.id}
+      />
     </View>
   );
 
@@ -224,27 +503,156 @@ export default function AttendanceLogsScreen() {
           <Text style={styles.statValue}>{stats.presentDays}</Text>
           <Text style={styles.statLabel}>Present Days</Text>
         </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{stats.avgHoursPerDay}</Text>
+          <Text style={styles.statLabel}>Avg Net/Day</Text>
+        </View>
+      </View>
+      <View style={[styles.statsGrid, styles.statsRowSpacing]}>
         <View style={styles.statItem}>
           <Text style={styles.statValue}>{stats.totalHours}</Text>
-          <Text style={styles.statLabel}>Total Hours</Text>
+          <Text style={styles.statLabel}>Gross Hours</Text>
         </View>
         <View style={styles.statItem}>
-          <Text style={styles.statValue}>{stats.avgHoursPerDay}</Text>
-          <Text style={styles.statLabel}>Avg Hours/Day</Text>
+          <Text style={styles.statValue}>{stats.breakHours}</Text>
+          <Text style={styles.statLabel}>Break Time</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{stats.netHours}</Text>
+          <Text style={styles.statLabel}>Net Hours</Text>
+        </View>
+      </View>
+      <View style={[styles.statsGrid, styles.statsRowSpacing]}>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{stats.workingDays}</Text>
+          <Text style={styles.statLabel}>Working Days</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{stats.attendancePercentage}%</Text>
+          <Text style={styles.statLabel}>Attendance</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text
+            style={[styles.statValue, stats.unexplainedAbsences.length > 0 && { color: Colors.error }]}
+          >
+            {stats.unexplainedAbsences.length}
+          </Text>
+          <Text style={styles.statLabel}>Unexplained</Text>
+        </View>
+      </View>
+
+      <View style={styles.flagSummary}>
+        <Text style={styles.flagSummaryTitle}>
+          {shift.name} · {shift.start} - {shift.end}
+        </Text>
+        <View style={styles.flagCounts}>
+          {ATTENDANCE_FLAGS.map(flag => (
+            <View key={flag} style={styles.flagCount}>
+              <Text style={[styles.flagCountValue, { color: ATTENDANCE_FLAG_META[flag].color }]}>
+                {stats.flagCounts[flag]}
+              </Text>
+              <Text style={styles.flagCountLabel}>{ATTENDANCE_FLAG_META[flag].label}</Text>
+            </View>
+          ))}
         </View>
       </View>
+
+      {stats.unexplainedAbsences.length > 0 && (
+        <View style={styles.absenceList}>
+          {stats.unexplainedAbsences.map(date => (
+            <View key={date} style={styles.absenceChip}>
+              <Text style={styles.absenceChipText}>
+                {moment(date, ATTENDANCE_DATE_FORMAT).format('ddd DD')}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {calendar && (
+        <TouchableOpacity style={styles.weeklyOffRow} onPress={handleChangeWeeklyOff}>
+          <Ionicons name="calendar-clear-outline" size={16} color={Colors.textSecondary} />
+          <Text style={styles.weeklyOffText}>
+            Weekly off: {WEEKLY_OFF_PATTERNS[calendar.weeklyOff.preset].label}
+            {calendar.isFallback ? ' · public holidays only' : ''}
+          </Text>
+          <Ionicons name="create-outline" size={16} color={Colors.primary} />
+        </TouchableOpacity>
+      )}
     </Card>
   );
 
-  const renderAttendanceList = () => (
-    <Card style={styles.listCard}>
-      <View style={styles.listHeader}>
-        <Text style={styles.listTitle}>
-          Attendance Records - {getMonthName(selectedMonth)} {selectedYear}
+  const renderLeaveStatus = (leave: LeaveApplication) => {
+    const meta = getLeaveTypeMeta(leave.type);
+    return (
+      <View style={[styles.statusBadge, { backgroundColor: meta.color + '20' }]}>
+        <Text style={[styles.statusBadgeText, { color: meta.color }]}>
+          {leave.session === 'full_day' ? 'Leave' : 'Half Leave'}
         </Text>
-        <Text style={styles.listSubtitle}>Detailed check-in and check-out records</Text>
       </View>
+    );
+  };
+
+  const renderRecordStatus = (record: AttendanceRecord) => {
+    const regularization = regularizations[record.date];
+    if (regularization?.status === 'pending') {
+      const meta = REGULARIZATION_STATUS_META.pending;
+      return (
+        <View style={[styles.statusBadge, { backgroundColor: meta.color + '20' }]}>
+          <Text style={[styles.statusBadgeText, { color: meta.color }]}>{meta.label}</Text>
+        </View>
+      );
+    }
+
+    if (leaveDays[record.date]) {
+      return renderLeaveStatus(leaveDays[record.date]);
+    }
+
+    const isToday = record.date === moment().format(ATTENDANCE_DATE_FORMAT);
+    if (record.autocheckout) {
+      return <Text style={[styles.statusText, { color: Colors.warning }]}>Auto Out</Text>;
+    }
+    if (!record.checkout && !isToday) {
+      return <Text style={[styles.statusText, { color: Colors.error }]}>Missed Out</Text>;
+    }
+
+    const { flags } = getDayEvaluation(record);
+    return (
+      <>
+        {flags.slice(0, 2).map(flag => (
+          <Text key={flag} style={[styles.statusText, { color: ATTENDANCE_FLAG_META[flag].color }]}>
+            {ATTENDANCE_FLAG_META[flag].label}
+          </Text>
+        ))}
+        {regularization?.status === 'approved' && (
+          <Text style={[styles.statusText, styles.regularizedText]}>Regularized</Text>
+        )}
+      </>
+    );
+  };
+
+  // Rows for days without punches: approved leave or a holiday
+  const renderNonWorkingRow = (date: string, label: string, status: React.ReactNode) => {
+    const dateInfo = formatDate(date);
+    return (
+      <View key={`day_${date}`} style={styles.tableRow}>
+        <View style={styles.dateColumn}>
+          <Text style={styles.dayName}>{dateInfo.dayName}</Text>
+          <Text style={styles.dateText}>{dateInfo.dayDate}</Text>
+          <Text style={styles.fullDayText}>{dateInfo.fullDay}</Text>
+        </View>
+        <View style={styles.leaveColumn}>
+          <Text style={styles.leaveText}>{label}</Text>
+        </View>
+        <View style={styles.statusColumn}>
+          {status}
+        </View>
+      </View>
+    );
+  };
 
+  const renderAttendanceTable = (attendanceDays: AttendanceDay[]) => (
+    <>
       <View style={styles.tableHeader}>
         <Text style={[styles.tableHeaderText, styles.dateColumn]}>Date</Text>
         <Text style={[styles.tableHeaderText, styles.timeColumn]}>Check In</Text>
@@ -253,7 +661,7 @@ export default function AttendanceLogsScreen() {
         <Text style={[styles.tableHeaderText, styles.statusColumn]}>Status</Text>
       </View>
 
-      {attendanceData.length === 0 ? (
+      {attendanceDays.length === 0 ? (
         <View style={styles.emptyState}>
           <Ionicons name="calendar-outline" size={64} color={Colors.textSecondary} />
           <Text style={styles.emptyStateText}>No attendance records found</Text>
@@ -262,10 +670,29 @@ export default function AttendanceLogsScreen() {
           </Text>
         </View>
       ) : (
-        attendanceData.map((record, index) => {
+        attendanceDays.map(({ date, record, leave, holiday }) => {
+          if (!record) {
+            if (leave) {
+              return renderNonWorkingRow(date, getLeaveTypeMeta(leave.type).label, renderLeaveStatus(leave));
+            }
+            return holiday
+              ? renderNonWorkingRow(
+                  date,
+                  holiday.name,
+                  <Text style={[styles.statusText, { color: Colors.info }]}>Holiday</Text>
+                )
+              : null;
+          }
           const dateInfo = formatDate(record.date);
+          const recordBreaks = getRecordBreaks(record);
+          const breakMinutes = getBreakMinutes(recordBreaks);
           return (
-            <View key={record._id} style={styles.tableRow}>
+            <TouchableOpacity
+              key={record._id}
+              style={styles.tableRow}
+              onPress={() => setSelectedRecord(record)}
+              activeOpacity={0.7}
+            >
               <View style={styles.dateColumn}>
                 <Text style={styles.dayName}>{dateInfo.dayName}</Text>
                 <Text style={styles.dateText}>{dateInfo.dayDate}</Text>
@@ -284,18 +711,101 @@ export default function AttendanceLogsScreen() {
               
               <View style={styles.hoursColumn}>
                 <Text style={styles.hoursText}>{record.totalhours}</Text>
+                {breakMinutes > 0 && (
+                  <Text style={styles.netHoursText}>
+                    net {formatMinutes(Math.max(0, parseHoursToMinutes(record.totalhours) - breakMinutes))}
+                  </Text>
+                )}
               </View>
               
               <View style={styles.statusColumn}>
-                <Text style={styles.statusText}>Manual</Text>
+                {renderRecordStatus(record)}
               </View>
-            </View>
+            </TouchableOpacity>
           );
         })
       )}
-    </Card>
+    </>
+  );
+
+  const renderViewToggle = () => (
+    <View style={styles.viewToggle}>
+      {(['table', 'calendar'] as const).map(mode => (
+        <TouchableOpacity
+          key={mode}
+          style={[styles.viewToggleButton, viewMode === mode && styles.viewToggleButtonActive]}
+          onPress={() => setViewMode(mode)}
+        >
+          <Ionicons
+            name={mode === 'table' ? 'list' : 'calendar'}
+            size={16}
+            color={viewMode === mode ? Colors.white : Colors.primary}
+          />
+        </TouchableOpacity>
+      ))}
+    </View>
   );
 
+  const renderAttendanceList = () => {
+    const attendanceDays = getAttendanceDays();
+
+    return (
+      <Card style={styles.listCard}>
+        <View style={[styles.listHeader, styles.listHeaderRow]}>
+          <View style={styles.titleText}>
+            <Text style={styles.listTitle}>
+              Attendance Records - {getMonthName(selectedMonth)} {selectedYear}
+            </Text>
+            <Text style={styles.listSubtitle}>
+              {viewMode === 'table' ? 'Tap a record to request a correction' : 'Tap a day to see its punches'}
+            </Text>
+          </View>
+          {renderViewToggle()}
+        </View>
+
+        {viewMode === 'calendar' ? (
+          <AttendanceCalendar
+            month={selectedMonth}
+            year={selectedYear}
+            days={getCalendarDays()}
+            targetMinutes={shift.minHours * 60}
+            onDayPress={setSelectedDate}
+          />
+        ) : (
+          renderAttendanceTable(attendanceDays)
+        )}
+      </Card>
+    );
+  };
+
+  const renderDayModal = () => {
+    if (!selectedDate) return null;
+
+    const record = attendanceData.find(item => item.date === selectedDate);
+    const calendarDay = getCalendarDays()[selectedDate];
+
+    return (
+      <AttendanceDayModal
+        visible={!!selectedDate}
+        day={calendarDay}
+        record={record}
+        breaks={record ? getRecordBreaks(record) : breakLog[selectedDate] || []}
+        flags={record ? getDayEvaluation(record).flags : []}
+        leave={leaveDays[selectedDate]}
+        holiday={calendar?.holidays[selectedDate]}
+        onClose={() => setSelectedDate(null)}
+        onRequestCorrection={
+          record
+            ? () => {
+                setSelectedDate(null);
+                setSelectedRecord(record);
+              }
+            : undefined
+        }
+      />
+    );
+  };
+
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -322,6 +832,24 @@ export default function AttendanceLogsScreen() {
           {renderAttendanceList()}
         </ScrollView>
       </TabSafeContainer>
+
+      {renderDayModal()}
+
+      <ExportAttendanceModal
+        visible={showExportModal}
+        month={selectedMonth}
+        year={selectedYear}
+        onClose={() => setShowExportModal(false)}
+        onExport={handleExport}
+      />
+
+      <RegularizationModal
+        visible={!!selectedRecord}
+        record={selectedRecord}
+        existingRequest={selectedRecord ? regularizations[selectedRecord.date] : null}
+        onClose={() => setSelectedRecord(null)}
+        onSubmit={handleSubmitRegularization}
+      />
     </SafeAreaView>
   );
 }
@@ -362,6 +890,16 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.lg,
   },
 
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+
+  titleText: {
+    flex: 1,
+  },
+
   title: {
     fontSize: Typography.fontSize['2xl'],
     fontWeight: Typography.fontWeight.bold,
@@ -415,6 +953,79 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
   },
 
+  statsRowSpacing: {
+    marginTop: Spacing.md,
+  },
+
+  flagSummary: {
+    marginTop: Spacing.md,
+    paddingTop: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: Colors.gray200,
+  },
+
+  flagSummaryTitle: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.sm,
+  },
+
+  flagCounts: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+
+  flagCount: {
+    alignItems: 'center',
+    flex: 1,
+  },
+
+  flagCountValue: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.bold,
+  },
+
+  flagCountLabel: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+
+  absenceList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginTop: Spacing.md,
+  },
+
+  absenceChip: {
+    backgroundColor: Colors.error + '15',
+    borderRadius: Theme.borderRadius.full,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+  },
+
+  absenceChipText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.error,
+  },
+
+  weeklyOffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.md,
+    paddingTop: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: Colors.gray200,
+  },
+
+  weeklyOffText: {
+    flex: 1,
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+  },
+
   statItem: {
     alignItems: 'center',
     flex: 1,
@@ -444,6 +1055,29 @@ const styles = StyleSheet.create({
     borderBottomColor: Colors.border,
   },
 
+  listHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+
+  viewToggle: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderRadius: Theme.borderRadius.md,
+    overflow: 'hidden',
+  },
+
+  viewToggleButton: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+
+  viewToggleButtonActive: {
+    backgroundColor: Colors.primary,
+  },
+
   listTitle: {
     fontSize: Typography.fontSize.lg,
     fontWeight: Typography.fontWeight.semiBold,
@@ -497,6 +1131,18 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
 
+  leaveColumn: {
+    flex: 3,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  leaveText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textSecondary,
+  },
+
   dayName: {
     fontSize: Typography.fontSize.xs,
     fontWeight: Typography.fontWeight.bold,
@@ -527,12 +1173,34 @@ const styles = StyleSheet.create({
     color: Colors.primary,
   },
 
+  netHoursText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+
   statusText: {
     fontSize: Typography.fontSize.xs,
     color: Colors.textSecondary,
     textTransform: 'uppercase',
   },
 
+  regularizedText: {
+    color: Colors.success,
+    marginTop: 2,
+  },
+
+  statusBadge: {
+    borderRadius: Theme.borderRadius.full,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+  },
+
+  statusBadgeText: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+
   emptyState: {
     alignItems: 'center',
     paddingVertical: Spacing.xl,
@@ -0,0 +1,526 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import moment from 'moment';
+import { router, useLocalSearchParams } from 'expo-router';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../../components/ui/Button';
+import { Card } from '../../components/ui/Card';
+import { Loading } from '../../components/ui/Loading';
+import { TabSafeContainer } from '../../components/ui/TabSafeContainer';
+import { Colors, Typography, Spacing, Theme } from '../../constants/theme';
+import { getLeaveTypeMeta } from '../../constants/leaveTypes';
+import LopReconciliationService, { ReconciliationResult } from '../../services/lopReconciliationService';
+import PayslipDiscrepancyManager from '../../services/payslipDiscrepancyManager';
+import { useToast } from '../../components/ToastProvider';
+import { handleApiError, logError } from '../../utils/errorHandling';
+import { ATTENDANCE_DATE_FORMAT } from '../../utils/attendance';
+import { ReconciliationDay, ReconciliationDayStatus } from '../../utils/lopReconciliation';
+
+const DAY_STATUS_META: Record<ReconciliationDayStatus, { label: string; color: string }> = {
+  present: { label: 'Present', color: Colors.success },
+  absent: { label: 'No punch', color: Colors.error },
+  paid_leave: { label: 'Paid leave', color: Colors.primary },
+  unpaid_leave: { label: 'Unpaid leave', color: Colors.warning },
+  half_day_unpaid: { label: 'Half-day unpaid', color: Colors.warning },
+  non_working: { label: 'Off', color: Colors.gray400 },
+};
+
+const formatDays = (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`;
+
+export default function LopReconciliationScreen() {
+  const { user } = useAuth();
+  const { showSuccess, showError, showInfo } = useToast();
+  const params = useLocalSearchParams<{ month?: string; year?: string }>();
+
+  // Defaults to last month, the latest payslip payroll is likely to have issued
+  const initialPeriod = params.month && params.year
+    ? moment({ year: Number(params.year), month: Number(params.month) - 1, date: 1 })
+    : moment().subtract(1, 'month').startOf('month');
+  const [period, setPeriod] = useState(initialPeriod);
+  const [result, setResult] = useState<ReconciliationResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+
+  useEffect(() => {
+    loadReconciliation();
+  }, [period]);
+
+  const loadReconciliation = async () => {
+    if (!user) {
+      showError('User session expired. Please log in again.');
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setResult(await LopReconciliationService.getInstance().reconcile(user, period.month() + 1, period.year()));
+    } catch (error) {
+      const appError = handleApiError(error);
+      logError(appError, 'LOP reconciliation loading');
+      setResult(null);
+      showError(appError.message || 'Failed to load payslip and attendance. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadReconciliation();
+    setIsRefreshing(false);
+  };
+
+  const handlePeriodChange = (months: number) => {
+    const next = period.clone().add(months, 'month');
+    if (next.isAfter(moment(), 'month')) return;
+    setPeriod(next);
+  };
+
+  const describeDay = (day: ReconciliationDay): string => {
+    const date = moment(day.date, ATTENDANCE_DATE_FORMAT).format('DD MMM (ddd)');
+    const punches = day.record
+      ? `in ${moment(day.record.checkin).format('hh:mm A')}, ` +
+        `out ${day.record.checkout ? moment(day.record.checkout).format('hh:mm A') : 'missing'}`
+      : 'no punch';
+    const leave = day.leave ? `; ${getLeaveTypeMeta(day.leave.type).label} approved` : '';
+    return `${date}: ${punches}${leave}`;
+  };
+
+  const handleDispute = () => {
+    if (!user || !result?.payslip || !result.reconciliation) return;
+
+    const { payslip, reconciliation } = result;
+    const evidence = reconciliation.days.filter(day => day.status !== 'non_working').map(describeDay);
+
+    Alert.alert(
+      'Dispute LOP',
+      `Payroll counted ${formatDays(reconciliation.payrollLop)} of LOP but your attendance supports ` +
+        `${formatDays(reconciliation.expectedLop)}. Send your attendance for ${period.format('MMMM YYYY')} to payroll?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Send',
+          onPress: async () => {
+            try {
+              setIsReporting(true);
+              const { report, queued } = await PayslipDiscrepancyManager.getInstance().report(
+                user.id,
+                payslip,
+                [
+                  {
+                    code: 'lop_mismatch',
+                    message:
+                      `Payroll LOP is ${formatDays(reconciliation.payrollLop)} but attendance, holidays and ` +
+                      `approved leave support ${formatDays(reconciliation.expectedLop)}`,
+                    expected: reconciliation.expectedLop,
+                    actual: reconciliation.payrollLop,
+                  },
+                ],
+                evidence
+              );
+              setResult({ ...result, report });
+              if (queued) {
+                showInfo('You are offline. Your dispute will be sent to payroll when you reconnect.');
+              } else {
+                showSuccess('LOP dispute sent to payroll with your attendance');
+              }
+            } catch (error) {
+              const appError = handleApiError(error);
+              logError(appError, 'LOP dispute');
+              showError(appError.message || 'Failed to send the dispute. Please try again.');
+            } finally {
+              setIsReporting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Ionicons name="arrow-back" size={24} color={Colors.primary} />
+        <Text style={styles.backButtonText}>Back to Payslip</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderTitle = () => (
+    <View style={styles.titleContainer}>
+      <Text style={styles.title}>LOP Check</Text>
+      <Text style={styles.subtitle}>Payroll loss-of-pay days against your attendance</Text>
+    </View>
+  );
+
+  const renderPeriodSelector = () => (
+    <Card style={styles.card}>
+      <View style={styles.periodSelector}>
+        <TouchableOpacity style={styles.periodArrow} onPress={() => handlePeriodChange(-1)}>
+          <Ionicons name="chevron-back" size={24} color={Colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.periodText}>{period.format('MMMM YYYY')}</Text>
+        <TouchableOpacity style={styles.periodArrow} onPress={() => handlePeriodChange(1)}>
+          <Ionicons
+            name="chevron-forward"
+            size={24}
+            color={period.isSame(moment(), 'month') ? Colors.textDisabled : Colors.primary}
+          />
+        </TouchableOpacity>
+      </View>
+    </Card>
+  );
+
+  const renderRow = (label: string, value: string) => (
+    <View style={styles.detailRow}>
+      <Text style={styles.detailLabel}>{label}</Text>
+      <Text style={styles.detailValue}>{value}</Text>
+    </View>
+  );
+
+  const renderSummary = () => {
+    if (!result?.reconciliation) return null;
+
+    const { reconciliation, report } = result;
+    const { difference } = reconciliation;
+    const bannerColor = difference > 0 ? Colors.error : difference < 0 ? Colors.info : Colors.success;
+
+    return (
+      <Card title="LOP Days" style={styles.card}>
+        <View style={styles.compareRow}>
+          <View style={styles.compareItem}>
+            <Text style={styles.compareValue}>{reconciliation.payrollLop}</Text>
+            <Text style={styles.compareLabel}>Payroll</Text>
+          </View>
+          <View style={styles.compareItem}>
+            <Text style={styles.compareValue}>{reconciliation.expectedLop}</Text>
+            <Text style={styles.compareLabel}>Attendance</Text>
+          </View>
+        </View>
+
+        <View style={[styles.banner, { backgroundColor: bannerColor + '15' }]}>
+          <Ionicons
+            name={difference === 0 ? 'checkmark-circle-outline' : 'alert-circle-outline'}
+            size={20}
+            color={bannerColor}
+          />
+          <Text style={styles.bannerText}>
+            {difference > 0
+              ? `Payroll deducts ${formatDays(difference)} more than your attendance supports`
+              : difference < 0
+                ? `Payroll deducts ${formatDays(-difference)} fewer than your attendance shows`
+                : 'Payroll LOP matches your attendance'}
+          </Text>
+        </View>
+
+        {renderRow('Days in month', `${reconciliation.daysInMonth}`)}
+        {renderRow('Working days', `${reconciliation.workingDays}`)}
+        {renderRow('Days with punches', `${reconciliation.presentDays}`)}
+        {renderRow('Paid leave', `${reconciliation.paidLeaveDays}`)}
+        {renderRow('Paid days per payroll', `${reconciliation.payrollWorkedDays}`)}
+
+        {result.isCalendarFallback && (
+          <Text style={styles.noteText}>
+            The holiday calendar could not be loaded, so working days use the standard public holidays.
+          </Text>
+        )}
+
+        {difference > 0 &&
+          (report ? (
+            <Text style={styles.noteText}>
+              Disputed with payroll on {moment(report.reportedAt).format('DD MMM YYYY')}
+              {report.synced ? '' : ' - will be sent when you are online'}
+            </Text>
+          ) : (
+            <Button
+              text="Dispute with Payroll"
+              variant="outline"
+              icon="flag-outline"
+              onPress={handleDispute}
+              loading={isReporting}
+              disabled={isReporting}
+              fullWidth
+              style={styles.disputeButton}
+            />
+          ))}
+      </Card>
+    );
+  };
+
+  const renderDays = () => {
+    if (!result?.reconciliation) return null;
+
+    const days = result.reconciliation.days.filter(day => day.status !== 'non_working');
+
+    return (
+      <Card title="Working Days" style={styles.card}>
+        {days.map(day => {
+          const meta = DAY_STATUS_META[day.status];
+          return (
+            <View key={day.date} style={styles.dayRow}>
+              <View style={styles.dayInfo}>
+                <Text style={styles.dayDate}>
+                  {moment(day.date, ATTENDANCE_DATE_FORMAT).format('DD MMM, ddd')}
+                </Text>
+                {day.record && (
+                  <Text style={styles.dayPunches}>
+                    {moment(day.record.checkin).format('hh:mm A')} -{' '}
+                    {day.record.checkout ? moment(day.record.checkout).format('hh:mm A') : 'No check-out'}
+                  </Text>
+                )}
+              </View>
+              {day.lop > 0 && <Text style={styles.dayLop}>LOP {day.lop}</Text>}
+              <View style={[styles.statusBadge, { backgroundColor: meta.color + '20' }]}>
+                <Text style={[styles.statusBadgeText, { color: meta.color }]}>{meta.label}</Text>
+              </View>
+            </View>
+          );
+        })}
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <TabSafeContainer>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+          }
+          showsVerticalScrollIndicator={false}
+        >
+          {renderHeader()}
+          {renderTitle()}
+          {renderPeriodSelector()}
+
+          {isLoading ? (
+            <Loading message="Comparing payslip with attendance..." />
+          ) : result?.reconciliation ? (
+            <>
+              {renderSummary()}
+              {renderDays()}
+            </>
+          ) : (
+            <Card style={styles.card}>
+              <View style={styles.emptyState}>
+                <Ionicons name="document-outline" size={48} color={Colors.textSecondary} />
+                <Text style={styles.emptyStateText}>
+                  No payslip found for {period.format('MMMM YYYY')}, so there is nothing to check yet.
+                </Text>
+              </View>
+            </Card>
+          )}
+        </ScrollView>
+      </TabSafeContainer>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  scrollView: {
+    flex: 1,
+  },
+
+  scrollContent: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+
+  header: {
+    marginBottom: Spacing.lg,
+  },
+
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+  },
+
+  backButtonText: {
+    marginLeft: Spacing.sm,
+    fontSize: Typography.fontSize.base,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  titleContainer: {
+    marginBottom: Spacing.lg,
+  },
+
+  title: {
+    fontSize: Typography.fontSize['2xl'],
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.xs,
+  },
+
+  subtitle: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+  },
+
+  card: {
+    marginBottom: Spacing.md,
+  },
+
+  periodSelector: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+
+  periodArrow: {
+    padding: Spacing.sm,
+  },
+
+  periodText: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+  },
+
+  compareRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+
+  compareItem: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: Colors.surfaceVariant,
+    borderRadius: Theme.borderRadius.md,
+    padding: Spacing.sm,
+  },
+
+  compareValue: {
+    fontSize: Typography.fontSize['2xl'],
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+  },
+
+  compareLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    borderRadius: Theme.borderRadius.md,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+
+  bannerText: {
+    flex: 1,
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+
+  detailLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  detailValue: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  noteText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: Spacing.sm,
+  },
+
+  disputeButton: {
+    marginTop: Spacing.md,
+  },
+
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+
+  dayInfo: {
+    flex: 1,
+  },
+
+  dayDate: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  dayPunches: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+  },
+
+  dayLop: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.error,
+  },
+
+  statusBadge: {
+    borderRadius: Theme.borderRadius.full,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+  },
+
+  statusBadgeText: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: Spacing.lg,
+  },
+
+  emptyStateText: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.sm,
+  },
+});
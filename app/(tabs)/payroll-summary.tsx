@@ -0,0 +1,490 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../../components/ui/Button';
+import { Card } from '../../components/ui/Card';
+import { Loading } from '../../components/ui/Loading';
+import { TabSafeContainer } from '../../components/ui/TabSafeContainer';
+import { Colors, Typography, Spacing, Theme } from '../../constants/theme';
+import PayrollSummaryService from '../../services/payrollSummary';
+import PayslipPdfService from '../../services/payslipPdfService';
+import { PayrollMonthStatus, PayrollYearSummary, PayrollYearType } from '../../types/api';
+import { useToast } from '../../components/ToastProvider';
+import { handleApiError, logError } from '../../utils/errorHandling';
+import {
+  PAYROLL_TOTAL_FIELDS,
+  formatPayrollMonth,
+  getCurrentPayrollStartYear,
+  getPayrollYearLabel,
+} from '../../utils/payroll';
+import { formatRupees } from '../../utils/payslipTemplate';
+
+const YEAR_TYPES: { value: PayrollYearType; label: string }[] = [
+  { value: 'financial', label: 'Financial Year' },
+  { value: 'calendar', label: 'Calendar Year' },
+];
+
+const MONTH_STATUS_META: Record<Exclude<PayrollMonthStatus, 'available'>, { label: string; color: string }> = {
+  missing: { label: 'No payslip', color: Colors.warning },
+  unavailable: { label: 'Could not load', color: Colors.error },
+  upcoming: { label: 'Not yet due', color: Colors.textDisabled },
+};
+
+export default function PayrollSummaryScreen() {
+  const { user } = useAuth();
+  const { showError, showWarning } = useToast();
+  const [yearType, setYearType] = useState<PayrollYearType>('financial');
+  const [startYear, setStartYear] = useState(getCurrentPayrollStartYear('financial'));
+  const [summary, setSummary] = useState<PayrollYearSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    loadSummary();
+  }, [yearType, startYear]);
+
+  const loadSummary = async () => {
+    if (!user?.id) {
+      showError('User session expired. Please log in again.');
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const loaded = await PayrollSummaryService.getInstance().getYearSummary(user.id, yearType, startYear);
+      setSummary(loaded);
+
+      const unavailable = loaded.months.filter(item => item.status === 'unavailable').length;
+      if (unavailable > 0) {
+        showWarning(`${unavailable} month(s) could not be loaded. Pull to refresh when online.`);
+      }
+    } catch (error) {
+      const appError = handleApiError(error);
+      logError(appError, 'Payroll summary loading');
+      showError(appError.message || 'Failed to load the payroll summary. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadSummary();
+    setIsRefreshing(false);
+  };
+
+  const handleYearTypeChange = (value: PayrollYearType) => {
+    if (value === yearType) return;
+    setIsLoading(true);
+    setYearType(value);
+    setStartYear(getCurrentPayrollStartYear(value));
+  };
+
+  const handleYearChange = (direction: 1 | -1) => {
+    const next = startYear + direction;
+    if (next > getCurrentPayrollStartYear(yearType)) return;
+    setIsLoading(true);
+    setStartYear(next);
+  };
+
+  const handleExport = async () => {
+    if (!summary || !user) return;
+
+    const yearLabel = getPayrollYearLabel(summary.type, summary.startYear);
+    try {
+      setIsExporting(true);
+      const pdfService = PayslipPdfService.getInstance();
+      const file = await pdfService.generateAnnualStatement(summary, user);
+      await pdfService.share(file, `Earnings statement ${yearLabel}`);
+    } catch (error) {
+      const appError = handleApiError(error);
+      logError(appError, 'Annual statement export');
+      showError(appError.message || 'Failed to create the earnings statement. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Ionicons name="arrow-back" size={24} color={Colors.primary} />
+        <Text style={styles.backButtonText}>Back to Payslip</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderTitle = () => (
+    <View style={styles.titleContainer}>
+      <Text style={styles.title}>Year-to-Date Payroll</Text>
+      <Text style={styles.subtitle}>Earnings and deductions across the year</Text>
+    </View>
+  );
+
+  const renderYearSelector = () => (
+    <Card style={styles.card}>
+      <View style={styles.chipRow}>
+        {YEAR_TYPES.map(item => (
+          <TouchableOpacity
+            key={item.value}
+            style={[styles.chip, yearType === item.value && styles.chipSelected]}
+            onPress={() => handleYearTypeChange(item.value)}
+          >
+            <Text style={[styles.chipText, yearType === item.value && styles.chipTextSelected]}>
+              {item.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.yearSelector}>
+        <TouchableOpacity style={styles.yearArrow} onPress={() => handleYearChange(-1)}>
+          <Ionicons name="chevron-back" size={24} color={Colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.yearText}>{getPayrollYearLabel(yearType, startYear)}</Text>
+        <TouchableOpacity
+          style={styles.yearArrow}
+          onPress={() => handleYearChange(1)}
+          disabled={startYear >= getCurrentPayrollStartYear(yearType)}
+        >
+          <Ionicons
+            name="chevron-forward"
+            size={24}
+            color={startYear >= getCurrentPayrollStartYear(yearType) ? Colors.textDisabled : Colors.primary}
+          />
+        </TouchableOpacity>
+      </View>
+    </Card>
+  );
+
+  const renderTotals = () => {
+    if (!summary) return null;
+
+    const dueMonths = summary.months.filter(item => item.status !== 'upcoming');
+    const available = dueMonths.filter(item => item.payslip).length;
+
+    return (
+      <Card title="Year to Date" style={styles.card}>
+        {PAYROLL_TOTAL_FIELDS.map(({ key, label }) => {
+          const isTotal = key === 'totalEarnings' || key === 'totalDeductions' || key === 'netPay';
+          return (
+            <View key={key} style={[styles.detailRow, isTotal && styles.totalRow]}>
+              <Text style={isTotal ? styles.totalLabel : styles.detailLabel}>{label}</Text>
+              <Text style={isTotal ? styles.totalValue : styles.detailValue}>{formatRupees(summary.totals[key])}</Text>
+            </View>
+          );
+        })}
+        <Text style={styles.noteText}>
+          Based on {available} of {dueMonths.length} {dueMonths.length === 1 ? 'payslip' : 'payslips'} due so far
+        </Text>
+      </Card>
+    );
+  };
+
+  const renderMonths = () => {
+    if (!summary) return null;
+
+    const missing = summary.months.filter(item => item.status === 'missing' || item.status === 'unavailable');
+
+    return (
+      <Card title="Monthly Breakdown" style={styles.card}>
+        {missing.length > 0 && (
+          <View style={styles.missingBanner}>
+            <Ionicons name="alert-circle-outline" size={18} color={Colors.warning} />
+            <Text style={styles.missingText}>
+              Missing: {missing.map(item => formatPayrollMonth(item.month, item.year)).join(', ')}
+            </Text>
+          </View>
+        )}
+
+        {summary.months.map(item => {
+          const statusMeta = item.status === 'available' ? null : MONTH_STATUS_META[item.status];
+          return (
+            <View key={`${item.month}_${item.year}`} style={styles.monthRow}>
+              <Text style={[styles.monthName, statusMeta && { color: Colors.textSecondary }]}>
+                {formatPayrollMonth(item.month, item.year)}
+              </Text>
+              {item.payslip ? (
+                <View style={styles.monthAmounts}>
+                  <Text style={styles.monthNet}>{formatRupees(item.payslip.netPay)}</Text>
+                  <Text style={styles.monthGross}>Gross {formatRupees(item.payslip.totalEarnings)}</Text>
+                </View>
+              ) : (
+                statusMeta && (
+                  <View style={[styles.statusBadge, { backgroundColor: statusMeta.color + '20' }]}>
+                    <Text style={[styles.statusBadgeText, { color: statusMeta.color }]}>{statusMeta.label}</Text>
+                  </View>
+                )
+              )}
+            </View>
+          );
+        })}
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <TabSafeContainer>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+          }
+          showsVerticalScrollIndicator={false}
+        >
+          {renderHeader()}
+          {renderTitle()}
+          {renderYearSelector()}
+
+          {isLoading ? (
+            <Loading message="Loading payslips for the year..." />
+          ) : (
+            <>
+              {renderTotals()}
+              {renderMonths()}
+
+              {summary && summary.months.some(item => item.payslip) && (
+                <>
+                  <Button
+                    text="Export Statement PDF"
+                    icon="download"
+                    onPress={handleExport}
+                    loading={isExporting}
+                    disabled={isExporting}
+                    fullWidth
+                  />
+                  <Button
+                    text="Estimate Income Tax"
+                    variant="outline"
+                    icon="calculator-outline"
+                    onPress={() => router.push('/tax-planner')}
+                    fullWidth
+                    style={styles.secondaryButton}
+                  />
+                </>
+              )}
+            </>
+          )}
+        </ScrollView>
+      </TabSafeContainer>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  scrollView: {
+    flex: 1,
+  },
+
+  scrollContent: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+
+  header: {
+    marginBottom: Spacing.lg,
+  },
+
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+  },
+
+  backButtonText: {
+    marginLeft: Spacing.sm,
+    fontSize: Typography.fontSize.base,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  titleContainer: {
+    marginBottom: Spacing.lg,
+  },
+
+  title: {
+    fontSize: Typography.fontSize['2xl'],
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.xs,
+  },
+
+  subtitle: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+  },
+
+  card: {
+    marginBottom: Spacing.md,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+
+  chip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderRadius: Theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  chipText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+  },
+
+  chipTextSelected: {
+    color: Colors.white,
+  },
+
+  yearSelector: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+
+  yearArrow: {
+    padding: Spacing.sm,
+  },
+
+  yearText: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+  },
+
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+
+  detailLabel: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+    flex: 1,
+  },
+
+  detailValue: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  totalRow: {
+    paddingVertical: Spacing.sm,
+  },
+
+  totalLabel: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textPrimary,
+    flex: 1,
+  },
+
+  totalValue: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.primary,
+  },
+
+  noteText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    marginTop: Spacing.sm,
+    fontStyle: 'italic',
+  },
+
+  missingBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: Spacing.xs,
+    backgroundColor: Colors.warning + '15',
+    borderRadius: Theme.borderRadius.md,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+
+  missingText: {
+    flex: 1,
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+  },
+
+  monthRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+
+  monthName: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  monthAmounts: {
+    alignItems: 'flex-end',
+  },
+
+  monthNet: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textPrimary,
+  },
+
+  monthGross: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+  },
+
+  statusBadge: {
+    borderRadius: Theme.borderRadius.full,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+  },
+
+  statusBadgeText: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+
+  secondaryButton: {
+    marginTop: Spacing.sm,
+  },
+});
@@ -5,37 +5,76 @@ import {
   StyleSheet,
   ScrollView,
   TouchableOpacity,
-  Linking,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import moment from 'moment';
+import { router } from 'expo-router';
 
 import { useAuth } from '../../contexts/AuthContext';
 import { Button } from '../../components/ui/Button';
 import { Card } from '../../components/ui/Card';
 import { Loading } from '../../components/ui/Loading';
 import { TabSafeContainer } from '../../components/ui/TabSafeContainer';
-import { Colors, Typography, Spacing } from '../../constants/theme';
-import apiClient from '../../services/apiClient';
-import { PayslipResponse, MONTH_NAMES, MonthName } from '../../types/api';
+import { Colors, Typography, Spacing, BorderRadius } from '../../constants/theme';
+import PayslipPdfService from '../../services/payslipPdfService';
+import PayslipArchive from '../../services/payslipArchive';
+import { PayslipArchiveModal } from '../../components/PayslipArchiveModal';
+import { PayslipComparison } from '../../components/PayslipComparison';
+import { comparePayslips } from '../../utils/payslipComparison';
+import { PayslipIssuesPanel } from '../../components/PayslipIssuesPanel';
+import PayslipDiscrepancyManager from '../../services/payslipDiscrepancyManager';
+import { validatePayslip } from '../../utils/payslipValidation';
+import {
+  PayslipResponse,
+  PayslipDiscrepancyReport,
+  PayslipIssue,
+  PayslipArchiveEntry,
+  MONTH_NAMES,
+  MonthName,
+} from '../../types/api';
 import { useToast } from '../../components/ToastProvider';
-import { handleApiError, logError, withRetry } from '../../utils/errorHandling';
+import { handleApiError, logError } from '../../utils/errorHandling';
 
 export default function PayslipScreen() {
   const { user } = useAuth();
-  const { showSuccess, showError, showWarning } = useToast();
+  const { showSuccess, showError, showWarning, showInfo } = useToast();
   const [payslipData, setPayslipData] = useState<PayslipResponse['data'] | null>(null);
   const [selectedMonth, setSelectedMonth] = useState<number>(moment().month()); // 0-11
   const [selectedYear, setSelectedYear] = useState<number>(moment().year());
   const [isLoading, setIsLoading] = useState(false);
   const [showMonthPicker, setShowMonthPicker] = useState(false);
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+
+  // Offline archive: set when the network failed and the archived copy is shown
+  const [archivedAt, setArchivedAt] = useState<string | null>(null);
+  const [archiveEntries, setArchiveEntries] = useState<PayslipArchiveEntry[]>([]);
+  const [showArchive, setShowArchive] = useState(false);
+
+  // Compare mode: the selected month against an earlier (or any other) month
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [comparePeriod, setComparePeriod] = useState(moment().startOf('month').subtract(1, 'month'));
+  const [comparePayslip, setComparePayslip] = useState<PayslipResponse['data'] | null>(null);
+  const [isLoadingCompare, setIsLoadingCompare] = useState(false);
+
+  // Integrity checks on the loaded payslip
+  const [payslipIssues, setPayslipIssues] = useState<PayslipIssue[]>([]);
+  const [discrepancyReport, setDiscrepancyReport] = useState<PayslipDiscrepancyReport | null>(null);
+  const [isReporting, setIsReporting] = useState(false);
 
   // Load payslip data when month/year changes
   useEffect(() => {
     loadPayslip();
+    setComparePeriod(moment({ year: selectedYear, month: selectedMonth, date: 1 }).subtract(1, 'month'));
   }, [selectedMonth, selectedYear]);
 
+  useEffect(() => {
+    if (isCompareMode) {
+      loadComparePayslip();
+    }
+  }, [isCompareMode, comparePeriod]);
+
   const loadPayslip = async () => {
     try {
       if (!user) {
@@ -47,18 +86,29 @@ export default function PayslipScreen() {
       
       // Clear any existing payslip data first
       setPayslipData(null);
+      setArchivedAt(null);
       
       const monthName = MONTH_NAMES[selectedMonth] as MonthName;
       
-      // Load with retry mechanism
-      const response = await withRetry(
-        () => apiClient.getPayslip(user.id, monthName, selectedYear.toString()),
-        2
+      // Load with retry, falling back to the offline archive
+      const { response, archivedAt: savedAt, archiveError } = await PayslipArchive.getInstance().getPayslip(
+        user.id,
+        monthName,
+        selectedYear
       );
       
       if (response.success) {
         setPayslipData(response.data);
-        showSuccess(`Payslip loaded for ${monthName} ${selectedYear}`);
+        setArchivedAt(savedAt);
+        await checkPayslipIntegrity(response.data);
+        if (savedAt) {
+          showWarning(`Unable to reach the server. Showing the copy saved on ${moment(savedAt).format('DD MMM YYYY')}`);
+        } else if (archiveError) {
+          logError(archiveError, 'Payslip archiving');
+          showWarning(archiveError.message);
+        } else {
+          showSuccess(`Payslip loaded for ${monthName} ${selectedYear}`);
+        }
       } else {
         setPayslipData(null);
         showWarning(response.message || `No payslip found for ${monthName} ${selectedYear}`);
@@ -73,6 +123,101 @@ export default function PayslipScreen() {
     }
   };
 
+  const checkPayslipIntegrity = async (payslip: PayslipResponse['data']) => {
+    if (!user) return;
+
+    const issues = validatePayslip(payslip);
+    setPayslipIssues(issues);
+    setDiscrepancyReport(
+      issues.length > 0
+        ? await PayslipDiscrepancyManager.getInstance().getReport(
+            user.id,
+            payslip.month,
+            payslip.year,
+            issues.map(issue => issue.code)
+          )
+        : null
+    );
+  };
+
+  const handleReportDiscrepancy = () => {
+    if (!user || !payslipData) return;
+
+    const { label } = getSelectedPeriod();
+    Alert.alert(
+      'Report Discrepancy',
+      `Send the ${payslipIssues.length === 1 ? 'problem' : `${payslipIssues.length} problems`} found on your ${label} payslip to payroll?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Report',
+          onPress: async () => {
+            try {
+              setIsReporting(true);
+              const { report, queued } = await PayslipDiscrepancyManager.getInstance().report(
+                user.id,
+                payslipData,
+                payslipIssues
+              );
+              setDiscrepancyReport(report);
+              if (queued) {
+                showInfo('You are offline. Your report will be sent to payroll when you reconnect.');
+              } else {
+                showSuccess('Discrepancy reported to payroll');
+              }
+            } catch (error) {
+              const appError = handleApiError(error);
+              logError(appError, 'Payslip discrepancy report');
+              showError(appError.message || 'Failed to report the discrepancy. Please try again.');
+            } finally {
+              setIsReporting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const loadComparePayslip = async () => {
+    if (!user) return;
+
+    const monthName = MONTH_NAMES[comparePeriod.month()] as MonthName;
+    try {
+      setIsLoadingCompare(true);
+      setComparePayslip(null);
+      const { response } = await PayslipArchive.getInstance().getPayslip(user.id, monthName, comparePeriod.year());
+      setComparePayslip(response.success ? response.data : null);
+    } catch (error) {
+      const appError = handleApiError(error);
+      logError(appError, 'Comparison payslip loading');
+      showError(appError.message || 'Failed to load the payslip to compare with.');
+    } finally {
+      setIsLoadingCompare(false);
+    }
+  };
+
+  const handleComparePeriodChange = (months: number) => {
+    const next = comparePeriod.clone().add(months, 'month');
+    // Comparing a month with itself says nothing
+    if (next.month() === selectedMonth && next.year() === selectedYear) {
+      next.add(months, 'month');
+    }
+    setComparePeriod(next);
+  };
+
+  const handleOpenArchive = async () => {
+    if (!user) return;
+
+    setArchiveEntries(await PayslipArchive.getInstance().list(user.id));
+    setShowArchive(true);
+  };
+
+  const handleSelectArchived = (month: number, year: number) => {
+    setShowArchive(false);
+    setSelectedMonth(month);
+    setSelectedYear(year);
+  };
+
   const handleMonthChange = (direction: 'prev' | 'next') => {
     if (direction === 'prev') {
       if (selectedMonth === 0) {
@@ -91,31 +236,26 @@ export default function PayslipScreen() {
     }
   };
 
-  const handleOpenPayslipWebsite = async () => {
-    try {
-      if (!user) {
-        showError('User session expired. Please log in again.');
-        return;
-      }
+  const getSelectedPeriod = () => ({
+    monthName: MONTH_NAMES[selectedMonth] as MonthName,
+    label: `${moment().month(selectedMonth).format('MMMM')} ${selectedYear}`,
+  });
 
-      // Get the selected month name in lowercase
-      const monthName = moment().month(selectedMonth).format('MMMM').toLowerCase();
-      
-      // Build the payslip URL with parameters
-      const payslipUrl = `https://willware-timesheet.vercel.app/payslip-download?empId=${user.id}&month=${monthName}&year=${selectedYear}`;
-      
-      console.log('Opening payslip URL:', payslipUrl);
-      
-      const supported = await Linking.canOpenURL(payslipUrl);
-      if (supported) {
-        await Linking.openURL(payslipUrl);
-        showSuccess(`Opening payslip download for ${monthName} ${selectedYear}...`);
-      } else {
-        showError('Cannot open the payslip website. Please try again or contact support.');
-      }
+  const handleDownloadPdf = async () => {
+    if (!payslipData) return;
+
+    const { label } = getSelectedPeriod();
+    try {
+      setIsGeneratingPdf(true);
+      const pdfService = PayslipPdfService.getInstance();
+      const file = await pdfService.generate(payslipData);
+      await pdfService.share(file, `Payslip for ${label}`);
     } catch (error) {
-      logError(error, 'Payslip browser redirect');
-      showError('Failed to open the payslip download. Please check your internet connection.');
+      const appError = handleApiError(error);
+      logError(appError, 'Payslip PDF generation');
+      showError(appError.message || 'Failed to create the payslip PDF. Please try again.');
+    } finally {
+      setIsGeneratingPdf(false);
     }
   };
 
@@ -148,6 +288,54 @@ export default function PayslipScreen() {
     );
   };
 
+  const renderCompareSelector = () => (
+    <Card style={styles.selectorCard}>
+      <Text style={styles.compareLabel}>Compare with</Text>
+      <View style={styles.monthSelector}>
+        <TouchableOpacity style={styles.monthArrow} onPress={() => handleComparePeriodChange(-1)}>
+          <Ionicons name="chevron-back" size={20} color={Colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.compareMonthText}>{comparePeriod.format('MMMM YYYY')}</Text>
+        <TouchableOpacity style={styles.monthArrow} onPress={() => handleComparePeriodChange(1)}>
+          <Ionicons name="chevron-forward" size={20} color={Colors.primary} />
+        </TouchableOpacity>
+      </View>
+    </Card>
+  );
+
+  const renderComparison = () => {
+    if (!payslipData) return null;
+
+    if (isLoadingCompare) {
+      return <Loading message="Loading payslip to compare..." />;
+    }
+
+    if (!comparePayslip) {
+      return (
+        <Card style={styles.noDataCard}>
+          <Text style={styles.noDataText}>
+            No payslip found for {comparePeriod.format('MMMM YYYY')}. Pick another month to compare with.
+          </Text>
+        </Card>
+      );
+    }
+
+    // Always read the comparison forwards in time
+    const currentIsLater = moment({ year: selectedYear, month: selectedMonth, date: 1 }).isAfter(comparePeriod);
+    const selectedLabel = getSelectedPeriod().label;
+    const compareLabel = comparePeriod.format('MMMM YYYY');
+
+    return (
+      <PayslipComparison
+        previousLabel={currentIsLater ? compareLabel : selectedLabel}
+        currentLabel={currentIsLater ? selectedLabel : compareLabel}
+        diffs={
+          currentIsLater ? comparePayslips(comparePayslip, payslipData) : comparePayslips(payslipData, comparePayslip)
+        }
+      />
+    );
+  };
+
   const renderPayslipHeader = () => {
     if (!payslipData) return null;
 
@@ -301,6 +489,43 @@ export default function PayslipScreen() {
         <Text style={styles.title}>Payslip</Text>
         
         {renderMonthSelector()}
+
+        <View style={styles.actionRow}>
+          <Button
+            text="Year to Date"
+            variant="outline"
+            size="sm"
+            icon="stats-chart-outline"
+            onPress={() => router.push('/payroll-summary')}
+          />
+          <Button
+            text={isCompareMode ? 'Exit Compare' : 'Compare'}
+            variant={isCompareMode ? 'primary' : 'outline'}
+            size="sm"
+            icon="git-compare-outline"
+            onPress={() => setIsCompareMode(!isCompareMode)}
+            disabled={!payslipData && !isCompareMode}
+          />
+          <Button
+            text="LOP Check"
+            variant="outline"
+            size="sm"
+            icon="calendar-outline"
+            onPress={() =>
+              router.push({
+                pathname: '/lop-reconciliation',
+                params: { month: String(selectedMonth + 1), year: String(selectedYear) },
+              })
+            }
+          />
+          <Button
+            text="Saved"
+            variant="outline"
+            size="sm"
+            icon="archive-outline"
+            onPress={handleOpenArchive}
+          />
+        </View>
         
         {isLoading ? (
           <Loading message="Loading payslip..." />
@@ -310,21 +535,42 @@ export default function PayslipScreen() {
             contentContainerStyle={styles.scrollContent}
             showsVerticalScrollIndicator={false}
           >
-            {payslipData ? (
+            {payslipData && isCompareMode ? (
+              <>
+                {renderCompareSelector()}
+                {renderComparison()}
+              </>
+            ) : payslipData ? (
               <>
+                {archivedAt && (
+                  <View style={styles.archiveBanner}>
+                    <Ionicons name="cloud-offline-outline" size={20} color={Colors.warning} />
+                    <Text style={styles.archiveBannerText}>
+                      You are viewing the offline copy saved on {moment(archivedAt).format('DD MMM YYYY, hh:mm A')}
+                    </Text>
+                  </View>
+                )}
                 {renderPayslipHeader()}
+                <PayslipIssuesPanel
+                  issues={payslipIssues}
+                  report={discrepancyReport}
+                  isReporting={isReporting}
+                  onReport={handleReportDiscrepancy}
+                />
                 {renderPayslipDetails()}
                 
                 <Button
                   text="Download PDF"
                   icon="download"
-                  onPress={handleOpenPayslipWebsite}
+                  onPress={handleDownloadPdf}
+                  loading={isGeneratingPdf}
+                  disabled={isGeneratingPdf}
                   fullWidth
                   style={styles.downloadButton}
                 />
                 
                 <Text style={styles.downloadNote}>
-                  Opens in browser to download your {moment().month(selectedMonth).format('MMMM')} {selectedYear} payslip
+                  Creates your {getSelectedPeriod().label} payslip PDF to share - it is not kept on this device
                 </Text>
               </>
             ) : (
@@ -332,6 +578,13 @@ export default function PayslipScreen() {
             )}
           </ScrollView>
         )}
+
+        <PayslipArchiveModal
+          visible={showArchive}
+          entries={archiveEntries}
+          onClose={() => setShowArchive(false)}
+          onSelect={handleSelectArchived}
+        />
       </TabSafeContainer>
     </SafeAreaView>
   );
@@ -390,6 +643,26 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
   },
 
+  actionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+
+  compareLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+
+  compareMonthText: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textPrimary,
+  },
+
   // Header Card
   headerCard: {
     marginBottom: Spacing.md,
@@ -581,4 +854,20 @@ const styles = StyleSheet.create({
     marginTop: Spacing.sm,
     fontStyle: 'italic',
   },
+
+  archiveBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    backgroundColor: Colors.warning + '15',
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+
+  archiveBannerText: {
+    flex: 1,
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+  },
 });
\ No newline at end of file
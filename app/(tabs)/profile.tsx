@@ -5,29 +5,43 @@ import {
   StyleSheet,
   ScrollView,
   Alert,
+  TouchableOpacity,
   RefreshControl,
-  Linking,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
 
 import { useAuth } from '../../contexts/AuthContext';
 import { Button } from '../../components/ui/Button';
 import { Card } from '../../components/ui/Card';
 import { Loading } from '../../components/ui/Loading';
 import { TabSafeContainer } from '../../components/ui/TabSafeContainer';
-import { Colors, Typography, Spacing } from '../../constants/theme';
+import { Colors, Typography, Spacing, Theme } from '../../constants/theme';
+import { APP_LOCK_TIMEOUTS } from '../../constants/appLock';
 import apiClient from '../../services/apiClient';
-import { EmployeeDetailsResponse } from '../../types/api';
+import AppLockService from '../../services/appLock';
+import CredentialVault, { VaultSecurityLevel } from '../../services/credentialVault';
+import { EditProfileModal } from '../../components/EditProfileModal';
+import { AppLockPinModal, AppLockPinMode } from '../../components/AppLockPinModal';
+import { SensitiveField } from '../../components/SensitiveField';
+import { useSensitiveReveal } from '../../hooks/useSensitiveReveal';
+import { EmployeeDetailsResponse, ProfileUpdate } from '../../types/api';
 import { useToast } from '../../components/ToastProvider';
 import { handleApiError, logError, withRetry } from '../../utils/errorHandling';
 
 export default function ProfileScreen() {
-  const { user, logout } = useAuth();
+  const { user, logout, isBiometricEnabled, isBiometricSupported, disableBiometric } = useAuth();
   const { showSuccess, showError, showWarning } = useToast();
   const [employeeDetails, setEmployeeDetails] = useState<EmployeeDetailsResponse['data'] | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [showEditProfile, setShowEditProfile] = useState(false);
+  const [isAppLockEnabled, setIsAppLockEnabled] = useState(false);
+  const [appLockTimeoutMs, setAppLockTimeoutMs] = useState<number | null>(null);
+  const [pinModalMode, setPinModalMode] = useState<AppLockPinMode | null>(null);
+  const [storageLevel, setStorageLevel] = useState<VaultSecurityLevel | null>(null);
+  const { revealedKey, reveal, hide, copy } = useSensitiveReveal();
 
   // Load profile data
   useEffect(() => {
@@ -36,6 +50,18 @@ export default function ProfileScreen() {
     }
   }, [user]);
 
+  useEffect(() => {
+    loadAppLockSettings();
+    CredentialVault.getInstance().getSecurityLevel().then(setStorageLevel);
+  }, []);
+
+  const loadAppLockSettings = async () => {
+    const appLock = AppLockService.getInstance();
+    const [enabled, timeoutMs] = await Promise.all([appLock.isEnabled(), appLock.getTimeoutMs()]);
+    setIsAppLockEnabled(enabled);
+    setAppLockTimeoutMs(timeoutMs);
+  };
+
   const loadProfileData = async () => {
     try {
       if (!user) {
@@ -90,23 +116,220 @@ export default function ProfileScreen() {
     );
   };
 
-  const handleEditProfile = async () => {
-    const editUrl = 'https://willware-timesheet.vercel.app/employee/profile';
-    
+  // Errors propagate to the modal, which shows them inline
+  const handleSaveProfile = async (update: ProfileUpdate) => {
+    if (!user) return;
+
+    await apiClient.updateEmployeeProfile(user.id, update);
+    setShowEditProfile(false);
+    showSuccess('Profile updated');
+    await loadProfileData();
+  };
+
+  const handleToggleSensitive = async (key: string, label: string) => {
+    if (revealedKey === key) {
+      hide();
+      return;
+    }
+    if (!(await reveal(key, label))) {
+      showWarning(`Authenticate with your fingerprint or face to view your ${label}`);
+    }
+  };
+
+  const handleCopySensitive = async (value: string, label: string) => {
+    if (await copy(value, label)) {
+      showSuccess(`${label} copied to clipboard`);
+    } else {
+      showWarning(`Authenticate with your fingerprint or face to copy your ${label}`);
+    }
+  };
+
+  const handleDisableBiometric = () => {
+    Alert.alert(
+      'Turn Off Biometric Sign-in',
+      'Your saved sign-in will be removed from this device. You will need your password to sign in.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn Off',
+          style: 'destructive',
+          onPress: async () => {
+            await disableBiometric();
+            showSuccess('Biometric sign-in turned off');
+          },
+        },
+      ]
+    );
+  };
+
+  const handleAppLockDone = async (mode: AppLockPinMode) => {
+    setPinModalMode(null);
+    await loadAppLockSettings();
+    showSuccess(
+      mode === 'set' ? 'App lock turned on' : mode === 'change' ? 'App PIN changed' : 'App lock turned off'
+    );
+  };
+
+  const handleAppLockTimeout = async (timeoutMs: number) => {
     try {
-      const supported = await Linking.canOpenURL(editUrl);
-      if (supported) {
-        await Linking.openURL(editUrl);
-        showSuccess('Opening profile editor in browser...');
-      } else {
-        showError('Cannot open the editing website. Please try again or contact support.');
-      }
+      await AppLockService.getInstance().setTimeoutMs(timeoutMs);
+      setAppLockTimeoutMs(timeoutMs);
     } catch (error) {
-      logError(error, 'Profile edit browser redirect');
-      showError('Failed to open the editing website. Please check your internet connection.');
+      logError(handleApiError(error), 'App lock timeout');
+      showError('Failed to save the app lock setting');
     }
   };
 
+  const handleRequireEncryption = () => {
+    Alert.alert(
+      'Require Encrypted Storage',
+      'This device cannot encrypt your sign-in, so you will be signed out and will need to sign in each time.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            await CredentialVault.getInstance().setUnencryptedAllowed(false);
+            await logout();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderCredentialStorage = () => (
+    <>
+      <View style={[styles.dataRow, styles.securityDivider]}>
+        <Text style={styles.dataLabel}>Sign-in Storage:</Text>
+        <Text style={[styles.dataValue, storageLevel === 'unencrypted' && styles.warningValue]}>
+          {storageLevel === 'unencrypted' ? 'Not encrypted' : 'Encrypted'}
+        </Text>
+      </View>
+
+      {storageLevel === 'unencrypted' && (
+        <Button
+          text="Require Encrypted Storage"
+          variant="outline"
+          icon="shield-checkmark-outline"
+          onPress={handleRequireEncryption}
+          fullWidth
+          style={styles.editButton}
+        />
+      )}
+    </>
+  );
+
+  const renderAppLock = () => (
+    <>
+      <View style={styles.dataRow}>
+        <Text style={styles.dataLabel}>App Lock:</Text>
+        <Text style={styles.dataValue}>{isAppLockEnabled ? 'On' : 'Off'}</Text>
+      </View>
+
+      {isAppLockEnabled ? (
+        <>
+          <Text style={styles.securityLabel}>Lock after leaving the app</Text>
+          <View style={styles.chipRow}>
+            {APP_LOCK_TIMEOUTS.map(option => (
+              <TouchableOpacity
+                key={option.ms}
+                style={[styles.chip, appLockTimeoutMs === option.ms && styles.chipSelected]}
+                onPress={() => handleAppLockTimeout(option.ms)}
+              >
+                <Text style={[styles.chipText, appLockTimeoutMs === option.ms && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.securityButtonRow}>
+            <Button
+              text="Change PIN"
+              variant="outline"
+              icon="keypad-outline"
+              onPress={() => setPinModalMode('change')}
+              style={styles.securityButton}
+            />
+            <Button
+              text="Turn Off"
+              variant="outline"
+              icon="lock-open-outline"
+              onPress={() => setPinModalMode('disable')}
+              style={styles.securityButton}
+            />
+          </View>
+        </>
+      ) : (
+        <>
+          <Text style={styles.securityNote}>
+            Ask for {isBiometricSupported ? 'your fingerprint, face or ' : ''}an app PIN when WillwareTech opens.
+          </Text>
+          <Button
+            text="Set Up App Lock"
+            icon="lock-closed-outline"
+            onPress={() => setPinModalMode('set')}
+            fullWidth
+            style={styles.editButton}
+          />
+        </>
+      )}
+    </>
+  );
+
+  const renderBiometricSignIn = () => (
+    <>
+      <View style={[styles.dataRow, styles.securityDivider]}>
+        <Text style={styles.dataLabel}>Biometric Sign-in:</Text>
+        <Text style={styles.dataValue}>{isBiometricEnabled ? 'On' : 'Off'}</Text>
+      </View>
+
+      {isBiometricEnabled ? (
+        <Button
+          text="Turn Off Biometric Sign-in"
+          variant="outline"
+          icon="close-circle-outline"
+          onPress={handleDisableBiometric}
+          fullWidth
+          style={styles.editButton}
+        />
+      ) : (
+        <Text style={styles.securityNote}>
+          Turn it on from the sign-in screen the next time you sign in with your password.
+        </Text>
+      )}
+    </>
+  );
+
+  const renderSecurity = () => (
+    <Card style={styles.infoCard}>
+      <View style={styles.sectionHeader}>
+        <Ionicons name="finger-print" size={20} color={Colors.primary} />
+        <Text style={styles.sectionTitle}>Security</Text>
+      </View>
+
+      {renderAppLock()}
+      {isBiometricSupported && renderBiometricSignIn()}
+      {storageLevel && storageLevel !== 'empty' && renderCredentialStorage()}
+    </Card>
+  );
+
+  const renderSensitiveField = (
+    key: 'bankAccount' | 'alternativeBankAccount' | 'panNumber' | 'uanNumber' | 'esiNumber',
+    label: string
+  ) => {
+    const value = employeeDetails?.[key];
+    return (
+      <SensitiveField
+        label={label}
+        value={value}
+        isRevealed={revealedKey === key}
+        onToggle={() => handleToggleSensitive(key, label)}
+        onCopy={() => value && handleCopySensitive(value, label)}
+      />
+    );
+  };
+
   const formatDate = (dateString: string) => {
     if (!dateString) return 'N/A';
     try {
@@ -149,7 +372,7 @@ export default function ProfileScreen() {
             text="Edit Profile"
             variant="outline"
             icon="create"
-            onPress={handleEditProfile}
+            onPress={() => setShowEditProfile(true)}
             fullWidth
             style={styles.editButton}
           />
@@ -230,32 +453,15 @@ export default function ProfileScreen() {
             <Text style={styles.sectionTitle}>Financial Information</Text>
           </View>
           
-          <View style={styles.dataRow}>
-            <Text style={styles.dataLabel}>Bank Account:</Text>
-            <Text style={styles.dataValue}>{employeeDetails.bankAccount || 'N/A'}</Text>
-          </View>
+          {renderSensitiveField('bankAccount', 'Bank Account')}
           
-          {employeeDetails.alternativeBankAccount && (
-            <View style={styles.dataRow}>
-              <Text style={styles.dataLabel}>Alternative Account:</Text>
-              <Text style={styles.dataValue}>{employeeDetails.alternativeBankAccount}</Text>
-            </View>
-          )}
+          {employeeDetails.alternativeBankAccount && renderSensitiveField('alternativeBankAccount', 'Alternative Account')}
           
-          <View style={styles.dataRow}>
-            <Text style={styles.dataLabel}>PAN Number:</Text>
-            <Text style={styles.dataValue}>{employeeDetails.panNumber || 'N/A'}</Text>
-          </View>
+          {renderSensitiveField('panNumber', 'PAN Number')}
           
-          <View style={styles.dataRow}>
-            <Text style={styles.dataLabel}>UAN Number:</Text>
-            <Text style={styles.dataValue}>{employeeDetails.uanNumber || 'N/A'}</Text>
-          </View>
+          {renderSensitiveField('uanNumber', 'UAN Number')}
           
-          <View style={styles.dataRow}>
-            <Text style={styles.dataLabel}>ESI Number:</Text>
-            <Text style={styles.dataValue}>{employeeDetails.esiNumber || 'N/A'}</Text>
-          </View>
+          {renderSensitiveField('esiNumber', 'ESI Number')}
         </Card>
 
         {/* Salary Information */}
@@ -300,6 +506,24 @@ export default function ProfileScreen() {
                 ₹{(employeeDetails.basicPay || 0) + (employeeDetails.hra || 0) + (employeeDetails.others || 0) + (employeeDetails.incentive || 0)}
               </Text>
             </View>
+
+            <Button
+              text="View Salary Structure & CTC"
+              variant="outline"
+              icon="pie-chart-outline"
+              onPress={() => router.push('/compensation')}
+              fullWidth
+              style={styles.editButton}
+            />
+
+            <Button
+              text="Staff Advances"
+              variant="outline"
+              icon="cash-outline"
+              onPress={() => router.push('/advances')}
+              fullWidth
+              style={styles.editButton}
+            />
           </Card>
         )}
 
@@ -307,30 +531,13 @@ export default function ProfileScreen() {
         <Card style={styles.infoCard}>
           <Text style={styles.sectionTitle}>Financial & Statutory Details</Text>
           
-          <View style={styles.dataRow}>
-            <Text style={styles.dataLabel}>Bank Account:</Text>
-            <Text style={styles.dataValue}>
-              {employeeDetails.bankAccount ? 
-                `****${employeeDetails.bankAccount.slice(-4)}` : 
-                'N/A'
-              }
-            </Text>
-          </View>
+          {renderSensitiveField('bankAccount', 'Bank Account')}
           
-          <View style={styles.dataRow}>
-            <Text style={styles.dataLabel}>UAN Number:</Text>
-            <Text style={styles.dataValue}>{employeeDetails.uanNumber || 'N/A'}</Text>
-          </View>
+          {renderSensitiveField('uanNumber', 'UAN Number')}
           
-          <View style={styles.dataRow}>
-            <Text style={styles.dataLabel}>ESI Number:</Text>
-            <Text style={styles.dataValue}>{employeeDetails.esiNumber || 'N/A'}</Text>
-          </View>
+          {renderSensitiveField('esiNumber', 'ESI Number')}
           
-          <View style={styles.dataRow}>
-            <Text style={styles.dataLabel}>PAN Number:</Text>
-            <Text style={styles.dataValue}>{employeeDetails.panNumber || 'N/A'}</Text>
-          </View>
+          {renderSensitiveField('panNumber', 'PAN Number')}
           
           <View style={styles.dataRow}>
             <Text style={styles.dataLabel}>Resource Type:</Text>
@@ -375,6 +582,8 @@ export default function ProfileScreen() {
               </View>
             </Card>
           )}
+
+          {renderSecurity()}
           
           <Card style={styles.logoutCard}>
             <Button
@@ -386,6 +595,20 @@ export default function ProfileScreen() {
             />
           </Card>
         </ScrollView>
+
+        <EditProfileModal
+          visible={showEditProfile}
+          details={employeeDetails}
+          onClose={() => setShowEditProfile(false)}
+          onSave={handleSaveProfile}
+        />
+
+        <AppLockPinModal
+          visible={pinModalMode !== null}
+          mode={pinModalMode || 'set'}
+          onClose={() => setPinModalMode(null)}
+          onDone={handleAppLockDone}
+        />
       </TabSafeContainer>
     </SafeAreaView>
   );
@@ -475,6 +698,66 @@ const styles = StyleSheet.create({
     marginLeft: Spacing.sm,
   },
 
+  securityNote: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: Spacing.sm,
+  },
+
+  securityLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+
+  securityDivider: {
+    marginTop: Spacing.md,
+  },
+
+  warningValue: {
+    color: Colors.warning,
+  },
+
+  securityButtonRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+
+  securityButton: {
+    flex: 1,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+
+  chip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderRadius: Theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  chipText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textPrimary,
+  },
+
+  chipTextSelected: {
+    color: Colors.white,
+  },
+
   dataRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,491 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../../components/ui/Button';
+import { Card } from '../../components/ui/Card';
+import { Loading } from '../../components/ui/Loading';
+import { TabSafeContainer } from '../../components/ui/TabSafeContainer';
+import { Colors, Typography, Spacing, Theme } from '../../constants/theme';
+import { DECLARATION_FIELDS, EMPTY_TAX_DECLARATIONS, TAX_REGIMES } from '../../constants/taxRegimes';
+import TaxPlanner from '../../services/taxPlanner';
+import { PayrollYearSummary, TaxDeclarations, TaxRegime } from '../../types/api';
+import { useToast } from '../../components/ToastProvider';
+import { handleApiError, logError } from '../../utils/errorHandling';
+import { getCurrentPayrollStartYear, getPayrollYearLabel } from '../../utils/payroll';
+import { formatRupees } from '../../utils/payslipTemplate';
+import { getTdsOutcome } from '../../utils/taxCalculator';
+
+const REGIMES: TaxRegime[] = ['new', 'old'];
+
+export default function TaxPlannerScreen() {
+  const { user } = useAuth();
+  const { showSuccess, showError, showWarning } = useToast();
+  const startYear = getCurrentPayrollStartYear('financial');
+  const [payroll, setPayroll] = useState<PayrollYearSummary | null>(null);
+  const [declarations, setDeclarations] = useState<TaxDeclarations>(EMPTY_TAX_DECLARATIONS);
+  const [selectedRegime, setSelectedRegime] = useState<TaxRegime>('new');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const taxPlanner = TaxPlanner.getInstance();
+
+  useEffect(() => {
+    loadTaxData();
+  }, []);
+
+  const loadTaxData = async () => {
+    if (!user?.id) {
+      showError('User session expired. Please log in again.');
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const [loadedPayroll, savedDeclarations] = await Promise.all([
+        taxPlanner.getPayroll(user.id, startYear),
+        taxPlanner.getDeclarations(user.id, startYear),
+      ]);
+      setPayroll(loadedPayroll);
+      setDeclarations(savedDeclarations);
+      setSelectedRegime(taxPlanner.estimate(loadedPayroll, savedDeclarations).recommended);
+
+      if (loadedPayroll.months.some(item => item.status === 'unavailable')) {
+        showWarning('Some payslips could not be loaded, so those months are projected.');
+      }
+    } catch (error) {
+      const appError = handleApiError(error);
+      logError(appError, 'Tax estimate loading');
+      showError(appError.message || 'Failed to load payslips for the tax estimate.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadTaxData();
+    setIsRefreshing(false);
+  };
+
+  const handleDeclarationChange = (key: keyof TaxDeclarations, text: string) => {
+    const amount = parseInt(text.replace(/[^0-9]/g, ''), 10);
+    setDeclarations({ ...declarations, [key]: isNaN(amount) ? 0 : amount });
+  };
+
+  const handleSaveDeclarations = async () => {
+    if (!user?.id) return;
+
+    try {
+      setIsSaving(true);
+      await taxPlanner.saveDeclarations(user.id, startYear, declarations);
+      showSuccess('Declarations saved on this device');
+    } catch (error) {
+      logError(error, 'Tax declarations saving');
+      showError('Failed to save your declarations. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Ionicons name="arrow-back" size={24} color={Colors.primary} />
+        <Text style={styles.backButtonText}>Back</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderTitle = () => (
+    <View style={styles.titleContainer}>
+      <Text style={styles.title}>Tax Estimate</Text>
+      <Text style={styles.subtitle}>
+        Projected income tax for {getPayrollYearLabel('financial', startYear)}
+      </Text>
+    </View>
+  );
+
+  const renderRow = (label: string, value: string, valueStyle?: object) => (
+    <View style={styles.detailRow}>
+      <Text style={styles.detailLabel}>{label}</Text>
+      <Text style={[styles.detailValue, valueStyle]}>{value}</Text>
+    </View>
+  );
+
+  const renderEstimate = () => {
+    if (!payroll) return null;
+
+    const estimate = taxPlanner.estimate(payroll, declarations);
+    const { projection } = estimate;
+    const breakdown = estimate.regimes[selectedRegime];
+    const outcome = getTdsOutcome(breakdown, projection);
+    const saving = Math.abs(estimate.regimes.old.totalTax - estimate.regimes.new.totalTax);
+
+    return (
+      <>
+        <Card title="Projected Income" style={styles.card}>
+          {renderRow(
+            `Earned so far (${projection.monthsWithPayslip} ${projection.monthsWithPayslip === 1 ? 'month' : 'months'})`,
+            formatRupees(projection.earnedSoFar)
+          )}
+          {renderRow(
+            `Projected (${projection.projectedMonths} ${projection.projectedMonths === 1 ? 'month' : 'months'})`,
+            formatRupees(projection.projectedRemaining)
+          )}
+          {renderRow('Annual Salary', formatRupees(projection.annualSalary), styles.emphasisValue)}
+          {renderRow('TDS deducted so far', formatRupees(projection.tdsSoFar))}
+        </Card>
+
+        <Card title="Regime Comparison" style={styles.card}>
+          <View style={styles.regimeRow}>
+            {REGIMES.map(regime => {
+              const isSelected = regime === selectedRegime;
+              return (
+                <TouchableOpacity
+                  key={regime}
+                  style={[styles.regimeOption, isSelected && styles.regimeOptionSelected]}
+                  onPress={() => setSelectedRegime(regime)}
+                >
+                  <Text style={styles.regimeLabel}>{TAX_REGIMES[regime].label}</Text>
+                  <Text style={styles.regimeTax}>{formatRupees(estimate.regimes[regime].totalTax)}</Text>
+                  {estimate.recommended === regime && (
+                    <View style={[styles.statusBadge, { backgroundColor: Colors.success + '20' }]}>
+                      <Text style={[styles.statusBadgeText, { color: Colors.success }]}>Lower tax</Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {saving > 0 && (
+            <Text style={styles.noteText}>
+              The {TAX_REGIMES[estimate.recommended].label.toLowerCase()} saves about {formatRupees(saving)} this year.
+            </Text>
+          )}
+        </Card>
+
+        <Card title={`${TAX_REGIMES[selectedRegime].label} Breakdown`} style={styles.card}>
+          {renderRow('Gross Income', formatRupees(breakdown.grossIncome))}
+          {renderRow('Standard Deduction', `- ${formatRupees(breakdown.standardDeduction)}`)}
+          {breakdown.deductions > 0 && renderRow('Deductions & Exemptions', `- ${formatRupees(breakdown.deductions)}`)}
+          {renderRow('Taxable Income', formatRupees(breakdown.taxableIncome), styles.emphasisValue)}
+          {renderRow('Tax on Slabs', formatRupees(breakdown.slabTax))}
+          {breakdown.rebate > 0 && renderRow('Rebate u/s 87A', `- ${formatRupees(breakdown.rebate)}`)}
+          {breakdown.surcharge > 0 && renderRow('Surcharge', formatRupees(breakdown.surcharge))}
+          {renderRow('Health & Education Cess', formatRupees(breakdown.cess))}
+          {renderRow('Total Tax', formatRupees(breakdown.totalTax), styles.emphasisValue)}
+        </Card>
+
+        <Card title="TDS Position" style={styles.card}>
+          {renderRow('TDS deducted so far', formatRupees(projection.tdsSoFar))}
+          {renderRow('TDS at current rate for the year', formatRupees(outcome.projectedTds))}
+          {projection.projectedMonths > 0 &&
+            outcome.remainingLiability > 0 &&
+            renderRow('Monthly TDS needed from now', formatRupees(outcome.monthlyTdsNeeded))}
+          <View
+            style={[
+              styles.outcomeBanner,
+              { backgroundColor: (outcome.projectedBalance > 0 ? Colors.warning : Colors.success) + '15' },
+            ]}
+          >
+            <Ionicons
+              name={outcome.projectedBalance > 0 ? 'alert-circle-outline' : 'checkmark-circle-outline'}
+              size={20}
+              color={outcome.projectedBalance > 0 ? Colors.warning : Colors.success}
+            />
+            <Text style={styles.outcomeText}>
+              {outcome.projectedBalance > 0
+                ? `Likely shortfall of ${formatRupees(outcome.projectedBalance)} at the current TDS rate`
+                : outcome.projectedBalance < 0
+                  ? `Likely refund of ${formatRupees(-outcome.projectedBalance)} at the current TDS rate`
+                  : 'TDS at the current rate matches the projected tax'}
+            </Text>
+          </View>
+        </Card>
+      </>
+    );
+  };
+
+  const renderDeclarations = () => (
+    <Card title="Deductions & Exemptions" style={styles.card}>
+      <Text style={styles.noteText}>
+        Deductions and exemptions apply to the old regime only. Other income is taxed under both.
+      </Text>
+      {DECLARATION_FIELDS.map(field => (
+        <View key={field.key} style={styles.fieldContainer}>
+          <Text style={styles.fieldLabel}>{field.label}</Text>
+          <TextInput
+            style={styles.input}
+            value={declarations[field.key] ? declarations[field.key].toString() : ''}
+            onChangeText={text => handleDeclarationChange(field.key, text)}
+            placeholder="0"
+            placeholderTextColor={Colors.textDisabled}
+            keyboardType="number-pad"
+            maxLength={9}
+          />
+          <Text style={styles.fieldHint}>{field.hint}</Text>
+        </View>
+      ))}
+      <Button
+        text="Save Declarations"
+        icon="save-outline"
+        onPress={handleSaveDeclarations}
+        loading={isSaving}
+        disabled={isSaving}
+        fullWidth
+      />
+    </Card>
+  );
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Loading message="Loading payslips for the tax estimate..." />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <TabSafeContainer>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+          }
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {renderHeader()}
+          {renderTitle()}
+
+          {payroll && payroll.months.some(item => item.payslip) ? (
+            <>
+              {renderEstimate()}
+              {renderDeclarations()}
+              <Text style={styles.disclaimer}>
+                This is an estimate based on your payslips and declarations. Your actual liability depends on
+                your final proofs and returns.
+              </Text>
+            </>
+          ) : (
+            <Card style={styles.card}>
+              <View style={styles.emptyState}>
+                <Ionicons name="calculator-outline" size={48} color={Colors.textSecondary} />
+                <Text style={styles.emptyStateText}>
+                  No payslips found for {getPayrollYearLabel('financial', startYear)} yet.
+                </Text>
+              </View>
+            </Card>
+          )}
+        </ScrollView>
+      </TabSafeContainer>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  scrollView: {
+    flex: 1,
+  },
+
+  scrollContent: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+
+  header: {
+    marginBottom: Spacing.lg,
+  },
+
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+  },
+
+  backButtonText: {
+    marginLeft: Spacing.sm,
+    fontSize: Typography.fontSize.base,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  titleContainer: {
+    marginBottom: Spacing.lg,
+  },
+
+  title: {
+    fontSize: Typography.fontSize['2xl'],
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.xs,
+  },
+
+  subtitle: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+  },
+
+  card: {
+    marginBottom: Spacing.md,
+  },
+
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+
+  detailLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    flex: 1,
+  },
+
+  detailValue: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  emphasisValue: {
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.primary,
+  },
+
+  regimeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+
+  regimeOption: {
+    flex: 1,
+    alignItems: 'center',
+    padding: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: Theme.borderRadius.md,
+  },
+
+  regimeOptionSelected: {
+    borderColor: Colors.primary,
+    borderWidth: 2,
+    backgroundColor: Colors.primaryLight,
+  },
+
+  regimeLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  regimeTax: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+    marginVertical: Spacing.xs,
+  },
+
+  statusBadge: {
+    borderRadius: Theme.borderRadius.full,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+  },
+
+  statusBadgeText: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+
+  noteText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+
+  outcomeBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    borderRadius: Theme.borderRadius.md,
+    padding: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+
+  outcomeText: {
+    flex: 1,
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  fieldContainer: {
+    marginBottom: Spacing.md,
+  },
+
+  fieldLabel: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.xs,
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: Theme.borderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.fontSize.base,
+    color: Colors.textPrimary,
+  },
+
+  fieldHint: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+
+  disclaimer: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    fontStyle: 'italic',
+    marginTop: Spacing.sm,
+  },
+
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: Spacing.lg,
+  },
+
+  emptyStateText: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.sm,
+  },
+});
@@ -1,4 +1,5 @@
 import React, { useEffect, useMemo } from 'react';
+import { Modal, StyleSheet, View } from 'react-native';
 import { Stack, useRouter, useSegments } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import * as SplashScreen from 'expo-splash-screen';
@@ -8,6 +9,9 @@ import { AuthProvider, useAuth } from '../contexts/AuthContext';
 import { ToastProvider } from '../components/ToastProvider';
 import UpdateManager from '../components/UpdateManager';
 import WillwareTechIntro from '../components/WillwareTechIntro';
+import { AppLockScreen } from '../components/AppLockScreen';
+import { SessionExpiryModal } from '../components/SessionExpiryModal';
+import { useAppLock } from '../hooks/useAppLock';
 import { Colors } from '../constants/theme';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete
@@ -17,6 +21,7 @@ function RootLayoutNav() {
   const { isAuthenticated, isLoading, showIntro, completeIntro } = useAuth();
   const segments = useSegments();
   const router = useRouter();
+  const { isLocked, isCovered, unlock } = useAppLock();
 
   // Always call all hooks first (Rules of Hooks)
   useEffect(() => {
@@ -54,20 +59,36 @@ function RootLayoutNav() {
   }
 
   return (
-    <Stack screenOptions={{ headerShown: false }}>
-      <Stack.Screen name="login" options={{ headerShown: false }} />
-      <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-      <Stack.Screen name="modal" options={{ 
-        presentation: 'modal', 
-        title: 'Modal',
-        headerShown: true,
-        headerStyle: { backgroundColor: Colors.surface },
-        headerTintColor: Colors.textPrimary,
-      }} />
-    </Stack>
+    <>
+      <Stack screenOptions={{ headerShown: false }}>
+        <Stack.Screen name="login" options={{ headerShown: false }} />
+        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="modal" options={{ 
+          presentation: 'modal', 
+          title: 'Modal',
+          headerShown: true,
+          headerStyle: { backgroundColor: Colors.surface },
+          headerTintColor: Colors.textPrimary,
+        }} />
+      </Stack>
+      {/* Covers payslips and bank details until the user proves they own the session */}
+      <AppLockScreen visible={isAuthenticated && isLocked} onUnlock={unlock} />
+      {/* Blank until the lock state is known, and while the app is out of the foreground */}
+      <Modal visible={isAuthenticated && isCovered && !isLocked} animationType="none">
+        <View style={styles.cover} />
+      </Modal>
+      {!isLocked && <SessionExpiryModal />}
+    </>
   );
 }
 
+const styles = StyleSheet.create({
+  cover: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+});
+
 export const unstable_settings = {
   anchor: '(tabs)',
 };
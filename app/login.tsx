@@ -18,18 +18,44 @@ import { Button } from '../components/ui/Button';
 import { Card } from '../components/ui/Card';
 import { Loading } from '../components/ui/Loading';
 import { Colors, Typography, Spacing, BorderRadius } from '../constants/theme';
-import { LoginCredentials } from '../types/api';
+import { LoginCredentials, SavedAccount } from '../types/api';
+import CredentialVault from '../services/credentialVault';
+import SavedAccountsService from '../services/savedAccounts';
+import { AppError, getErrorMessage } from '../utils/errorHandling';
 
 export default function LoginScreen() {
-  const { login, isLoading, error, checkBiometricAuth, isBiometricEnabled } = useAuth();
+  const {
+    login,
+    loginWithBiometric,
+    forgetAccount,
+    isLoading,
+    error,
+    biometricAccounts,
+    isBiometricSupported,
+  } = useAuth();
   
   const [credentials, setCredentials] = useState<LoginCredentials>({
     username: '',
     password: '',
   });
   const [rememberMe, setRememberMe] = useState(false);
+  const [enableBiometricLogin, setEnableBiometricLogin] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [fieldErrors, setFieldErrors] = useState<{ [key: string]: string }>({});
+  const [savedAccounts, setSavedAccounts] = useState<SavedAccount[]>([]);
+  const [selectedAccount, setSelectedAccount] = useState<SavedAccount | null>(null);
+  const [useAnotherAccount, setUseAnotherAccount] = useState(false);
+
+  useEffect(() => {
+    loadSavedAccounts();
+  }, []);
+
+  const loadSavedAccounts = async () => {
+    setSavedAccounts(await SavedAccountsService.getInstance().getAccounts());
+  };
+
+  const showAccountChooser = savedAccounts.length > 0 && !selectedAccount && !useAnotherAccount;
+  const hasBiometricLogin = biometricAccounts.includes(credentials.username);
 
   // Clear field errors when user types
   useEffect(() => {
@@ -64,36 +90,88 @@ export default function LoginScreen() {
     }
 
     try {
-      await login(credentials, rememberMe);
+      await login(credentials, rememberMe, enableBiometricLogin);
     } catch (error) {
+      if (error instanceof AppError && error.code === 'INSECURE_STORAGE_REFUSED') {
+        confirmUnencryptedStorage();
+        return;
+      }
       // Error is handled by AuthContext and displayed via error state
       console.error('Login failed:', error);
     }
   };
 
+  // Devices without a keystore (e.g. the web build) can only keep the token as plain data
+  const confirmUnencryptedStorage = () => {
+    Alert.alert(
+      'No Secure Storage',
+      'This device cannot encrypt your sign-in. Anyone with access to its files could read it. ' +
+        'Store it unencrypted anyway?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Store Anyway',
+          style: 'destructive',
+          onPress: async () => {
+            await CredentialVault.getInstance().setUnencryptedAllowed(true);
+            await handleLogin();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSelectAccount = (account: SavedAccount) => {
+    setSelectedAccount(account);
+    setCredentials({ username: account.username, password: '' });
+    setRememberMe(true);
+    setFieldErrors({});
+  };
+
+  const handleShowAccounts = () => {
+    setSelectedAccount(null);
+    setUseAnotherAccount(false);
+    setCredentials({ username: '', password: '' });
+    setFieldErrors({});
+  };
+
+  const handleUseAnotherAccount = () => {
+    setUseAnotherAccount(true);
+    setRememberMe(false);
+  };
+
+  const handleRemoveAccount = (account: SavedAccount) => {
+    Alert.alert(
+      'Remove Account',
+      `Remove ${account.name} from this device? Biometric sign-in for this account will be turned off.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await forgetAccount(account.username);
+            await loadSavedAccounts();
+          },
+        },
+      ]
+    );
+  };
+
   const handleBiometricLogin = async () => {
     try {
-      const success = await checkBiometricAuth();
-      if (success) {
-        // For now, show success message. In production, you'd have stored credentials
-        Alert.alert(
-          'Biometric Authentication',
-          'Biometric authentication successful! Please enter your credentials to complete login.',
-          [{ text: 'OK' }]
-        );
-      } else {
+      await loginWithBiometric(credentials.username);
+    } catch (error) {
+      if (error instanceof AppError && error.code === 'BIOMETRIC_CANCELLED') {
         Alert.alert(
           'Authentication Failed',
           'Biometric authentication was cancelled or failed. Please try again.',
           [{ text: 'OK' }]
         );
+      } else if (error instanceof AppError) {
+        Alert.alert('Biometric Sign-in', getErrorMessage(error), [{ text: 'OK' }]);
       }
-    } catch (error) {
-      Alert.alert(
-        'Biometric Error',
-        'Biometric authentication is not available on this device.',
-        [{ text: 'OK' }]
-      );
+      // Login errors from the server are shown via the AuthContext error state
     }
   };
 
@@ -107,39 +185,102 @@ export default function LoginScreen() {
     </View>
   );
 
+  const renderAvatar = (account: SavedAccount) => (
+    <View style={styles.avatar}>
+      <Text style={styles.avatarText}>{account.name.charAt(0).toUpperCase()}</Text>
+    </View>
+  );
+
+  const renderAccountChooser = () => (
+    <Card style={styles.formCard} padding="lg">
+      <Text style={styles.welcomeText}>Welcome Back!</Text>
+      <Text style={styles.instructionText}>Choose an account to sign in</Text>
+
+      {savedAccounts.map(account => (
+        <View key={account.username} style={styles.accountRow}>
+          <TouchableOpacity
+            style={styles.accountButton}
+            onPress={() => handleSelectAccount(account)}
+            activeOpacity={0.7}
+          >
+            {renderAvatar(account)}
+            <View style={styles.accountInfo}>
+              <Text style={styles.accountName}>{account.name}</Text>
+              <Text style={styles.accountUsername}>{account.username}</Text>
+            </View>
+            {biometricAccounts.includes(account.username) && (
+              <Ionicons name="finger-print" size={20} color={Colors.primary} />
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleRemoveAccount(account)}
+            style={styles.removeAccountButton}
+            accessibilityLabel={`Remove ${account.name}`}
+          >
+            <Ionicons name="trash-outline" size={20} color={Colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <Button
+        text="Use Another Account"
+        variant="outline"
+        icon="person-add-outline"
+        onPress={handleUseAnotherAccount}
+        fullWidth
+        style={styles.loginButton}
+      />
+    </Card>
+  );
+
+  const renderSelectedAccount = (account: SavedAccount) => (
+    <View style={styles.selectedAccount}>
+      {renderAvatar(account)}
+      <View style={styles.accountInfo}>
+        <Text style={styles.accountName}>{account.name}</Text>
+        <Text style={styles.accountUsername}>{account.username}</Text>
+      </View>
+      <TouchableOpacity onPress={handleShowAccounts}>
+        <Text style={styles.switchAccountText}>Not you?</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
   const renderForm = () => (
     <Card style={styles.formCard} padding="lg">
       <Text style={styles.welcomeText}>Welcome Back!</Text>
       <Text style={styles.instructionText}>Sign in to your employee account</Text>
 
       {/* Username Field */}
-      <View style={styles.fieldContainer}>
-        <Text style={styles.fieldLabel}>Username</Text>
-        <View style={[
-          styles.inputContainer,
-          fieldErrors.username && styles.inputError
-        ]}>
-          <Ionicons 
-            name="person-outline" 
-            size={20} 
-            color={Colors.textSecondary}
-            style={styles.inputIcon}
-          />
-          <TextInput
-            style={styles.textInput}
-            value={credentials.username}
-            onChangeText={(text) => setCredentials(prev => ({ ...prev, username: text }))}
-            placeholder="Enter your username"
-            placeholderTextColor={Colors.textSecondary}
-            autoCapitalize="none"
-            autoCorrect={false}
-            editable={!isLoading}
-          />
-        </View>
-        {fieldErrors.username && (
-          <Text style={styles.errorText}>{fieldErrors.username}</Text>
-        )}
+      {selectedAccount ? renderSelectedAccount(selectedAccount) : (
+        <View style={styles.fieldContainer}>
+          <Text style={styles.fieldLabel}>Username</Text>
+          <View style={[
+            styles.inputContainer,
+            fieldErrors.username && styles.inputError
+          ]}>
+            <Ionicons 
+              name="person-outline" 
+              size={20} 
+              color={Colors.textSecondary}
+              style={styles.inputIcon}
+            />
+            <TextInput
+              style={styles.textInput}
+              value={credentials.username}
+              onChangeText={(text) => setCredentials(prev => ({ ...prev, username: text }))}
+              placeholder="Enter your username"
+              placeholderTextColor={Colors.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isLoading}
+            />
+          </View>
+          {fieldErrors.username && (
+            <Text style={styles.errorText}>{fieldErrors.username}</Text>
+      )}
       </View>
+      )}
 
       {/* Password Field */}
       <View style={styles.fieldContainer}>
@@ -195,6 +336,22 @@ export default function LoginScreen() {
         <Text style={styles.rememberText}>Remember me</Text>
       </TouchableOpacity>
 
+      {/* Biometric opt-in, stored with the password once sign-in succeeds */}
+      {isBiometricSupported && !hasBiometricLogin && (
+        <TouchableOpacity
+          style={styles.rememberContainer}
+          onPress={() => setEnableBiometricLogin(!enableBiometricLogin)}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.checkbox, enableBiometricLogin && styles.checkboxChecked]}>
+            {enableBiometricLogin && (
+              <Ionicons name="checkmark" size={14} color={Colors.white} />
+            )}
+          </View>
+          <Text style={styles.rememberText}>Sign in with fingerprint or face next time</Text>
+        </TouchableOpacity>
+      )}
+
       {/* Error Message */}
       {error && (
         <View style={styles.errorContainer}>
@@ -214,7 +371,7 @@ export default function LoginScreen() {
       />
 
       {/* Biometric Login */}
-      {isBiometricEnabled && (
+      {hasBiometricLogin && (
         <View style={styles.biometricContainer}>
           <View style={styles.divider}>
             <View style={styles.dividerLine} />
@@ -233,6 +390,12 @@ export default function LoginScreen() {
           </TouchableOpacity>
         </View>
       )}
+
+      {useAnotherAccount && savedAccounts.length > 0 && (
+        <TouchableOpacity onPress={handleShowAccounts} style={styles.savedAccountsLink}>
+          <Text style={styles.switchAccountText}>Back to saved accounts</Text>
+        </TouchableOpacity>
+      )}
     </Card>
   );
 
@@ -265,7 +428,7 @@ export default function LoginScreen() {
           keyboardShouldPersistTaps="handled"
         >
           {renderLogo()}
-          {renderForm()}
+          {showAccountChooser ? renderAccountChooser() : renderForm()}
           {renderFooter()}
         </ScrollView>
       </KeyboardAvoidingView>
@@ -472,6 +635,76 @@ const styles = StyleSheet.create({
     fontWeight: Typography.fontWeight.medium,
   },
 
+  // Saved Accounts
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.sm,
+  },
+
+  accountButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.md,
+  },
+
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: Colors.primary + '20',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: Spacing.md,
+  },
+
+  avatarText: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.primary,
+  },
+
+  accountInfo: {
+    flex: 1,
+  },
+
+  accountName: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  accountUsername: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  removeAccountButton: {
+    padding: Spacing.md,
+  },
+
+  selectedAccount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Spacing.lg,
+  },
+
+  switchAccountText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  savedAccountsLink: {
+    alignSelf: 'center',
+    padding: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+
   // Footer
   footer: {
     alignItems: 'center',
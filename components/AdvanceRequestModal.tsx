@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from './ui/Button';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/theme';
+import { ADVANCE_LIMITS } from '../constants/advances';
+import { AdvanceInput } from '../services/advanceManager';
+import { formatRupees } from '../utils/payslipTemplate';
+import { getErrorMessage } from '../utils/errorHandling';
+
+interface AdvanceRequestModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (input: AdvanceInput) => Promise<void>;
+}
+
+export const AdvanceRequestModal: React.FC<AdvanceRequestModalProps> = ({ visible, onClose, onSubmit }) => {
+  const [amount, setAmount] = useState('');
+  const [installments, setInstallments] = useState(3);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setAmount('');
+    setInstallments(3);
+    setReason('');
+    setError(null);
+  }, [visible]);
+
+  const parsedAmount = Number(amount.replace(/,/g, ''));
+
+  const handleSubmit = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await onSubmit({ amount: parsedAmount, installments, reason });
+    } catch (submitError) {
+      setError(getErrorMessage(submitError));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.modalOverlay}
+      >
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <View>
+              <Text style={styles.modalTitle}>Request an Advance</Text>
+              <Text style={styles.modalSubtitle}>
+                {formatRupees(ADVANCE_LIMITS.minAmount)} to {formatRupees(ADVANCE_LIMITS.maxAmount)}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+            <Text style={styles.sectionLabel}>Amount (₹)</Text>
+            <TextInput
+              style={[styles.input, styles.fieldSpacing]}
+              value={amount}
+              onChangeText={setAmount}
+              placeholder="25000"
+              placeholderTextColor={Colors.textDisabled}
+              keyboardType="number-pad"
+              maxLength={9}
+            />
+
+            <Text style={styles.sectionLabel}>Repay over</Text>
+            <View style={[styles.stepper, styles.fieldSpacing]}>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => setInstallments(Math.max(1, installments - 1))}
+              >
+                <Ionicons name="remove" size={20} color={Colors.primary} />
+              </TouchableOpacity>
+              <Text style={styles.stepperValue}>
+                {installments} {installments === 1 ? 'month' : 'months'}
+              </Text>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => setInstallments(Math.min(ADVANCE_LIMITS.maxInstallments, installments + 1))}
+              >
+                <Ionicons name="add" size={20} color={Colors.primary} />
+              </TouchableOpacity>
+            </View>
+            {parsedAmount > 0 && (
+              <Text style={styles.hintText}>
+                About {formatRupees(Math.ceil(parsedAmount / installments))} will be deducted from each payslip
+              </Text>
+            )}
+
+            <Text style={styles.sectionLabel}>Reason</Text>
+            <TextInput
+              style={[styles.input, styles.reasonInput]}
+              value={reason}
+              onChangeText={setReason}
+              placeholder="What the advance is for"
+              placeholderTextColor={Colors.textDisabled}
+              multiline
+              maxLength={500}
+            />
+
+            {error && <Text style={styles.errorText}>{error}</Text>}
+
+            <Button
+              text="Submit Request"
+              icon="send"
+              onPress={handleSubmit}
+              loading={isSubmitting}
+              disabled={isSubmitting}
+              fullWidth
+              style={styles.submitButton}
+            />
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: Spacing.md,
+  },
+  modalTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+  },
+  modalSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  sectionLabel: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.fontSize.base,
+    color: Colors.textPrimary,
+    backgroundColor: Colors.surface,
+  },
+  fieldSpacing: {
+    marginBottom: Spacing.md,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+  },
+  stepperButton: {
+    padding: Spacing.sm,
+  },
+  stepperValue: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+  hintText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: -Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  reasonInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.error,
+    marginTop: Spacing.sm,
+  },
+  submitButton: {
+    marginTop: Spacing.md,
+  },
+});
+
+export default AdvanceRequestModal;
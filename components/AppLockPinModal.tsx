@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { PinPad } from './PinPad';
+import { useAuth } from '../contexts/AuthContext';
+import AppLockService from '../services/appLock';
+import { APP_LOCK_PIN_LENGTH } from '../constants/appLock';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/theme';
+import { getErrorMessage } from '../utils/errorHandling';
+
+export type AppLockPinMode = 'set' | 'change' | 'disable';
+
+interface AppLockPinModalProps {
+  visible: boolean;
+  mode: AppLockPinMode;
+  onClose: () => void;
+  onDone: (mode: AppLockPinMode) => void;
+}
+
+type Step = 'current' | 'new' | 'confirm';
+
+const STEP_PROMPTS: Record<Step, string> = {
+  current: 'Enter your current PIN',
+  new: `Choose a ${APP_LOCK_PIN_LENGTH}-digit PIN`,
+  confirm: 'Enter the PIN again to confirm',
+};
+
+const MODE_TITLES: Record<AppLockPinMode, string> = {
+  set: 'Set Up App Lock',
+  change: 'Change App PIN',
+  disable: 'Turn Off App Lock',
+};
+
+export const AppLockPinModal: React.FC<AppLockPinModalProps> = ({ visible, mode, onClose, onDone }) => {
+  const { logout } = useAuth();
+  const [step, setStep] = useState<Step>('new');
+  const [pin, setPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setStep(mode === 'set' ? 'new' : 'current');
+    setPin('');
+    setNewPin('');
+    setError(null);
+  }, [visible, mode]);
+
+  // Wrong current PINs count towards the same lockout as the lock screen
+  const checkCurrentPin = async (value: string) => {
+    const appLock = AppLockService.getInstance();
+    const result = await appLock.verifyPin(value);
+
+    switch (result.status) {
+      case 'unlocked':
+        if (mode === 'disable') {
+          await appLock.clear();
+          onDone(mode);
+        } else {
+          setStep('new');
+        }
+        break;
+      case 'invalid':
+        setError(`Wrong PIN. ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`);
+        break;
+      case 'locked_out':
+        setError('Too many wrong PINs. Try again later.');
+        break;
+      case 'signed_out':
+        onClose();
+        await logout();
+        break;
+    }
+  };
+
+  const handleChange = async (value: string) => {
+    setPin(value);
+    setError(null);
+    if (value.length < APP_LOCK_PIN_LENGTH) return;
+
+    try {
+      setIsSaving(true);
+      setPin('');
+
+      if (step === 'current') {
+        await checkCurrentPin(value);
+      } else if (step === 'new') {
+        setNewPin(value);
+        setStep('confirm');
+      } else if (value !== newPin) {
+        setNewPin('');
+        setStep('new');
+        setError('The PINs did not match. Choose a PIN again.');
+      } else {
+        await AppLockService.getInstance().setPin(value);
+        onDone(mode);
+      }
+    } catch (saveError) {
+      setError(getErrorMessage(saveError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <View>
+              <Text style={styles.modalTitle}>{MODE_TITLES[mode]}</Text>
+              <Text style={styles.modalSubtitle}>{STEP_PROMPTS[step]}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.messageArea}>
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </View>
+
+          <PinPad
+            length={APP_LOCK_PIN_LENGTH}
+            value={pin}
+            onChange={handleChange}
+            disabled={isSaving}
+            hasError={!!error}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    paddingBottom: Spacing.xl,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: Spacing.sm,
+  },
+  modalTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+  },
+  modalSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  messageArea: {
+    minHeight: 32,
+    justifyContent: 'center',
+    marginBottom: Spacing.sm,
+  },
+  errorText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.error,
+    textAlign: 'center',
+  },
+});
+
+export default AppLockPinModal;
@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { PinPad } from './PinPad';
+import { useAuth } from '../contexts/AuthContext';
+import AppLockService from '../services/appLock';
+import { APP_LOCK_PIN_LENGTH } from '../constants/appLock';
+import { Colors, Typography, Spacing } from '../constants/theme';
+import { getErrorMessage } from '../utils/errorHandling';
+
+interface AppLockScreenProps {
+  visible: boolean;
+  onUnlock: () => void;
+}
+
+const formatWait = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds >= 60 ? `${Math.ceil(seconds / 60)} min` : `${seconds}s`;
+};
+
+export const AppLockScreen: React.FC<AppLockScreenProps> = ({ visible, onUnlock }) => {
+  const { user, logout, checkBiometricAuth, isBiometricSupported } = useAuth();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const handleBiometric = useCallback(async () => {
+    if (!(await checkBiometricAuth('Unlock WillwareTech'))) return;
+    await AppLockService.getInstance().resetAttempts();
+    setLockedUntil(null);
+    onUnlock();
+  }, [checkBiometricAuth, onUnlock]);
+
+  // Pick up a lockout that was still running when the app was closed, then offer biometrics straight away
+  useEffect(() => {
+    if (!visible) return;
+    setPin('');
+    setError(null);
+    AppLockService.getInstance()
+      .getLockedUntil()
+      .then(setLockedUntil);
+    if (isBiometricSupported) handleBiometric();
+  }, [visible]);
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) {
+        setLockedUntil(null);
+        setError(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const handleChange = async (value: string) => {
+    setPin(value);
+    setError(null);
+    if (value.length < APP_LOCK_PIN_LENGTH) return;
+
+    try {
+      setIsChecking(true);
+      const result = await AppLockService.getInstance().verifyPin(value);
+      setPin('');
+
+      switch (result.status) {
+        case 'unlocked':
+          onUnlock();
+          break;
+        case 'invalid':
+          setError(
+            result.signsOutNext
+              ? `Wrong PIN. ${result.attemptsLeft} left before you are signed out.`
+              : `Wrong PIN. ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`
+          );
+          break;
+        case 'locked_out':
+          setNow(Date.now());
+          setLockedUntil(result.lockedUntil);
+          setError('Too many wrong PINs.');
+          break;
+        case 'signed_out':
+          await logout();
+          break;
+      }
+    } catch (verifyError) {
+      setPin('');
+      setError(getErrorMessage(verifyError));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const isLockedOut = !!lockedUntil && lockedUntil > now;
+
+  return (
+    <Modal visible={visible} animationType="fade" onRequestClose={() => undefined}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.lockIcon}>
+            <Ionicons name="lock-closed" size={32} color={Colors.primary} />
+          </View>
+          <Text style={styles.title}>WillwareTech is locked</Text>
+          <Text style={styles.subtitle}>
+            {user ? `Enter your app PIN, ${user.name.split(' ')[0]}` : 'Enter your app PIN'}
+          </Text>
+        </View>
+
+        <View style={styles.messageArea}>
+          {isLockedOut ? (
+            <Text style={styles.errorText}>
+              {error || 'Too many wrong PINs.'} Try again in {formatWait(lockedUntil - now)}.
+            </Text>
+          ) : error ? (
+            <Text style={styles.errorText}>{error}</Text>
+          ) : null}
+        </View>
+
+        <PinPad
+          length={APP_LOCK_PIN_LENGTH}
+          value={pin}
+          onChange={handleChange}
+          disabled={isChecking || isLockedOut}
+          hasError={!!error}
+          accessory={
+            isBiometricSupported
+              ? { icon: 'finger-print', label: 'Unlock with biometrics', onPress: handleBiometric }
+              : undefined
+          }
+        />
+
+        <TouchableOpacity onPress={logout} style={styles.signOutLink}>
+          <Text style={styles.signOutText}>Forgot PIN? Sign out</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+    justifyContent: 'center',
+    padding: Spacing.lg,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: Spacing.lg,
+  },
+  lockIcon: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: Colors.primary + '20',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: Spacing.md,
+  },
+  title: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+  },
+  subtitle: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+    marginTop: Spacing.xs,
+  },
+  messageArea: {
+    minHeight: 40,
+    justifyContent: 'center',
+    marginBottom: Spacing.md,
+  },
+  errorText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.error,
+    textAlign: 'center',
+  },
+  signOutLink: {
+    alignSelf: 'center',
+    padding: Spacing.md,
+    marginTop: Spacing.md,
+  },
+  signOutText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+});
+
+export default AppLockScreen;
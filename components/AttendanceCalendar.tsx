@@ -0,0 +1,204 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import moment from 'moment';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/theme';
+import { ATTENDANCE_DATE_FORMAT, formatMinutes } from '../utils/attendance';
+
+export type CalendarDayStatus =
+  | 'present'
+  | 'absent'
+  | 'weekend'
+  | 'holiday'
+  | 'leave'
+  | 'auto_checkout'
+  | 'incomplete'
+  | 'upcoming';
+
+export interface CalendarDay {
+  date: string; // DD/MM/YYYY
+  status: CalendarDayStatus;
+  workedMinutes: number;
+}
+
+interface AttendanceCalendarProps {
+  month: number; // 1-12
+  year: number;
+  days: Record<string, CalendarDay>;
+  targetMinutes: number; // a day at or above this is shown at full intensity
+  onDayPress: (date: string) => void;
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const CALENDAR_STATUS_META: Record<CalendarDayStatus, { label: string; color: string }> = {
+  present: { label: 'Present', color: Colors.success },
+  absent: { label: 'Absent', color: Colors.error },
+  weekend: { label: 'Weekly Off', color: Colors.gray300 },
+  holiday: { label: 'Holiday', color: Colors.info },
+  leave: { label: 'Leave', color: Colors.primary },
+  auto_checkout: { label: 'Auto Out', color: Colors.warning },
+  incomplete: { label: 'Incomplete', color: Colors.gray600 },
+  upcoming: { label: 'Upcoming', color: Colors.gray100 },
+};
+
+const LEGEND: CalendarDayStatus[] = ['present', 'absent', 'auto_checkout', 'incomplete', 'leave', 'holiday', 'weekend'];
+
+// Present days get darker the closer they come to a full day
+const getHeatColor = (day: CalendarDay, targetMinutes: number): string => {
+  const color = CALENDAR_STATUS_META[day.status].color;
+  if (day.status !== 'present') {
+    return color;
+  }
+  const ratio = targetMinutes > 0 ? Math.min(1, day.workedMinutes / targetMinutes) : 1;
+  const alpha = Math.round(255 * (0.3 + 0.7 * ratio));
+  return color + alpha.toString(16).padStart(2, '0');
+};
+
+export const AttendanceCalendar: React.FC<AttendanceCalendarProps> = ({
+  month,
+  year,
+  days,
+  targetMinutes,
+  onDayPress,
+}) => {
+  const firstDay = moment({ year, month: month - 1, date: 1 });
+  const daysInMonth = firstDay.daysInMonth();
+
+  // Leading blanks so the 1st lands under its weekday
+  const cells: (number | null)[] = [
+    ...Array.from({ length: firstDay.day() }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => i + 1),
+  ];
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  const weeks: (number | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+
+  const renderCell = (dayOfMonth: number | null, index: number) => {
+    if (dayOfMonth === null) {
+      return <View key={`blank_${index}`} style={styles.cell} />;
+    }
+
+    const date = firstDay.clone().date(dayOfMonth).format(ATTENDANCE_DATE_FORMAT);
+    const day = days[date] || { date, status: 'upcoming' as CalendarDayStatus, workedMinutes: 0 };
+    const isDark = day.status !== 'weekend' && day.status !== 'upcoming';
+    const isToday = date === moment().format(ATTENDANCE_DATE_FORMAT);
+
+    return (
+      <TouchableOpacity
+        key={date}
+        style={styles.cell}
+        onPress={() => onDayPress(date)}
+        disabled={day.status === 'upcoming'}
+        activeOpacity={0.7}
+      >
+        <View
+          style={[
+            styles.dayBox,
+            { backgroundColor: getHeatColor(day, targetMinutes) },
+            isToday && styles.todayBox,
+          ]}
+        >
+          <Text style={[styles.dayNumber, isDark && styles.dayNumberLight]}>{dayOfMonth}</Text>
+          {day.workedMinutes > 0 && (
+            <Text style={[styles.dayHours, isDark && styles.dayNumberLight]}>
+              {formatMinutes(day.workedMinutes)}
+            </Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View>
+      <View style={styles.weekRow}>
+        {WEEKDAY_LABELS.map(label => (
+          <Text key={label} style={styles.weekdayLabel}>{label}</Text>
+        ))}
+      </View>
+
+      {weeks.map((week, weekIndex) => (
+        <View key={weekIndex} style={styles.weekRow}>
+          {week.map((dayOfMonth, dayIndex) => renderCell(dayOfMonth, weekIndex * 7 + dayIndex))}
+        </View>
+      ))}
+
+      <View style={styles.legend}>
+        {LEGEND.map(status => (
+          <View key={status} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: CALENDAR_STATUS_META[status].color }]} />
+            <Text style={styles.legendLabel}>{CALENDAR_STATUS_META[status].label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.xs,
+  },
+  cell: {
+    flex: 1,
+    aspectRatio: 1,
+    padding: 2,
+  },
+  dayBox: {
+    flex: 1,
+    borderRadius: BorderRadius.sm,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  todayBox: {
+    borderWidth: 2,
+    borderColor: Colors.primary,
+  },
+  dayNumber: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textPrimary,
+  },
+  dayNumberLight: {
+    color: Colors.white,
+  },
+  dayHours: {
+    fontSize: 9,
+    color: Colors.textPrimary,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+    marginRight: 4,
+  },
+  legendLabel: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+  },
+});
+
+export default AttendanceCalendar;
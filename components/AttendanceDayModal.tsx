@@ -0,0 +1,254 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, ScrollView, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import moment from 'moment';
+import { Button } from './ui/Button';
+import { CALENDAR_STATUS_META, CalendarDay } from './AttendanceCalendar';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/theme';
+import { getBreakReasonLabel } from '../constants/breakReasons';
+import { getLeaveSessionLabel, getLeaveTypeMeta } from '../constants/leaveTypes';
+import { ATTENDANCE_FLAG_META } from '../constants/shifts';
+import { AttendanceFlag, BreakRecord, Holiday, LeaveApplication } from '../types/api';
+import { ATTENDANCE_DATE_FORMAT, formatMinutes, getBreakMinutes, getGrossMinutes } from '../utils/attendance';
+
+interface AttendanceDayModalProps {
+  visible: boolean;
+  day: CalendarDay | null;
+  record?: {
+    checkin?: string;
+    checkout?: string;
+    totalhours?: string;
+    autocheckout?: boolean;
+  };
+  breaks: BreakRecord[];
+  flags: AttendanceFlag[];
+  leave?: LeaveApplication;
+  holiday?: Holiday;
+  onClose: () => void;
+  onRequestCorrection?: () => void;
+}
+
+export const AttendanceDayModal: React.FC<AttendanceDayModalProps> = ({
+  visible,
+  day,
+  record,
+  breaks,
+  flags,
+  leave,
+  holiday,
+  onClose,
+  onRequestCorrection,
+}) => {
+  if (!day) return null;
+
+  const date = moment(day.date, ATTENDANCE_DATE_FORMAT);
+  const statusMeta = CALENDAR_STATUS_META[day.status];
+  const grossMinutes = record ? getGrossMinutes(record) : 0;
+  const breakMinutes = Math.min(grossMinutes, getBreakMinutes(breaks));
+
+  const renderRow = (label: string, value: string, valueColor?: string) => (
+    <View style={styles.detailRow}>
+      <Text style={styles.detailLabel}>{label}</Text>
+      <Text style={[styles.detailValue, valueColor ? { color: valueColor } : null]}>{value}</Text>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <View>
+              <Text style={styles.modalTitle}>{date.format('dddd')}</Text>
+              <Text style={styles.modalSubtitle}>{date.format('DD MMMM YYYY')}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.statusBadge, { backgroundColor: statusMeta.color + '20' }]}>
+            <Text style={[styles.statusBadgeText, { color: statusMeta.color }]}>{statusMeta.label}</Text>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {holiday && renderRow('Holiday', holiday.name, Colors.info)}
+            {leave &&
+              renderRow(
+                getLeaveTypeMeta(leave.type).label,
+                leave.session === 'full_day' ? leave.reason : `${getLeaveSessionLabel(leave.session)} · ${leave.reason}`,
+                getLeaveTypeMeta(leave.type).color
+              )}
+
+            {record ? (
+              <>
+                {renderRow('Check In', record.checkin ? moment(record.checkin).format('hh:mm A') : 'N/A')}
+                {renderRow(
+                  'Check Out',
+                  record.checkout
+                    ? `${moment(record.checkout).format('hh:mm A')}${record.autocheckout ? ' (auto)' : ''}`
+                    : 'Not checked out',
+                  record.autocheckout || !record.checkout ? Colors.warning : undefined
+                )}
+                {renderRow('Gross Hours', formatMinutes(grossMinutes))}
+
+                {breaks.length > 0 && (
+                  <View style={styles.breakList}>
+                    <Text style={styles.sectionLabel}>Breaks</Text>
+                    {breaks.map(item => (
+                      <Text key={item.id} style={styles.breakText}>
+                        {`${getBreakReasonLabel(item.reason)}: ${moment(item.start).format('hh:mm A')} - ` +
+                          `${item.end ? moment(item.end).format('hh:mm A') : 'ongoing'} ` +
+                          `(${formatMinutes(getBreakMinutes([item]))})`}
+                      </Text>
+                    ))}
+                  </View>
+                )}
+
+                {renderRow('Net Hours', formatMinutes(grossMinutes - breakMinutes), Colors.primary)}
+
+                {flags.length > 0 && (
+                  <View style={styles.flagRow}>
+                    {flags.map(flag => (
+                      <View
+                        key={flag}
+                        style={[styles.flagChip, { backgroundColor: ATTENDANCE_FLAG_META[flag].color + '15' }]}
+                      >
+                        <Text style={[styles.flagText, { color: ATTENDANCE_FLAG_META[flag].color }]}>
+                          {ATTENDANCE_FLAG_META[flag].label}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
+              </>
+            ) : (
+              !leave && !holiday && (
+                <Text style={styles.emptyText}>No punches recorded for this day.</Text>
+              )
+            )}
+          </ScrollView>
+
+          {onRequestCorrection && (
+            <Button
+              text="Request Correction"
+              variant="outline"
+              icon="create-outline"
+              onPress={onRequestCorrection}
+              fullWidth
+              style={styles.correctionButton}
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing.lg,
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: Spacing.lg,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: Spacing.sm,
+  },
+  modalTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+  },
+  modalSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    marginBottom: Spacing.md,
+  },
+  statusBadgeText: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+  detailLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+  detailValue: {
+    flexShrink: 1,
+    marginLeft: Spacing.md,
+    textAlign: 'right',
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+  sectionLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.xs,
+  },
+  breakList: {
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+  breakText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+    marginTop: 2,
+  },
+  flagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginTop: Spacing.md,
+  },
+  flagChip: {
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+  },
+  flagText: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+  emptyText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: Spacing.lg,
+  },
+  correctionButton: {
+    marginTop: Spacing.md,
+  },
+});
+
+export default AttendanceDayModal;
@@ -0,0 +1,351 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from './ui/Button';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/theme';
+import { EditableProfileField, EmployeeDetailsResponse, ProfileUpdate } from '../types/api';
+import {
+  ProfileFieldChange,
+  getProfileChanges,
+  toProfileUpdate,
+  validateProfileUpdate,
+} from '../utils/profileValidation';
+import { getErrorMessage } from '../utils/errorHandling';
+
+interface EditProfileModalProps {
+  visible: boolean;
+  details: EmployeeDetailsResponse['data'] | null;
+  onClose: () => void;
+  onSave: (update: ProfileUpdate) => Promise<void>;
+}
+
+type Step = 'edit' | 'review';
+
+export const EditProfileModal: React.FC<EditProfileModalProps> = ({ visible, details, onClose, onSave }) => {
+  const [step, setStep] = useState<Step>('edit');
+  const [phone, setPhone] = useState('');
+  const [alternativePhone, setAlternativePhone] = useState('');
+  const [address, setAddress] = useState('');
+  const [bankAccount, setBankAccount] = useState('');
+  const [ifsc, setIfsc] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<EditableProfileField, string>>>({});
+  const [changes, setChanges] = useState<ProfileFieldChange[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the values on record each time the editor opens
+  useEffect(() => {
+    if (!visible || !details) return;
+    setStep('edit');
+    setPhone(details.phone || '');
+    setAlternativePhone(details.alternativePhoneNumber || '');
+    setAddress(details.address || '');
+    setBankAccount(details.alternativeBankAccount || '');
+    setIfsc(details.alternativeBankIfsc || '');
+    setFieldErrors({});
+    setChanges([]);
+    setError(null);
+  }, [visible, details]);
+
+  if (!details) return null;
+
+  const getForm = (): Record<EditableProfileField, string> => ({
+    phone,
+    alternativePhoneNumber: alternativePhone,
+    address,
+    alternativeBankAccount: bankAccount,
+    alternativeBankIfsc: ifsc,
+  });
+
+  const handleReview = () => {
+    const form = getForm();
+    const errors = validateProfileUpdate(details, form);
+    setFieldErrors(errors);
+    setError(null);
+    if (Object.keys(errors).length > 0) return;
+
+    const changed = getProfileChanges(details, form);
+    if (changed.length === 0) {
+      setError('Nothing has changed');
+      return;
+    }
+    setChanges(changed);
+    setStep('review');
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await onSave(toProfileUpdate(changes));
+    } catch (saveError) {
+      setError(getErrorMessage(saveError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderField = (
+    key: EditableProfileField,
+    label: string,
+    value: string,
+    onChange: (text: string) => void,
+    options: { placeholder: string; keyboardType?: 'phone-pad' | 'number-pad' | 'default'; multiline?: boolean }
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.sectionLabel}>{label}</Text>
+      <TextInput
+        style={[styles.input, options.multiline && styles.multilineInput, fieldErrors[key] && styles.inputError]}
+        value={value}
+        onChangeText={onChange}
+        placeholder={options.placeholder}
+        placeholderTextColor={Colors.textDisabled}
+        keyboardType={options.keyboardType || 'default'}
+        multiline={options.multiline}
+        maxLength={options.multiline ? 250 : 20}
+      />
+      {fieldErrors[key] && <Text style={styles.fieldErrorText}>{fieldErrors[key]}</Text>}
+    </View>
+  );
+
+  const renderEdit = () => (
+    <>
+      {renderField('phone', 'Phone', phone, setPhone, { placeholder: '9876543210', keyboardType: 'phone-pad' })}
+      {renderField('alternativePhoneNumber', 'Alternative Phone', alternativePhone, setAlternativePhone, {
+        placeholder: 'Optional',
+        keyboardType: 'phone-pad',
+      })}
+      {renderField('address', 'Address', address, setAddress, {
+        placeholder: 'House, street, city, PIN code',
+        multiline: true,
+      })}
+
+      <View style={styles.field}>
+        <Text style={styles.sectionLabel}>Alternative Bank Account</Text>
+        <View style={styles.bankRow}>
+          <TextInput
+            style={[styles.input, styles.accountInput, fieldErrors.alternativeBankAccount && styles.inputError]}
+            value={bankAccount}
+            onChangeText={setBankAccount}
+            placeholder="Account number"
+            placeholderTextColor={Colors.textDisabled}
+            keyboardType="number-pad"
+            maxLength={18}
+          />
+          <TextInput
+            style={[styles.input, styles.ifscInput, fieldErrors.alternativeBankIfsc && styles.inputError]}
+            value={ifsc}
+            onChangeText={text => setIfsc(text.toUpperCase())}
+            placeholder="IFSC"
+            placeholderTextColor={Colors.textDisabled}
+            autoCapitalize="characters"
+            maxLength={11}
+          />
+        </View>
+        {fieldErrors.alternativeBankAccount && (
+          <Text style={styles.fieldErrorText}>{fieldErrors.alternativeBankAccount}</Text>
+        )}
+        {fieldErrors.alternativeBankIfsc && (
+          <Text style={styles.fieldErrorText}>{fieldErrors.alternativeBankIfsc}</Text>
+        )}
+      </View>
+
+      <Text style={styles.hintText}>Name, email, PAN, UAN and your primary bank account are updated by HR.</Text>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <Button text="Review Changes" icon="eye-outline" onPress={handleReview} fullWidth style={styles.submitButton} />
+    </>
+  );
+
+  const renderReview = () => (
+    <>
+      {changes.map(change => (
+        <View key={change.key} style={styles.changeCard}>
+          <Text style={styles.sectionLabel}>{change.label}</Text>
+          <Text style={styles.fromText}>{change.from || 'Not set'}</Text>
+          <View style={styles.changeArrow}>
+            <Ionicons name="arrow-down" size={16} color={Colors.textSecondary} />
+          </View>
+          <Text style={styles.toText}>{change.to || 'Removed'}</Text>
+        </View>
+      ))}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <View style={styles.buttonRow}>
+        <Button
+          text="Back"
+          variant="outline"
+          onPress={() => setStep('edit')}
+          disabled={isSaving}
+          style={styles.rowButton}
+        />
+        <Button
+          text="Save"
+          icon="checkmark"
+          onPress={handleSave}
+          loading={isSaving}
+          disabled={isSaving}
+          style={styles.rowButton}
+        />
+      </View>
+    </>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.modalOverlay}
+      >
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <View>
+              <Text style={styles.modalTitle}>{step === 'edit' ? 'Edit Profile' : 'Confirm Changes'}</Text>
+              <Text style={styles.modalSubtitle}>
+                {step === 'edit'
+                  ? 'Contact and alternative bank details'
+                  : `${changes.length} ${changes.length === 1 ? 'field' : 'fields'} will be updated`}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+            {step === 'edit' ? renderEdit() : renderReview()}
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: Spacing.md,
+  },
+  modalTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+  },
+  modalSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  field: {
+    marginBottom: Spacing.md,
+  },
+  sectionLabel: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.fontSize.base,
+    color: Colors.textPrimary,
+    backgroundColor: Colors.surface,
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  inputError: {
+    borderColor: Colors.error,
+  },
+  bankRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  accountInput: {
+    flex: 3,
+  },
+  ifscInput: {
+    flex: 2,
+  },
+  fieldErrorText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.error,
+    marginTop: Spacing.xs,
+  },
+  hintText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+  },
+  errorText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.error,
+    marginTop: Spacing.sm,
+  },
+  submitButton: {
+    marginTop: Spacing.md,
+  },
+  changeCard: {
+    backgroundColor: Colors.surfaceVariant,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  fromText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    textDecorationLine: 'line-through',
+  },
+  changeArrow: {
+    marginVertical: 2,
+  },
+  toText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  rowButton: {
+    flex: 1,
+  },
+});
+
+export default EditProfileModal;
@@ -0,0 +1,296 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import moment from 'moment';
+import { Button } from './ui/Button';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/theme';
+import { ExportFormat } from '../services/exportService';
+import { getErrorMessage } from '../utils/errorHandling';
+
+type RangeMode = 'month' | 'custom';
+
+export interface ExportRange {
+  from: moment.Moment;
+  to: moment.Moment;
+}
+
+interface ExportAttendanceModalProps {
+  visible: boolean;
+  month: number; // 1-12, the month selected on the logs screen
+  year: number;
+  onClose: () => void;
+  onExport: (range: ExportRange, format: ExportFormat) => Promise<void>;
+}
+
+const MAX_RANGE_DAYS = 366;
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'pdf', label: 'PDF Report', icon: 'document-text-outline' },
+  { value: 'csv', label: 'CSV Spreadsheet', icon: 'grid-outline' },
+];
+
+export const ExportAttendanceModal: React.FC<ExportAttendanceModalProps> = ({
+  visible,
+  month,
+  year,
+  onClose,
+  onExport,
+}) => {
+  const [mode, setMode] = useState<RangeMode>('month');
+  const [format, setFormat] = useState<ExportFormat>('pdf');
+  const [fromDate, setFromDate] = useState(moment().startOf('month'));
+  const [toDate, setToDate] = useState(moment().startOf('day'));
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Custom range starts out as the month being viewed
+  useEffect(() => {
+    if (!visible) return;
+    const start = moment({ year, month: month - 1, date: 1 });
+    setFromDate(start);
+    setToDate(moment.min(start.clone().endOf('month'), moment()).startOf('day'));
+    setError(null);
+  }, [visible, month, year]);
+
+  const getRange = (): ExportRange => {
+    if (mode === 'month') {
+      const start = moment({ year, month: month - 1, date: 1 });
+      return { from: start, to: moment.min(start.clone().endOf('month'), moment()).startOf('day') };
+    }
+    return { from: fromDate, to: toDate };
+  };
+
+  const shiftFromDate = (amount: number, unit: 'day' | 'month') => {
+    const next = fromDate.clone().add(amount, unit);
+    if (next.isAfter(moment(), 'day')) return;
+    setFromDate(next);
+    if (toDate.isBefore(next, 'day')) {
+      setToDate(next.clone());
+    }
+  };
+
+  const shiftToDate = (amount: number, unit: 'day' | 'month') => {
+    const next = moment.min(toDate.clone().add(amount, unit), moment().startOf('day'));
+    if (!next.isBefore(fromDate, 'day')) {
+      setToDate(next);
+    }
+  };
+
+  const handleExport = async () => {
+    const range = getRange();
+    if (range.to.diff(range.from, 'days') >= MAX_RANGE_DAYS) {
+      setError('Exports are limited to one year at a time.');
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+      setError(null);
+      await onExport(range, format);
+    } catch (exportError) {
+      setError(getErrorMessage(exportError));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderDateStepper = (
+    label: string,
+    value: moment.Moment,
+    onShift: (amount: number, unit: 'day' | 'month') => void
+  ) => (
+    <View style={styles.dateField}>
+      <Text style={styles.sectionLabel}>{label}</Text>
+      <View style={styles.dateStepper}>
+        <TouchableOpacity style={styles.dateArrow} onPress={() => onShift(-1, 'month')}>
+          <Ionicons name="play-back" size={16} color={Colors.primary} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.dateArrow} onPress={() => onShift(-1, 'day')}>
+          <Ionicons name="chevron-back" size={20} color={Colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.dateText}>{value.format('DD MMM YYYY')}</Text>
+        <TouchableOpacity style={styles.dateArrow} onPress={() => onShift(1, 'day')}>
+          <Ionicons name="chevron-forward" size={20} color={Colors.primary} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.dateArrow} onPress={() => onShift(1, 'month')}>
+          <Ionicons name="play-forward" size={16} color={Colors.primary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const range = getRange();
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <View>
+              <Text style={styles.modalTitle}>Export Attendance</Text>
+              <Text style={styles.modalSubtitle}>
+                {range.from.format('DD MMM YYYY')} - {range.to.format('DD MMM YYYY')}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.sectionLabel}>Period</Text>
+          <View style={styles.chipRow}>
+            {(['month', 'custom'] as RangeMode[]).map(item => (
+              <TouchableOpacity
+                key={item}
+                style={[styles.chip, mode === item && styles.chipSelected]}
+                onPress={() => setMode(item)}
+              >
+                <Text style={[styles.chipText, mode === item && styles.chipTextSelected]}>
+                  {item === 'month' ? moment({ year, month: month - 1, date: 1 }).format('MMMM YYYY') : 'Custom Range'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {mode === 'custom' && (
+            <>
+              {renderDateStepper('From', fromDate, shiftFromDate)}
+              {renderDateStepper('To', toDate, shiftToDate)}
+            </>
+          )}
+
+          <Text style={styles.sectionLabel}>Format</Text>
+          <View style={styles.chipRow}>
+            {FORMAT_OPTIONS.map(item => (
+              <TouchableOpacity
+                key={item.value}
+                style={[styles.chip, styles.formatChip, format === item.value && styles.chipSelected]}
+                onPress={() => setFormat(item.value)}
+              >
+                <Ionicons
+                  name={item.icon}
+                  size={16}
+                  color={format === item.value ? Colors.white : Colors.textSecondary}
+                />
+                <Text style={[styles.chipText, format === item.value && styles.chipTextSelected]}>
+                  {item.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <Button
+            text="Export & Share"
+            icon="share-outline"
+            onPress={handleExport}
+            loading={isExporting}
+            disabled={isExporting}
+            fullWidth
+            style={styles.exportButton}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: Spacing.md,
+  },
+  modalTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+  },
+  modalSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  sectionLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  formatChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+  },
+  chipTextSelected: {
+    color: Colors.white,
+  },
+  dateField: {
+    marginBottom: Spacing.md,
+  },
+  dateStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+  },
+  dateArrow: {
+    padding: Spacing.sm,
+  },
+  dateText: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textPrimary,
+  },
+  errorText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.error,
+    marginBottom: Spacing.sm,
+  },
+  exportButton: {
+    marginTop: Spacing.sm,
+  },
+});
+
+export default ExportAttendanceModal;
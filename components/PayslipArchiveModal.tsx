@@ -0,0 +1,139 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, ScrollView, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import moment from 'moment';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/theme';
+import { MONTH_NAMES, PayslipArchiveEntry } from '../types/api';
+
+interface PayslipArchiveModalProps {
+  visible: boolean;
+  entries: PayslipArchiveEntry[]; // newest first
+  onClose: () => void;
+  onSelect: (month: number, year: number) => void; // month 0-11
+}
+
+export const PayslipArchiveModal: React.FC<PayslipArchiveModalProps> = ({ visible, entries, onClose, onSelect }) => {
+  const years = Array.from(new Set(entries.map(entry => entry.year)));
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <View>
+              <Text style={styles.modalTitle}>Saved Payslips</Text>
+              <Text style={styles.modalSubtitle}>Encrypted on this device and available offline</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          {entries.length === 0 ? (
+            <Text style={styles.emptyText}>
+              Payslips you open are saved here automatically. They are removed when you log out.
+            </Text>
+          ) : (
+            <ScrollView showsVerticalScrollIndicator={false}>
+              {years.map(year => (
+                <View key={year}>
+                  <Text style={styles.yearLabel}>{year}</Text>
+                  {entries
+                    .filter(entry => entry.year === year)
+                    .map(entry => {
+                      const month = MONTH_NAMES.indexOf(entry.month);
+                      return (
+                        <TouchableOpacity
+                          key={`${entry.year}_${entry.month}`}
+                          style={styles.entryRow}
+                          onPress={() => onSelect(month, entry.year)}
+                        >
+                          <Ionicons name="document-lock-outline" size={20} color={Colors.primary} />
+                          <View style={styles.entryInfo}>
+                            <Text style={styles.entryMonth}>{moment().month(month).format('MMMM')}</Text>
+                            <Text style={styles.entryDate}>
+                              Saved {moment(entry.archivedAt).format('DD MMM YYYY, hh:mm A')}
+                            </Text>
+                          </View>
+                          <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+                        </TouchableOpacity>
+                      );
+                    })}
+                </View>
+              ))}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    maxHeight: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: Spacing.md,
+  },
+  modalTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+  },
+  modalSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  emptyText: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: Spacing.lg,
+  },
+  yearLabel: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textSecondary,
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryMonth: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+  entryDate: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+  },
+});
+
+export default PayslipArchiveModal;
@@ -0,0 +1,163 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Card } from './ui/Card';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/theme';
+import {
+  PAYSLIP_GROUP_LABELS,
+  PayslipComponentDiff,
+  PayslipComponentGroup,
+  isFavourableChange,
+} from '../utils/payslipComparison';
+import { formatRupees } from '../utils/payslipTemplate';
+
+interface PayslipComparisonProps {
+  previousLabel: string;
+  currentLabel: string;
+  diffs: PayslipComponentDiff[];
+}
+
+const GROUP_ORDER: PayslipComponentGroup[] = ['net', 'attendance', 'earnings', 'deductions'];
+
+const formatValue = (diff: PayslipComponentDiff, value: number) =>
+  diff.isCurrency ? formatRupees(value) : `${value}`;
+
+const formatChange = (diff: PayslipComponentDiff) => {
+  const sign = diff.change > 0 ? '+' : diff.change < 0 ? '-' : '';
+  const amount = formatValue(diff, Math.abs(diff.change));
+  const percent = diff.percentChange !== null ? ` (${sign}${Math.abs(diff.percentChange)}%)` : '';
+  return `${sign}${amount}${percent}`;
+};
+
+export const PayslipComparison: React.FC<PayslipComparisonProps> = ({ previousLabel, currentLabel, diffs }) => {
+  const changed = diffs.filter(diff => diff.status !== 'unchanged');
+  const appearedOrDisappeared = changed.filter(diff => diff.status === 'added' || diff.status === 'removed');
+
+  const renderDiffRow = (diff: PayslipComponentDiff) => {
+    const isHighlighted = diff.status === 'added' || diff.status === 'removed';
+    const changeColor =
+      diff.status === 'unchanged' ? Colors.textSecondary : isFavourableChange(diff) ? Colors.success : Colors.error;
+
+    return (
+      <View key={diff.key} style={[styles.diffRow, isHighlighted && styles.diffRowHighlighted]}>
+        <View style={styles.diffLabelColumn}>
+          <Text style={styles.diffLabel}>{diff.label}</Text>
+          {isHighlighted && (
+            <View style={[styles.statusBadge, { backgroundColor: Colors.warning + '20' }]}>
+              <Text style={[styles.statusBadgeText, { color: Colors.warning }]}>
+                {diff.status === 'added' ? 'New this month' : 'Not in this month'}
+              </Text>
+            </View>
+          )}
+        </View>
+        <View style={styles.diffValueColumn}>
+          <Text style={styles.diffValues}>
+            {formatValue(diff, diff.previous)} → {formatValue(diff, diff.current)}
+          </Text>
+          <Text style={[styles.diffChange, { color: changeColor }]}>
+            {diff.status === 'unchanged' ? 'No change' : formatChange(diff)}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      <Card style={styles.card}>
+        <View style={styles.periodRow}>
+          <Text style={styles.periodText}>{previousLabel}</Text>
+          <Ionicons name="arrow-forward" size={18} color={Colors.textSecondary} />
+          <Text style={styles.periodText}>{currentLabel}</Text>
+        </View>
+        <Text style={styles.summaryText}>
+          {changed.length === 0
+            ? 'Both payslips are identical.'
+            : `${changed.length} ${changed.length === 1 ? 'component' : 'components'} changed` +
+              (appearedOrDisappeared.length > 0
+                ? `, ${appearedOrDisappeared.length} appeared or disappeared`
+                : '')}
+        </Text>
+      </Card>
+
+      {GROUP_ORDER.map(group => {
+        const groupDiffs = diffs.filter(diff => diff.group === group);
+        if (groupDiffs.length === 0) return null;
+
+        return (
+          <Card key={group} title={PAYSLIP_GROUP_LABELS[group]} style={styles.card}>
+            {groupDiffs.map(renderDiffRow)}
+          </Card>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: Spacing.md,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  periodText: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textPrimary,
+  },
+  summaryText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.xs,
+  },
+  diffRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+  diffRowHighlighted: {
+    backgroundColor: Colors.warning + '10',
+    borderRadius: BorderRadius.sm,
+  },
+  diffLabelColumn: {
+    flex: 1,
+    alignItems: 'flex-start',
+  },
+  diffLabel: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textPrimary,
+  },
+  diffValueColumn: {
+    alignItems: 'flex-end',
+    marginLeft: Spacing.sm,
+  },
+  diffValues: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+  diffChange: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+  statusBadge: {
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    marginTop: 2,
+  },
+  statusBadgeText: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+});
+
+export default PayslipComparison;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import moment from 'moment';
+import { Button } from './ui/Button';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/theme';
+import { PayslipDiscrepancyReport, PayslipIssue } from '../types/api';
+
+interface PayslipIssuesPanelProps {
+  issues: PayslipIssue[];
+  report: PayslipDiscrepancyReport | null;
+  isReporting: boolean;
+  onReport: () => void;
+}
+
+export const PayslipIssuesPanel: React.FC<PayslipIssuesPanelProps> = ({ issues, report, isReporting, onReport }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.panelHeader}>
+        <Ionicons name="warning-outline" size={20} color={Colors.warning} />
+        <Text style={styles.panelTitle}>
+          {issues.length === 1 ? 'This payslip does not add up' : `${issues.length} problems found on this payslip`}
+        </Text>
+      </View>
+
+      {issues.map((issue, index) => (
+        <View key={`${issue.code}_${index}`} style={styles.issueRow}>
+          <Text style={styles.bullet}>•</Text>
+          <Text style={styles.issueText}>{issue.message}</Text>
+        </View>
+      ))}
+
+      {report ? (
+        <Text style={styles.reportedText}>
+          Reported to payroll on {moment(report.reportedAt).format('DD MMM YYYY')}
+          {report.synced ? '' : ' - will be sent when you are online'}
+        </Text>
+      ) : (
+        <Button
+          text="Report Discrepancy"
+          variant="outline"
+          size="sm"
+          icon="flag-outline"
+          onPress={onReport}
+          loading={isReporting}
+          disabled={isReporting}
+          style={styles.reportButton}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: Colors.warning + '15',
+    borderWidth: 1,
+    borderColor: Colors.warning,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  panelHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  panelTitle: {
+    flex: 1,
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Colors.textPrimary,
+  },
+  issueRow: {
+    flexDirection: 'row',
+    marginBottom: Spacing.xs,
+  },
+  bullet: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginRight: Spacing.xs,
+  },
+  issueText: {
+    flex: 1,
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+  },
+  reportedText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: Spacing.sm,
+  },
+  reportButton: {
+    alignSelf: 'flex-start',
+    marginTop: Spacing.sm,
+  },
+});
+
+export default PayslipIssuesPanel;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, Typography, Spacing } from '../constants/theme';
+
+interface PinPadProps {
+  length: number;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  hasError?: boolean;
+  // Bottom-left key, e.g. a biometric unlock button
+  accessory?: { icon: keyof typeof Ionicons.glyphMap; label: string; onPress: () => void };
+}
+
+const DIGIT_ROWS = [
+  ['1', '2', '3'],
+  ['4', '5', '6'],
+  ['7', '8', '9'],
+];
+
+export const PinPad: React.FC<PinPadProps> = ({ length, value, onChange, disabled, hasError, accessory }) => {
+  const handleDigit = (digit: string) => {
+    if (value.length < length) onChange(value + digit);
+  };
+
+  const renderKey = (digit: string) => (
+    <TouchableOpacity
+      key={digit}
+      style={styles.key}
+      onPress={() => handleDigit(digit)}
+      disabled={disabled}
+      accessibilityLabel={digit}
+    >
+      <Text style={[styles.keyText, disabled && styles.disabledText]}>{digit}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <View style={styles.dots}>
+        {Array.from({ length }, (_, index) => (
+          <View
+            key={index}
+            style={[styles.dot, index < value.length && styles.dotFilled, hasError && styles.dotError]}
+          />
+        ))}
+      </View>
+
+      {DIGIT_ROWS.map(row => (
+        <View key={row.join('')} style={styles.row}>
+          {row.map(renderKey)}
+        </View>
+      ))}
+
+      <View style={styles.row}>
+        {accessory ? (
+          <TouchableOpacity
+            style={styles.key}
+            onPress={accessory.onPress}
+            disabled={disabled}
+            accessibilityLabel={accessory.label}
+          >
+            <Ionicons name={accessory.icon} size={28} color={disabled ? Colors.textDisabled : Colors.primary} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.key} />
+        )}
+        {renderKey('0')}
+        <TouchableOpacity
+          style={styles.key}
+          onPress={() => onChange(value.slice(0, -1))}
+          disabled={disabled || value.length === 0}
+          accessibilityLabel="Delete"
+        >
+          <Ionicons name="backspace-outline" size={26} color={Colors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  dots: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+  dot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: Colors.primary,
+  },
+  dotFilled: {
+    backgroundColor: Colors.primary,
+  },
+  dotError: {
+    borderColor: Colors.error,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  key: {
+    width: 72,
+    height: 72,
+    margin: Spacing.sm,
+    borderRadius: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  keyText: {
+    fontSize: Typography.fontSize['2xl'],
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+  disabledText: {
+    color: Colors.textDisabled,
+  },
+});
+
+export default PinPad;
@@ -0,0 +1,365 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import moment from 'moment';
+import { Button } from './ui/Button';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/theme';
+import {
+  REGULARIZATION_REASONS,
+  REGULARIZATION_STATUS_META,
+  getRegularizationReasonLabel,
+} from '../constants/regularizationReasons';
+import { RegularizationReason, RegularizationRequest } from '../types/api';
+import { RegularizationInput } from '../services/regularizationManager';
+import { ATTENDANCE_DATE_FORMAT } from '../utils/attendance';
+import { getErrorMessage } from '../utils/errorHandling';
+
+interface RegularizationModalProps {
+  visible: boolean;
+  record: {
+    date: string; // DD/MM/YYYY
+    checkin?: string;
+    checkout?: string;
+    autocheckout?: boolean;
+  } | null;
+  existingRequest?: RegularizationRequest | null;
+  onClose: () => void;
+  onSubmit: (input: RegularizationInput) => Promise<void>;
+}
+
+const TIME_FORMAT = 'HH:mm';
+
+export const RegularizationModal: React.FC<RegularizationModalProps> = ({
+  visible,
+  record,
+  existingRequest,
+  onClose,
+  onSubmit,
+}) => {
+  const [checkinTime, setCheckinTime] = useState('');
+  const [checkoutTime, setCheckoutTime] = useState('');
+  const [reasonType, setReasonType] = useState<RegularizationReason>('missed_checkout');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Prefill from the punches on record; auto check-outs are the usual thing to correct
+  useEffect(() => {
+    if (!record) return;
+    setCheckinTime(record.checkin ? moment(record.checkin).format(TIME_FORMAT) : '');
+    setCheckoutTime(record.checkout && !record.autocheckout ? moment(record.checkout).format(TIME_FORMAT) : '');
+    setReasonType(!record.checkin ? 'missed_checkin' : record.autocheckout || !record.checkout ? 'missed_checkout' : 'wrong_punch');
+    setReason('');
+    setError(null);
+  }, [record]);
+
+  if (!record) return null;
+
+  const day = moment(record.date, ATTENDANCE_DATE_FORMAT);
+  const isPending = existingRequest?.status === 'pending';
+
+  const toTimestamp = (time: string): string | null => {
+    const parsed = moment(`${record.date} ${time.trim()}`, `${ATTENDANCE_DATE_FORMAT} ${TIME_FORMAT}`, true);
+    return parsed.isValid() ? parsed.toISOString() : null;
+  };
+
+  const handleSubmit = async () => {
+    const correctedCheckin = toTimestamp(checkinTime);
+    const correctedCheckout = toTimestamp(checkoutTime);
+
+    if (!correctedCheckin || !correctedCheckout) {
+      setError('Enter times in 24-hour HH:MM format, e.g. 09:30 and 18:15');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await onSubmit({
+        date: record.date,
+        originalCheckin: record.checkin,
+        originalCheckout: record.checkout,
+        correctedCheckin,
+        correctedCheckout,
+        reasonType,
+        reason,
+      });
+    } catch (submitError) {
+      setError(getErrorMessage(submitError));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderExistingRequest = () => {
+    if (!existingRequest) return null;
+    const meta = REGULARIZATION_STATUS_META[existingRequest.status];
+
+    return (
+      <View style={styles.existingCard}>
+        <View style={styles.existingHeader}>
+          <Text style={styles.sectionLabel}>Last request</Text>
+          <View style={[styles.statusBadge, { backgroundColor: meta.color + '20' }]}>
+            <Text style={[styles.statusBadgeText, { color: meta.color }]}>{meta.label}</Text>
+          </View>
+        </View>
+        <Text style={styles.existingText}>
+          {moment(existingRequest.correctedCheckin).format('hh:mm A')} - {moment(existingRequest.correctedCheckout).format('hh:mm A')}
+        </Text>
+        <Text style={styles.existingText}>
+          {getRegularizationReasonLabel(existingRequest.reasonType)}: {existingRequest.reason}
+        </Text>
+        {existingRequest.reviewerComment ? (
+          <Text style={styles.reviewerText}>HR: {existingRequest.reviewerComment}</Text>
+        ) : null}
+        {!existingRequest.synced && (
+          <Text style={styles.reviewerText}>Waiting to sync - will be sent when you are online</Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.modalOverlay}
+      >
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <View>
+              <Text style={styles.modalTitle}>Regularize Attendance</Text>
+              <Text style={styles.modalSubtitle}>{day.format('dddd, DD MMM YYYY')}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+            <Text style={styles.recordedText}>
+              Recorded: {record.checkin ? moment(record.checkin).format('hh:mm A') : 'No check-in'} -{' '}
+              {record.checkout ? moment(record.checkout).format('hh:mm A') : 'No check-out'}
+              {record.autocheckout ? ' (auto check-out)' : ''}
+            </Text>
+
+            {renderExistingRequest()}
+
+            {!isPending && (
+              <>
+                <View style={styles.timeRow}>
+                  <View style={styles.timeField}>
+                    <Text style={styles.sectionLabel}>Check In</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={checkinTime}
+                      onChangeText={setCheckinTime}
+                      placeholder="09:30"
+                      placeholderTextColor={Colors.textDisabled}
+                      keyboardType="numbers-and-punctuation"
+                      maxLength={5}
+                    />
+                  </View>
+                  <View style={styles.timeField}>
+                    <Text style={styles.sectionLabel}>Check Out</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={checkoutTime}
+                      onChangeText={setCheckoutTime}
+                      placeholder="18:30"
+                      placeholderTextColor={Colors.textDisabled}
+                      keyboardType="numbers-and-punctuation"
+                      maxLength={5}
+                    />
+                  </View>
+                </View>
+
+                <Text style={styles.sectionLabel}>Reason</Text>
+                <View style={styles.reasonChips}>
+                  {REGULARIZATION_REASONS.map(item => (
+                    <TouchableOpacity
+                      key={item.value}
+                      style={[styles.reasonChip, reasonType === item.value && styles.reasonChipSelected]}
+                      onPress={() => setReasonType(item.value)}
+                    >
+                      <Text
+                        style={[styles.reasonChipText, reasonType === item.value && styles.reasonChipTextSelected]}
+                      >
+                        {item.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <TextInput
+                  style={[styles.input, styles.reasonInput]}
+                  value={reason}
+                  onChangeText={setReason}
+                  placeholder="Explain what happened"
+                  placeholderTextColor={Colors.textDisabled}
+                  multiline
+                  maxLength={500}
+                />
+
+                {error && <Text style={styles.errorText}>{error}</Text>}
+
+                <Button
+                  text="Submit Request"
+                  icon="send"
+                  onPress={handleSubmit}
+                  loading={isSubmitting}
+                  disabled={isSubmitting}
+                  fullWidth
+                  style={styles.submitButton}
+                />
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: Spacing.md,
+  },
+  modalTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+  },
+  modalSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  recordedText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.md,
+  },
+  existingCard: {
+    backgroundColor: Colors.surfaceVariant,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  existingHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.xs,
+  },
+  existingText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+    marginTop: 2,
+  },
+  reviewerText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: Spacing.xs,
+  },
+  statusBadge: {
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+  },
+  statusBadgeText: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+  sectionLabel: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.xs,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  timeField: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.fontSize.base,
+    color: Colors.textPrimary,
+    backgroundColor: Colors.surface,
+  },
+  reasonChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  reasonChip: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  reasonChipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  reasonChipText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+  },
+  reasonChipTextSelected: {
+    color: Colors.white,
+  },
+  reasonInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.error,
+    marginTop: Spacing.sm,
+  },
+  submitButton: {
+    marginTop: Spacing.lg,
+  },
+});
+
+export default RegularizationModal;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, Typography, Spacing } from '../constants/theme';
+
+interface SensitiveFieldProps {
+  label: string;
+  value: string | null | undefined;
+  isRevealed: boolean;
+  onToggle: () => void;
+  onCopy: () => void;
+}
+
+export const maskSensitiveValue = (value: string): string => `****${value.slice(-4)}`;
+
+export const SensitiveField: React.FC<SensitiveFieldProps> = ({ label, value, isRevealed, onToggle, onCopy }) => (
+  <View style={styles.dataRow}>
+    <Text style={styles.dataLabel}>{label}:</Text>
+    <Text style={styles.dataValue} selectable={false}>
+      {value ? (isRevealed ? value : maskSensitiveValue(value)) : 'N/A'}
+    </Text>
+    {value ? (
+      <View style={styles.actions}>
+        <TouchableOpacity
+          onPress={onToggle}
+          style={styles.actionButton}
+          accessibilityLabel={isRevealed ? `Hide ${label}` : `Show ${label}`}
+        >
+          <Ionicons name={isRevealed ? 'eye-off-outline' : 'eye-outline'} size={20} color={Colors.primary} />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onCopy} style={styles.actionButton} accessibilityLabel={`Copy ${label}`}>
+          <Ionicons name="copy-outline" size={18} color={Colors.primary} />
+        </TouchableOpacity>
+      </View>
+    ) : null}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  dataRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+  dataLabel: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.textSecondary,
+    flex: 1,
+  },
+  dataValue: {
+    fontSize: Typography.fontSize.base,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+    flex: 1,
+    textAlign: 'right',
+  },
+  actions: {
+    flexDirection: 'row',
+    marginLeft: Spacing.sm,
+  },
+  actionButton: {
+    padding: Spacing.xs,
+  },
+});
+
+export default SensitiveField;
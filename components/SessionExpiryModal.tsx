@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from './ui/Button';
+import { useAuth } from '../contexts/AuthContext';
+import SessionManager, { SessionState } from '../services/sessionManager';
+import { ApiError } from '../services/apiClient';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/theme';
+import { getErrorMessage } from '../utils/errorHandling';
+
+const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Asks the user to sign in again before the session expires, or after the server rejected it.
+ * Requests that hit an expired session are held until this succeeds, then sent again.
+ */
+export const SessionExpiryModal: React.FC = () => {
+  const { isAuthenticated, logout, reauthenticate, isBiometricEnabled } = useAuth();
+  const [session, setSession] = useState<SessionState>(SessionManager.getInstance().getState());
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => SessionManager.getInstance().subscribe(setSession), []);
+
+  // Each new warning is shown again, even if an earlier one was dismissed
+  useEffect(() => {
+    setPassword('');
+    setError(null);
+    if (session.status === 'active') setIsDismissed(false);
+  }, [session.status]);
+
+  useEffect(() => {
+    if (session.status !== 'expiring') return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [session.status]);
+
+  const isExpiring = session.status === 'expiring';
+  const visible = isAuthenticated && (session.status === 'expired' || (isExpiring && !isDismissed));
+
+  const handleSignIn = async (useBiometric: boolean) => {
+    if (!useBiometric && !password) {
+      setError('Enter your password');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await reauthenticate(useBiometric ? undefined : password);
+    } catch (signInError) {
+      setError(
+        signInError instanceof ApiError && signInError.status === 401
+          ? 'Incorrect password'
+          : getErrorMessage(signInError)
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={() => isExpiring && setIsDismissed(true)}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.modalOverlay}
+      >
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Ionicons
+              name={isExpiring ? 'time-outline' : 'lock-closed-outline'}
+              size={24}
+              color={isExpiring ? Colors.warning : Colors.error}
+            />
+            <Text style={styles.modalTitle}>{isExpiring ? 'Your session is ending' : 'Session expired'}</Text>
+          </View>
+
+          <Text style={styles.message}>
+            {isExpiring && session.expiresAt
+              ? `You will be signed out in ${formatCountdown(session.expiresAt - now)}. ` +
+                'Enter your password to stay signed in.'
+              : 'Sign in again to carry on where you left off.'}
+          </Text>
+
+          <TextInput
+            style={[styles.input, error && styles.inputError]}
+            value={password}
+            onChangeText={setPassword}
+            placeholder="Password"
+            placeholderTextColor={Colors.textDisabled}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!isSubmitting}
+            onSubmitEditing={() => handleSignIn(false)}
+          />
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          {isBiometricEnabled && (
+            <TouchableOpacity
+              style={styles.biometricLink}
+              onPress={() => handleSignIn(true)}
+              disabled={isSubmitting}
+            >
+              <Ionicons name="finger-print" size={18} color={Colors.primary} />
+              <Text style={styles.biometricText}>Use fingerprint or face instead</Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.buttonRow}>
+            <Button
+              text={isExpiring ? 'Not Now' : 'Sign Out'}
+              variant="outline"
+              onPress={isExpiring ? () => setIsDismissed(true) : logout}
+              disabled={isSubmitting}
+              style={styles.rowButton}
+            />
+            <Button
+              text={isExpiring ? 'Stay Signed In' : 'Sign In'}
+              icon="log-in-outline"
+              onPress={() => handleSignIn(false)}
+              loading={isSubmitting}
+              disabled={isSubmitting}
+              style={styles.rowButton}
+            />
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  modalTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+  },
+  message: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.md,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.fontSize.base,
+    color: Colors.textPrimary,
+    backgroundColor: Colors.surface,
+  },
+  inputError: {
+    borderColor: Colors.error,
+  },
+  errorText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.error,
+    marginTop: Spacing.xs,
+  },
+  biometricLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  biometricText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  rowButton: {
+    flex: 1,
+  },
+});
+
+export default SessionExpiryModal;
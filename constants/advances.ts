@@ -0,0 +1,17 @@
+// Limits and status labels for staff advance requests
+
+import { AdvanceRequestStatus } from '../types/api';
+import { Colors } from './theme';
+
+export const ADVANCE_LIMITS = {
+  minAmount: 1000,
+  maxAmount: 200000,
+  maxInstallments: 12,
+  minReasonLength: 10,
+};
+
+export const ADVANCE_STATUS_META: Record<AdvanceRequestStatus, { label: string; color: string }> = {
+  pending: { label: 'Pending', color: Colors.warning },
+  approved: { label: 'Approved', color: Colors.success },
+  rejected: { label: 'Rejected', color: Colors.error },
+};
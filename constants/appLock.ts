@@ -0,0 +1,17 @@
+// PIN rules, background timeouts and the failed-attempt lockout ladder for the app lock
+
+export const APP_LOCK_PIN_LENGTH = 4;
+
+export const APP_LOCK_TIMEOUTS: { label: string; ms: number }[] = [
+  { label: 'Immediately', ms: 0 },
+  { label: '1 min', ms: 60 * 1000 },
+  { label: '5 min', ms: 5 * 60 * 1000 },
+  { label: '15 min', ms: 15 * 60 * 1000 },
+];
+
+export const DEFAULT_APP_LOCK_TIMEOUT_MS = 60 * 1000;
+
+// Wrong PINs allowed before each lockout; once every lockout has been served,
+// the next full round of wrong PINs signs the user out
+export const APP_LOCK_ATTEMPTS_PER_ROUND = 5;
+export const APP_LOCK_LOCKOUTS_MS = [30 * 1000, 5 * 60 * 1000];
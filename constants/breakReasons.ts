@@ -0,0 +1,21 @@
+// Break reason categories offered on the dashboard status card
+
+import { Ionicons } from '@expo/vector-icons';
+import { BreakReason } from '../types/api';
+
+export const BREAK_REASONS: {
+  value: BreakReason;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}[] = [
+  { value: 'lunch', label: 'Lunch', icon: 'restaurant-outline' },
+  { value: 'tea', label: 'Tea / Coffee', icon: 'cafe-outline' },
+  { value: 'personal', label: 'Personal', icon: 'person-outline' },
+  { value: 'meeting', label: 'Offsite Meeting', icon: 'people-outline' },
+  { value: 'other', label: 'Other', icon: 'ellipsis-horizontal-circle-outline' },
+];
+
+export const getBreakReasonLabel = (reason: BreakReason): string =>
+  BREAK_REASONS.find(item => item.value === reason)?.label || 'Break';
+
+export default BREAK_REASONS;
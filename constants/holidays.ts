@@ -0,0 +1,42 @@
+// Fixed-date public holidays per work location, used when the holiday
+// calendar cannot be fetched and nothing is cached yet. Festival holidays
+// that move every year only come from the server calendar.
+
+import { WeeklyOffPattern, WeeklyOffPreset } from '../types/api';
+
+// DD/MM without the year
+const NATIONAL_HOLIDAYS: { day: string; name: string }[] = [
+  { day: '26/01', name: 'Republic Day' },
+  { day: '01/05', name: 'May Day' },
+  { day: '15/08', name: 'Independence Day' },
+  { day: '02/10', name: 'Gandhi Jayanti' },
+  { day: '25/12', name: 'Christmas' },
+];
+
+const TAMIL_NADU_HOLIDAYS: { day: string; name: string }[] = [
+  { day: '15/01', name: 'Pongal' },
+  { day: '16/01', name: 'Thiruvalluvar Day' },
+  { day: '14/04', name: 'Tamil New Year' },
+];
+
+export const FIXED_HOLIDAYS: Record<string, { day: string; name: string }[]> = {
+  chennai: [...NATIONAL_HOLIDAYS, ...TAMIL_NADU_HOLIDAYS],
+  coimbatore: [...NATIONAL_HOLIDAYS, ...TAMIL_NADU_HOLIDAYS],
+  bangalore: [...NATIONAL_HOLIDAYS, { day: '01/11', name: 'Kannada Rajyotsava' }],
+};
+
+export const getFixedHolidays = (workLocation?: string) =>
+  FIXED_HOLIDAYS[(workLocation || '').trim().toLowerCase()] || NATIONAL_HOLIDAYS;
+
+export const WEEKLY_OFF_PATTERNS: Record<WeeklyOffPreset, WeeklyOffPattern & { label: string }> = {
+  sunday: { preset: 'sunday', label: 'Sundays', weekdays: [0], saturdayWeeks: [] },
+  saturday_sunday: { preset: 'saturday_sunday', label: 'Saturdays & Sundays', weekdays: [0, 6], saturdayWeeks: [] },
+  alternate_saturday: {
+    preset: 'alternate_saturday',
+    label: 'Sundays, 2nd & 4th Saturdays',
+    weekdays: [0],
+    saturdayWeeks: [2, 4],
+  },
+};
+
+export const DEFAULT_WEEKLY_OFF: WeeklyOffPreset = 'saturday_sunday';
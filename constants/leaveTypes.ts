@@ -0,0 +1,38 @@
+// Leave categories, their display colours and the default yearly entitlement
+
+import { LeaveSession, LeaveStatus, LeaveType } from '../types/api';
+import { Colors } from './theme';
+
+export const LEAVE_TYPES: {
+  value: LeaveType;
+  label: string;
+  color: string;
+  annualQuota: number; // used when the server does not return balances
+}[] = [
+  { value: 'casual', label: 'Casual Leave', color: Colors.primary, annualQuota: 12 },
+  { value: 'sick', label: 'Sick Leave', color: Colors.error, annualQuota: 6 },
+  { value: 'earned', label: 'Earned Leave', color: Colors.success, annualQuota: 15 },
+  { value: 'comp_off', label: 'Comp Off', color: Colors.info, annualQuota: 0 },
+  { value: 'unpaid', label: 'Loss of Pay', color: Colors.gray600, annualQuota: 0 },
+];
+
+export const LEAVE_SESSIONS: { value: LeaveSession; label: string }[] = [
+  { value: 'full_day', label: 'Full Day' },
+  { value: 'first_half', label: 'First Half' },
+  { value: 'second_half', label: 'Second Half' },
+];
+
+export const LEAVE_STATUS_META: Record<LeaveStatus, { label: string; color: string }> = {
+  pending: { label: 'Pending', color: Colors.warning },
+  approved: { label: 'Approved', color: Colors.success },
+  rejected: { label: 'Rejected', color: Colors.error },
+  cancelled: { label: 'Cancelled', color: Colors.textSecondary },
+};
+
+export const getLeaveTypeMeta = (type: LeaveType) =>
+  LEAVE_TYPES.find(item => item.value === type) || LEAVE_TYPES[0];
+
+export const getLeaveSessionLabel = (session: LeaveSession): string =>
+  LEAVE_SESSIONS.find(item => item.value === session)?.label || 'Full Day';
+
+export default LEAVE_TYPES;
@@ -0,0 +1,40 @@
+// WillwareTech Office Location Registry
+// Maps an employee's workLocation to the geofence used for check-in/out.
+// Keys are matched case-insensitively; locations not listed here (e.g. Remote)
+// are not fenced, but the punch coordinates are still sent for auditing.
+
+import { OfficeLocation } from '../types/api';
+
+export const OFFICE_LOCATIONS: Record<string, OfficeLocation> = {
+  chennai: {
+    name: 'Chennai Office',
+    latitude: 13.0418,
+    longitude: 80.2341,
+    radiusMeters: 200,
+    policy: 'warn',
+  },
+  coimbatore: {
+    name: 'Coimbatore Office',
+    latitude: 11.0168,
+    longitude: 76.9558,
+    radiusMeters: 200,
+    policy: 'warn',
+  },
+  bangalore: {
+    name: 'Bangalore Office',
+    latitude: 12.9716,
+    longitude: 77.5946,
+    radiusMeters: 250,
+    policy: 'flag',
+  },
+} as const;
+
+// Punches with a worse accuracy than this are treated as outside the fence
+export const MAX_LOCATION_ACCURACY_METERS = 500;
+
+export const getOfficeLocation = (workLocation?: string | null): OfficeLocation | null => {
+  if (!workLocation) return null;
+  return OFFICE_LOCATIONS[workLocation.trim().toLowerCase()] || null;
+};
+
+export default OFFICE_LOCATIONS;
@@ -0,0 +1,23 @@
+// Reason categories for attendance regularization requests
+
+import { RegularizationReason, RegularizationStatus } from '../types/api';
+import { Colors } from './theme';
+
+export const REGULARIZATION_REASONS: { value: RegularizationReason; label: string }[] = [
+  { value: 'missed_checkout', label: 'Missed Check-out' },
+  { value: 'missed_checkin', label: 'Missed Check-in' },
+  { value: 'wrong_punch', label: 'Wrong Punch' },
+  { value: 'on_duty', label: 'On Duty / Client Visit' },
+  { value: 'other', label: 'Other' },
+];
+
+export const REGULARIZATION_STATUS_META: Record<RegularizationStatus, { label: string; color: string }> = {
+  pending: { label: 'Pending', color: Colors.warning },
+  approved: { label: 'Approved', color: Colors.success },
+  rejected: { label: 'Rejected', color: Colors.error },
+};
+
+export const getRegularizationReasonLabel = (reason: RegularizationReason): string =>
+  REGULARIZATION_REASONS.find(item => item.value === reason)?.label || 'Other';
+
+export default REGULARIZATION_REASONS;
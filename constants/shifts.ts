@@ -0,0 +1,28 @@
+// Shift definitions and the labels used for per-day shift compliance flags
+
+import { AttendanceFlag, ShiftDefinition } from '../types/api';
+import { Colors } from './theme';
+
+export const SHIFTS: Record<string, ShiftDefinition> = {
+  general: { id: 'general', name: 'General Shift', start: '09:30', end: '18:30', graceMinutes: 15, minHours: 8 },
+  morning: { id: 'morning', name: 'Morning Shift', start: '06:00', end: '14:30', graceMinutes: 10, minHours: 8 },
+  evening: { id: 'evening', name: 'Evening Shift', start: '14:00', end: '22:30', graceMinutes: 10, minHours: 8 },
+  night: { id: 'night', name: 'Night Shift', start: '22:00', end: '06:30', graceMinutes: 10, minHours: 8 },
+};
+
+// Used until the employee's assigned shift has been loaded
+export const DEFAULT_SHIFT = SHIFTS.general;
+
+// Net time beyond the scheduled shift length before a day counts as overtime
+export const OVERTIME_THRESHOLD_MINUTES = 30;
+
+export const ATTENDANCE_FLAG_META: Record<AttendanceFlag, { label: string; color: string }> = {
+  on_time: { label: 'On Time', color: Colors.success },
+  late: { label: 'Late', color: Colors.warning },
+  early_exit: { label: 'Early Exit', color: Colors.warning },
+  short_hours: { label: 'Short Hours', color: Colors.error },
+  overtime: { label: 'Overtime', color: Colors.info },
+};
+
+// Display order, most significant first
+export const ATTENDANCE_FLAGS: AttendanceFlag[] = ['late', 'early_exit', 'short_hours', 'overtime', 'on_time'];
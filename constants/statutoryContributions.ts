@@ -0,0 +1,12 @@
+// Employer-side statutory contributions used to derive CTC from the salary structure
+
+export const EMPLOYER_PF = {
+  rate: 12,            // percent of basic pay
+  wageCeiling: 15000,  // monthly basic on which the employer contribution is capped
+  pensionRate: 8.33,   // part of the employer share that goes to EPS, the rest to EPF
+};
+
+export const EMPLOYER_ESI = {
+  rate: 3.25,          // percent of gross pay
+  wageCeiling: 21000,  // employees earning more than this gross per month are not covered
+};
@@ -0,0 +1,92 @@
+// Indian income-tax rules used by the on-device TDS estimator (FY 2025-26 onwards)
+
+import { TaxDeclarations, TaxRegime } from '../types/api';
+
+export interface TaxSlab {
+  upTo: number | null; // upper bound of the slab, null for the top slab
+  rate: number;        // percent
+}
+
+export interface TaxRegimeRules {
+  label: string;
+  slabs: TaxSlab[];
+  standardDeduction: number;
+  rebateIncomeLimit: number; // section 87A: no tax up to this taxable income
+  rebateMax: number;
+  surcharges: { above: number; rate: number }[];
+  allowsDeductions: boolean; // chapter VI-A deductions and exemptions
+}
+
+export const TAX_REGIMES: Record<TaxRegime, TaxRegimeRules> = {
+  new: {
+    label: 'New Regime',
+    slabs: [
+      { upTo: 400000, rate: 0 },
+      { upTo: 800000, rate: 5 },
+      { upTo: 1200000, rate: 10 },
+      { upTo: 1600000, rate: 15 },
+      { upTo: 2000000, rate: 20 },
+      { upTo: 2400000, rate: 25 },
+      { upTo: null, rate: 30 },
+    ],
+    standardDeduction: 75000,
+    rebateIncomeLimit: 1200000,
+    rebateMax: 60000,
+    surcharges: [
+      { above: 20000000, rate: 25 },
+      { above: 10000000, rate: 15 },
+      { above: 5000000, rate: 10 },
+    ],
+    allowsDeductions: false,
+  },
+  old: {
+    label: 'Old Regime',
+    slabs: [
+      { upTo: 250000, rate: 0 },
+      { upTo: 500000, rate: 5 },
+      { upTo: 1000000, rate: 20 },
+      { upTo: null, rate: 30 },
+    ],
+    standardDeduction: 50000,
+    rebateIncomeLimit: 500000,
+    rebateMax: 12500,
+    surcharges: [
+      { above: 50000000, rate: 37 },
+      { above: 20000000, rate: 25 },
+      { above: 10000000, rate: 15 },
+      { above: 5000000, rate: 10 },
+    ],
+    allowsDeductions: true,
+  },
+};
+
+// Health and education cess on tax plus surcharge
+export const TAX_CESS_RATE = 4;
+
+// Statutory caps on the old-regime deductions
+export const DEDUCTION_LIMITS = {
+  section80C: 150000,
+  section80CCD1B: 50000,
+  section80D: 100000,
+  homeLoanInterest: 200000,
+};
+
+export const DECLARATION_FIELDS: { key: keyof TaxDeclarations; label: string; hint: string }[] = [
+  { key: 'section80C', label: '80C Investments', hint: 'PPF, ELSS, LIC, tuition fees (PF is added from payslips)' },
+  { key: 'section80D', label: '80D Health Insurance', hint: 'Premiums for self, family and parents' },
+  { key: 'section80CCD1B', label: '80CCD(1B) NPS', hint: 'Additional NPS contribution, up to ₹50,000' },
+  { key: 'hraExemption', label: 'HRA Exemption', hint: 'Exempt portion of HRA as computed for rent paid' },
+  { key: 'homeLoanInterest', label: 'Home Loan Interest', hint: 'Section 24(b), up to ₹2,00,000' },
+  { key: 'otherDeductions', label: 'Other Deductions', hint: '80E, 80G, 80TTA and similar' },
+  { key: 'otherIncome', label: 'Other Income', hint: 'Interest, rent or other taxable income' },
+];
+
+export const EMPTY_TAX_DECLARATIONS: TaxDeclarations = {
+  section80C: 0,
+  section80D: 0,
+  section80CCD1B: 0,
+  hraExemption: 0,
+  homeLoanInterest: 0,
+  otherDeductions: 0,
+  otherIncome: 0,
+};
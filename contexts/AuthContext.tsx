@@ -1,16 +1,31 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode, useCallback } from 'react';
 import * as LocalAuthentication from 'expo-local-authentication';
-import apiClient from '../services/apiClient';
+import apiClient, { ApiError } from '../services/apiClient';
+import BiometricLoginService from '../services/biometricLogin';
+import PayslipArchive from '../services/payslipArchive';
+import PayslipPdfService from '../services/payslipPdfService';
+import AppLockService from '../services/appLock';
+import SessionManager from '../services/sessionManager';
+import SavedAccountsService from '../services/savedAccounts';
+import CacheManager from '../services/cacheManager';
+import OfflineManager from '../services/offlineManager';
 import { User, AuthState, LoginCredentials } from '../types/api';
+import { AuthenticationError } from '../utils/errorHandling';
 
 // Authentication Context Interface
 interface AuthContextType extends AuthState {
-  login: (credentials: LoginCredentials, rememberMe?: boolean) => Promise<void>;
+  login: (credentials: LoginCredentials, rememberMe?: boolean, enableBiometricLogin?: boolean) => Promise<void>;
+  loginWithBiometric: (username: string) => Promise<void>;
   logout: () => Promise<void>;
-  checkBiometricAuth: () => Promise<boolean>;
-  enableBiometric: () => Promise<void>;
-  disableBiometric: () => Promise<void>;
-  isBiometricEnabled: boolean;
+  // Sign the same user in again when the session expires; biometrics are used when no password is given
+  reauthenticate: (password?: string) => Promise<void>;
+  checkBiometricAuth: (promptMessage?: string) => Promise<boolean>;
+  enableBiometric: (credentials: LoginCredentials) => Promise<void>;
+  disableBiometric: (username?: string) => Promise<void>;
+  forgetAccount: (username: string) => Promise<void>;
+  isBiometricEnabled: boolean;   // biometric sign-in is set up for the signed-in account
+  biometricAccounts: string[];   // usernames with biometric sign-in set up on this device
+  isBiometricSupported: boolean; // the device can hold biometric-protected credentials
   refreshAuth: () => Promise<void>;
   showIntro: boolean;
   completeIntro: () => void;
@@ -43,7 +58,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     error: null,
   });
 
-  const [isBiometricEnabled, setIsBiometricEnabled] = useState(false);
+  const [biometricAccounts, setBiometricAccounts] = useState<string[]>([]);
+  const [isBiometricSupported, setIsBiometricSupported] = useState(false);
   const [showIntro, setShowIntro] = useState(true);
   const [introCompleted, setIntroCompleted] = useState(false);
 
@@ -64,6 +80,20 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuthFast();
   }, []);
 
+  // Offline requests are only replayed with the token of the account that recorded them
+  useEffect(() => {
+    OfflineManager.getInstance().setOwner(authState.user?.id ?? null);
+  }, [authState.user?.id]);
+
+  // The expiry warning ran out without the user signing in again
+  useEffect(
+    () =>
+      SessionManager.getInstance().subscribe(state => {
+        if (state.status === 'ended') logout();
+      }),
+    []
+  );
+
   const initializeAuthFast = async () => {
     try {
       // Import authOptimizer dynamically to avoid circular dependencies
@@ -82,6 +112,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         error: null,
       });
 
+      if (fastAuth.isAuthenticated) {
+        await apiClient.resumeSession();
+      }
+
       // If we should verify in background, do it without blocking UI
       if (fastAuth.shouldVerify && fastAuth.token) {
         verifyAuthInBackground(fastAuth.token, authOptimizer);
@@ -99,16 +133,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const verifyAuthInBackground = async (token: string, authOptimizer: any) => {
     try {
-      const isValid = await authOptimizer.backgroundAuthVerification(token);
+      const verification = await authOptimizer.backgroundAuthVerification(token);
       
-      if (!isValid) {
-        // Token is invalid, logout user
-        console.log('Token verification failed, logging out user');
-        await logout();
-      } else {
+      if (verification === 'invalid') {
+        // Token was rejected, ask the user to sign in again rather than dropping them at the login screen
+        console.log('Token verification failed, asking user to sign in again');
+        SessionManager.getInstance()
+          .waitForReauthentication()
+          .catch(() => undefined);
+      } else if (verification === 'valid') {
         // Update cache with fresh timestamp
         if (authState.user) {
-          await authOptimizer.cacheAuthData(authState.user, token);
+          await authOptimizer.cacheAuthData(authState.user);
         }
       }
     } catch (error) {
@@ -127,9 +163,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         const token = await apiClient.getStoredToken();
         
         if (userData && token) {
+          await apiClient.resumeSession();
+
           // Convert to User interface format
           const user: User = {
             id: userData._id,
+            username: userData.username,
             name: userData.employeeName,
             email: userData.employeeEmail,
             role: 'employee',
@@ -171,18 +210,32 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const checkBiometricSupport = async () => {
     try {
-      const hasHardware = await LocalAuthentication.hasHardwareAsync();
-      const isEnrolled = await LocalAuthentication.isEnrolledAsync();
-      const biometricEnabled = hasHardware && isEnrolled;
-      
-      setIsBiometricEnabled(biometricEnabled);
+      const biometricLogin = BiometricLoginService.getInstance();
+      const [isSupported, enrolments] = await Promise.all([
+        biometricLogin.isSupported(),
+        biometricLogin.getEnrolments(),
+      ]);
+
+      // Biometrics were removed from the device, so the stored credentials can never be unlocked
+      if (enrolments.length > 0 && !isSupported) {
+        await biometricLogin.disable();
+      }
+
+      setIsBiometricSupported(isSupported);
+      setBiometricAccounts(isSupported ? enrolments.map(enrolment => enrolment.username) : []);
     } catch (error) {
       console.error('Biometric check failed:', error);
-      setIsBiometricEnabled(false);
+      setIsBiometricSupported(false);
+      setBiometricAccounts([]);
     }
   };
 
-  const login = async (credentials: LoginCredentials, rememberMe: boolean = false) => {
+  const refreshBiometricAccounts = async () => {
+    const enrolments = await BiometricLoginService.getInstance().getEnrolments();
+    setBiometricAccounts(enrolments.map(enrolment => enrolment.username));
+  };
+
+  const login = async (credentials: LoginCredentials, rememberMe: boolean = false, enableBiometricLogin: boolean = false) => {
     try {
       setAuthState(prev => ({ ...prev, isLoading: true, error: null }));
       
@@ -193,6 +246,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // Convert to User interface format
       const user: User = {
         id: response.data._id,
+        username: response.data.username,
         name: response.data.employeeName,
         email: response.data.employeeEmail,
         role: 'employee',
@@ -214,17 +268,43 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       try {
         const { AuthOptimizer } = await import('../utils/authOptimizer');
         const authOptimizer = AuthOptimizer.getInstance();
-        await authOptimizer.cacheAuthData(user, response.token.tokens);
+        await authOptimizer.cacheAuthData(user);
         console.log('Auth data cached successfully');
       } catch (cacheError) {
         console.error('Failed to cache auth data:', cacheError);
         // Don't fail login if caching fails
       }
 
-      // Store remember me preference
-      if (rememberMe) {
-        // Additional logic for remember me can be added here
-        console.log('Remember me enabled');
+      // Saved under the username on record, so the chooser and stored credentials match however it was typed
+      const account: LoginCredentials = { ...credentials, username: response.data.username || credentials.username };
+
+      if (enableBiometricLogin) {
+        try {
+          await enableBiometric(account);
+        } catch (biometricError) {
+          console.error('Failed to enable biometric sign-in:', biometricError);
+          // Don't fail login if the user cancels the biometric prompt
+        }
+      }
+
+      // Biometric sign-in is offered from the account chooser, so it keeps the account remembered too
+      try {
+        if (rememberMe || enableBiometricLogin) {
+          const dropped = await SavedAccountsService.getInstance().save({
+            username: account.username,
+            name: user.name,
+            employeeId: user.id,
+          });
+          for (const droppedAccount of dropped) {
+            await BiometricLoginService.getInstance().disable(droppedAccount.username);
+          }
+          await refreshBiometricAccounts();
+        } else {
+          // Only the chooser entry goes; biometric sign-in stays until the user turns it off
+          await SavedAccountsService.getInstance().remove(account.username);
+        }
+      } catch (accountError) {
+        console.error('Failed to update saved accounts:', accountError);
       }
       
       console.log('AuthContext: Login completed successfully');
@@ -240,6 +320,52 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const loginWithBiometric = async (username: string) => {
+    let credentials: LoginCredentials;
+    try {
+      credentials = await BiometricLoginService.getInstance().unlock(username);
+    } catch (error) {
+      // Unlocking may have removed invalidated credentials
+      await checkBiometricSupport();
+      throw error;
+    }
+
+    try {
+      await login(credentials, true);
+    } catch (error) {
+      // The password changed since it was stored, so the credentials are useless now
+      if (error instanceof ApiError && (error.status === 400 || error.status === 401)) {
+        await disableBiometric(username);
+      }
+      throw error;
+    }
+  };
+
+  const reauthenticate = async (password?: string) => {
+    const storedUser = await apiClient.getStoredUser();
+    if (!storedUser) {
+      throw new AuthenticationError('Your session has ended. Please sign in again.');
+    }
+
+    const credentials: LoginCredentials =
+      password !== undefined
+        ? { username: storedUser.username, password }
+        : await BiometricLoginService.getInstance().unlock(storedUser.username);
+
+    // Storing the new token restarts the session and releases the requests that were waiting for it
+    const response = await apiClient.login(credentials);
+    setAuthState(prev => ({ ...prev, token: response.token.tokens, error: null }));
+
+    if (authState.user) {
+      try {
+        const { AuthOptimizer } = await import('../utils/authOptimizer');
+        await AuthOptimizer.getInstance().cacheAuthData(authState.user);
+      } catch (cacheError) {
+        console.error('Failed to cache auth data:', cacheError);
+      }
+    }
+  };
+
   const logout = async () => {
     try {
       setAuthState(prev => ({ ...prev, isLoading: true }));
@@ -255,6 +381,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       } catch (cacheError) {
         console.error('Failed to clear auth cache:', cacheError);
       }
+
+      // Payslips archived for offline viewing or shared as PDFs must not outlive the session, nor the app PIN,
+      // and cached responses must not show up for the next account to sign in
+      await PayslipArchive.getInstance().clear();
+      PayslipPdfService.getInstance().clear();
+      await AppLockService.getInstance().clear();
+      await CacheManager.getInstance().clear();
       
       setAuthState({
         isAuthenticated: false,
@@ -273,6 +406,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       } catch (cacheError) {
         console.error('Failed to clear auth cache:', cacheError);
       }
+
+      await PayslipArchive.getInstance().clear();
+      PayslipPdfService.getInstance().clear();
+      await AppLockService.getInstance().clear();
+      await CacheManager.getInstance().clear();
       
       setAuthState({
         isAuthenticated: false,
@@ -284,7 +422,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const checkBiometricAuth = async (): Promise<boolean> => {
+  const checkBiometricAuth = async (promptMessage = 'Authenticate to access WillwareTech'): Promise<boolean> => {
     try {
       const hasHardware = await LocalAuthentication.hasHardwareAsync();
       const isEnrolled = await LocalAuthentication.isEnrolledAsync();
@@ -294,7 +432,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       }
 
       const result = await LocalAuthentication.authenticateAsync({
-        promptMessage: 'Authenticate to access WillwareTech',
+        promptMessage,
         fallbackLabel: 'Use Passcode',
         disableDeviceFallback: false,
       });
@@ -306,33 +444,29 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const enableBiometric = async () => {
+  const enableBiometric = async (credentials: LoginCredentials) => {
     try {
-      const hasHardware = await LocalAuthentication.hasHardwareAsync();
-      const isEnrolled = await LocalAuthentication.isEnrolledAsync();
-      
-      if (hasHardware && isEnrolled) {
-        setIsBiometricEnabled(true);
-        // Store preference in secure storage
-        console.log('Biometric authentication enabled');
-      } else {
-        throw new Error('Biometric authentication not available');
-      }
+      await BiometricLoginService.getInstance().enable(credentials);
+      await refreshBiometricAccounts();
+      console.log('Biometric sign-in enabled');
     } catch (error) {
       console.error('Failed to enable biometric:', error);
       throw error;
     }
   };
 
-  const disableBiometric = async () => {
-    try {
-      setIsBiometricEnabled(false);
-      // Remove preference from secure storage
-      console.log('Biometric authentication disabled');
-    } catch (error) {
-      console.error('Failed to disable biometric:', error);
-      throw error;
-    }
+  const disableBiometric = async (username = authState.user?.username) => {
+    if (!username) return;
+    await BiometricLoginService.getInstance().disable(username);
+    await refreshBiometricAccounts();
+    console.log('Biometric sign-in disabled');
+  };
+
+  // Drop a saved account from the chooser together with its stored credentials
+  const forgetAccount = async (username: string) => {
+    await SavedAccountsService.getInstance().remove(username);
+    await BiometricLoginService.getInstance().disable(username);
+    await refreshBiometricAccounts();
   };
 
   const refreshAuth = async () => {
@@ -347,6 +481,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         if (userData && token) {
           const user: User = {
             id: userData._id,
+            username: userData.username,
             name: userData.employeeName,
             email: userData.employeeEmail,
             role: 'employee',
@@ -377,11 +512,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const contextValue: AuthContextType = {
     ...authState,
     login,
+    loginWithBiometric,
     logout,
+    reauthenticate,
     checkBiometricAuth,
     enableBiometric,
     disableBiometric,
-    isBiometricEnabled,
+    forgetAccount,
+    isBiometricEnabled: !!authState.user && biometricAccounts.includes(authState.user.username),
+    biometricAccounts,
+    isBiometricSupported,
     refreshAuth,
     showIntro,
     completeIntro,
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import AppLockService from '../services/appLock';
+
+/**
+ * Whether the app lock screen should cover the app. A restored session is locked on cold start,
+ * and the app locks again when it comes back after the configured time in the background.
+ * A fresh password sign-in is never locked.
+ *
+ * `isCovered` asks for a blank screen over the app while the lock state is not known yet -
+ * on cold start until the PIN check resolves, and while the app is out of the foreground -
+ * so protected screens are never shown or captured in the app switcher snapshot.
+ */
+export const useAppLock = () => {
+  const { isAuthenticated, isLoading } = useAuth();
+  const [isLocked, setIsLocked] = useState(false);
+  const [isPending, setIsPending] = useState(true);
+  const [isInBackground, setIsInBackground] = useState(false);
+  const coldStartCheckedRef = useRef(false);
+  const backgroundedAtRef = useRef<number | null>(null);
+  const isAuthenticatedRef = useRef(isAuthenticated);
+  const isLockedRef = useRef(isLocked);
+
+  useEffect(() => {
+    isAuthenticatedRef.current = isAuthenticated;
+    if (!isAuthenticated) setIsLocked(false);
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    isLockedRef.current = isLocked;
+  }, [isLocked]);
+
+  // The first settled auth state is the session restored from storage
+  useEffect(() => {
+    if (isLoading || coldStartCheckedRef.current) return;
+    coldStartCheckedRef.current = true;
+
+    // Also primes the cached flag the background handler relies on
+    AppLockService.getInstance()
+      .isEnabled()
+      .then(enabled => {
+        if (isAuthenticated) setIsLocked(enabled);
+        setIsPending(false);
+      });
+  }, [isLoading, isAuthenticated]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', async state => {
+      const appLock = AppLockService.getInstance();
+
+      if (state !== 'active') {
+        // Cover synchronously - the OS takes its snapshot before an await would resolve
+        if (!isAuthenticatedRef.current || isLockedRef.current || !appLock.isEnabledCached()) return;
+        setIsInBackground(true);
+        // Only 'background' starts the timeout: iOS reports 'inactive' while a biometric prompt is showing
+        if (state === 'background' && backgroundedAtRef.current === null) {
+          backgroundedAtRef.current = Date.now();
+        }
+        return;
+      }
+
+      const backgroundedAt = backgroundedAtRef.current;
+      backgroundedAtRef.current = null;
+      if (backgroundedAt !== null && isAuthenticatedRef.current) {
+        const elapsed = Date.now() - backgroundedAt;
+        if ((await appLock.isEnabled()) && elapsed >= (await appLock.getTimeoutMs())) {
+          setIsLocked(true);
+        }
+      }
+      setIsInBackground(false);
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const unlock = useCallback(() => setIsLocked(false), []);
+
+  return { isLocked, isCovered: isPending || isInBackground, unlock };
+};
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import moment from 'moment';
+import BreakManager from '../services/breakManager';
+import { BreakReason, BreakRecord } from '../types/api';
+import { ATTENDANCE_DATE_FORMAT } from '../utils/attendance';
+
+export const useBreakTracker = (employeeId: string | undefined) => {
+  const [todayBreaks, setTodayBreaks] = useState<BreakRecord[]>([]);
+  const [activeBreak, setActiveBreak] = useState<BreakRecord | null>(null);
+  const breakManager = BreakManager.getInstance();
+
+  const loadBreaks = useCallback(async () => {
+    if (!employeeId) {
+      setTodayBreaks([]);
+      setActiveBreak(null);
+      return;
+    }
+    const today = moment().format(ATTENDANCE_DATE_FORMAT);
+    setTodayBreaks(await breakManager.getBreaksForDate(employeeId, today));
+    // May have started before midnight, so it is not always among today's breaks
+    setActiveBreak(await breakManager.getActiveBreak(employeeId));
+  }, [employeeId]);
+
+  useEffect(() => {
+    loadBreaks();
+    return breakManager.subscribe(loadBreaks);
+  }, [loadBreaks]);
+
+  const startBreak = useCallback(
+    async (reason: BreakReason) => {
+      if (!employeeId) throw new Error('User not found. Please log in again.');
+      return breakManager.startBreak(employeeId, reason);
+    },
+    [employeeId]
+  );
+
+  const endBreak = useCallback(async () => {
+    if (!employeeId) throw new Error('User not found. Please log in again.');
+    return breakManager.endBreak(employeeId);
+  }, [employeeId]);
+
+  return {
+    todayBreaks,
+    activeBreak,
+    startBreak,
+    endBreak,
+    reloadBreaks: loadBreaks,
+  };
+};
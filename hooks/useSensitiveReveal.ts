@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import * as ScreenCapture from 'expo-screen-capture';
+import { useAuth } from '../contexts/AuthContext';
+
+const REVEAL_TIMEOUT_MS = 30 * 1000;
+const SCREEN_CAPTURE_KEY = 'sensitive-reveal';
+
+/**
+ * Reveal one masked value at a time, or copy it, after the user authenticates.
+ * The value re-masks after a timeout or when the app leaves the foreground,
+ * and screenshots are blocked while anything is revealed.
+ */
+export const useSensitiveReveal = (timeoutMs: number = REVEAL_TIMEOUT_MS) => {
+  const { checkBiometricAuth } = useAuth();
+  const [revealedKey, setRevealedKey] = useState<string | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const hide = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    setRevealedKey(null);
+  }, []);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state !== 'active') hide();
+    });
+    return () => subscription.remove();
+  }, [hide]);
+
+  useEffect(() => {
+    if (revealedKey) {
+      ScreenCapture.preventScreenCaptureAsync(SCREEN_CAPTURE_KEY).catch(error =>
+        console.error('Failed to block screenshots:', error)
+      );
+    } else {
+      ScreenCapture.allowScreenCaptureAsync(SCREEN_CAPTURE_KEY).catch(error =>
+        console.error('Failed to allow screenshots:', error)
+      );
+    }
+  }, [revealedKey]);
+
+  // Never leave screenshots blocked, or a timer running, after the screen goes away
+  useEffect(
+    () => () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      ScreenCapture.allowScreenCaptureAsync(SCREEN_CAPTURE_KEY).catch(() => undefined);
+    },
+    []
+  );
+
+  /**
+   * Returns false when the user cancels or the device has no biometrics set up
+   */
+  const reveal = useCallback(
+    async (key: string, label: string): Promise<boolean> => {
+      if (!(await checkBiometricAuth(`Authenticate to view your ${label}`))) return false;
+
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(hide, timeoutMs);
+      setRevealedKey(key);
+      return true;
+    },
+    [checkBiometricAuth, hide, timeoutMs]
+  );
+
+  const copy = useCallback(
+    async (value: string, label: string): Promise<boolean> => {
+      if (!(await checkBiometricAuth(`Authenticate to copy your ${label}`))) return false;
+
+      await Clipboard.setStringAsync(value);
+      return true;
+    },
+    [checkBiometricAuth]
+  );
+
+  return { revealedKey, reveal, hide, copy };
+};
@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import apiClient from '../services/apiClient';
+import { DEFAULT_SHIFT } from '../constants/shifts';
+import { ShiftDefinition } from '../types/api';
+
+export const useShiftSchedule = (employeeId: string | undefined) => {
+  const [shift, setShift] = useState<ShiftDefinition>(DEFAULT_SHIFT);
+  const [isAssigned, setIsAssigned] = useState(false);
+
+  useEffect(() => {
+    if (!employeeId) return;
+    let cancelled = false;
+
+    apiClient
+      .getEmployeeShift(employeeId)
+      .then(response => {
+        if (!cancelled && response.data) {
+          setShift(response.data);
+          setIsAssigned(true);
+        }
+      })
+      .catch(error => {
+        // Keep judging days against the default shift
+        console.warn('Shift schedule unavailable, using default shift:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [employeeId]);
+
+  return { shift, isAssigned };
+};
@@ -0,0 +1,188 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import moment from 'moment';
+import apiClient from './apiClient';
+import OfflineManager, { OfflineQueueItem, generateIdempotencyKey } from './offlineManager';
+import { ADVANCE_LIMITS } from '../constants/advances';
+import { AdvanceRequest, MONTH_NAMES, PayrollMonth } from '../types/api';
+import { ValidationError, handleApiError, logError, withRetry } from '../utils/errorHandling';
+import { AdvanceDeduction, AdvanceProjection, getRepaymentHistory, projectRepayment } from '../utils/staffAdvance';
+
+export interface AdvanceInput {
+  amount: number;
+  installments: number;
+  reason: string;
+}
+
+export interface AdvanceOverview {
+  balance: number;
+  history: AdvanceDeduction[]; // oldest first
+  projection: AdvanceProjection | null;
+  unavailableMonths: number; // payslips that could not be loaded, so history may be incomplete
+}
+
+const HISTORY_MONTHS = 12;
+
+class AdvanceManager {
+  private static instance: AdvanceManager;
+
+  static getInstance(): AdvanceManager {
+    if (!AdvanceManager.instance) {
+      AdvanceManager.instance = new AdvanceManager();
+    }
+    return AdvanceManager.instance;
+  }
+
+  constructor() {
+    OfflineManager.getInstance().onFailure('/advance', item => this.handleSyncFailure(item));
+  }
+
+  private getStorageKey(employeeId: string): string {
+    return `advance_requests_${employeeId}`;
+  }
+
+  /**
+   * Outstanding balance from the employee record, with repayments taken from the last year of payslips
+   */
+  async getOverview(employeeId: string): Promise<AdvanceOverview> {
+    const periods = Array.from({ length: HISTORY_MONTHS }, (_, index) =>
+      moment().startOf('month').subtract(HISTORY_MONTHS - 1 - index, 'month')
+    );
+
+    const [details, months] = await Promise.all([
+      withRetry(() => apiClient.getEmployeeView(employeeId), 2),
+      Promise.all(
+        periods.map(async (date): Promise<PayrollMonth> => {
+          const month = MONTH_NAMES[date.month()];
+          try {
+            const response = await apiClient.getPayslip(employeeId, month, date.year().toString());
+            return response.success && response.data
+              ? { month, year: date.year(), status: 'available', payslip: response.data }
+              : { month, year: date.year(), status: 'missing', payslip: null };
+          } catch (error) {
+            logError(handleApiError(error), `Staff advance history ${month} ${date.year()}`);
+            return { month, year: date.year(), status: 'unavailable', payslip: null };
+          }
+        })
+      ),
+    ]);
+
+    const balance = details?.staffAdvance || 0;
+    const history = getRepaymentHistory(months);
+    const lastPayslip = [...months].reverse().find(item => item.payslip);
+    const latest = lastPayslip
+      ? { month: lastPayslip.month, year: lastPayslip.year, amount: lastPayslip.payslip?.staffAdvance || 0 }
+      : null;
+
+    return {
+      balance,
+      history,
+      projection: projectRepayment(balance, history, latest),
+      unavailableMonths: months.filter(item => item.status === 'unavailable').length,
+    };
+  }
+
+  async getRequests(employeeId: string): Promise<AdvanceRequest[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.getStorageKey(employeeId));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading advance requests:', error);
+      return [];
+    }
+  }
+
+  validate(input: AdvanceInput): void {
+    if (!Number.isFinite(input.amount) || input.amount < ADVANCE_LIMITS.minAmount) {
+      throw new ValidationError(`The minimum advance is ₹${ADVANCE_LIMITS.minAmount.toLocaleString('en-IN')}`);
+    }
+    if (input.amount > ADVANCE_LIMITS.maxAmount) {
+      throw new ValidationError(`The maximum advance is ₹${ADVANCE_LIMITS.maxAmount.toLocaleString('en-IN')}`);
+    }
+    if (!Number.isInteger(input.installments) || input.installments < 1 || input.installments > ADVANCE_LIMITS.maxInstallments) {
+      throw new ValidationError(`Repayment can be spread over 1 to ${ADVANCE_LIMITS.maxInstallments} months`);
+    }
+    if (input.reason.trim().length < ADVANCE_LIMITS.minReasonLength) {
+      throw new ValidationError(`Please describe the reason (at least ${ADVANCE_LIMITS.minReasonLength} characters)`);
+    }
+  }
+
+  async submit(employeeId: string, input: AdvanceInput): Promise<{ request: AdvanceRequest; queued: boolean }> {
+    this.validate(input);
+
+    const requests = await this.getRequests(employeeId);
+    if (requests.some(request => request.status === 'pending')) {
+      throw new ValidationError('You already have an advance request waiting for approval');
+    }
+
+    const request: AdvanceRequest = {
+      id: generateIdempotencyKey(),
+      employeeId,
+      amount: Math.round(input.amount),
+      installments: input.installments,
+      reason: input.reason.trim(),
+      status: 'pending',
+      submittedAt: new Date().toISOString(),
+      synced: false,
+    };
+
+    const { queued } = await apiClient.submitAdvanceRequest(request);
+    request.synced = !queued;
+
+    await this.saveRequests(employeeId, [...requests, request]);
+    return { request, queued };
+  }
+
+  /**
+   * Pull request statuses from the server and merge them into the local copy.
+   * Returns the requests that were resolved since the last sync.
+   */
+  async syncStatuses(employeeId: string): Promise<AdvanceRequest[]> {
+    const local = await this.getRequests(employeeId);
+    const response = await apiClient.getAdvanceRequests(employeeId);
+    const remoteById = new Map((response.data || []).map(request => [request.id, request]));
+
+    const newlyResolved: AdvanceRequest[] = [];
+    const merged = local.map(request => {
+      const remote = remoteById.get(request.id);
+      if (!remote) return request;
+
+      if (request.status === 'pending' && remote.status !== 'pending') {
+        newlyResolved.push({ ...request, ...remote });
+      }
+      return {
+        ...request,
+        status: remote.status,
+        resolvedAt: remote.resolvedAt,
+        reviewerComment: remote.reviewerComment,
+        synced: true,
+      };
+    });
+
+    // Advances HR recorded directly, without an app request
+    remoteById.forEach(remote => {
+      if (!local.some(request => request.id === remote.id)) {
+        merged.push({ ...remote, synced: true });
+      }
+    });
+
+    await this.saveRequests(employeeId, merged);
+    return newlyResolved;
+  }
+
+  // A queued advance request the server rejected is dropped, so it no longer shows as pending and can be sent again
+  private async handleSyncFailure(item: OfflineQueueItem): Promise<void> {
+    const failed: AdvanceRequest = item.data;
+    const requests = await this.getRequests(failed.employeeId);
+    await this.saveRequests(failed.employeeId, requests.filter(request => request.id !== failed.id));
+  }
+
+  private async saveRequests(employeeId: string, requests: AdvanceRequest[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.getStorageKey(employeeId), JSON.stringify(requests));
+    } catch (error) {
+      console.error('Error saving advance requests:', error);
+    }
+  }
+}
+
+export default AdvanceManager;
@@ -1,19 +1,40 @@
-import * as SecureStore from 'expo-secure-store';
 import {
   LoginCredentials,
   AuthResponse,
   EmployeeDetailsResponse,
+  ProfileUpdate,
   CheckInRequest,
   CheckinResponse,
   CheckOutRequest,
   CheckoutResponse,
   AllCheckinResponse,
   PayslipResponse,
+  PayslipDiscrepancyReport,
   AllEmployeesResponse,
   Quote,
-  MonthName
+  MonthName,
+  PunchFlag,
+  PunchLocation,
+  PunchOptions,
+  PunchResult,
+  PunchType,
+  BreakRequest,
+  RegularizationRequest,
+  RegularizationListResponse,
+  AdvanceRequest,
+  AdvanceRequestListResponse,
+  LeaveApplication,
+  LeaveBalanceResponse,
+  LeaveListResponse,
+  HolidayListResponse,
+  ShiftResponse
 } from '../types/api';
+import NetInfo from '@react-native-community/netinfo';
 import CacheManager, { CACHE_KEYS } from './cacheManager';
+import OfflineManager, { OfflineRequestMethod, generateIdempotencyKey } from './offlineManager';
+import SessionManager from './sessionManager';
+import CredentialVault from './credentialVault';
+import { AppError } from '../utils/errorHandling';
 
 // API Configuration
 const API_CONFIG = {
@@ -22,11 +43,11 @@ const API_CONFIG = {
   RETRY_ATTEMPTS: 3,
   
   // Token management
-  TOKEN_STORAGE_KEY: 'willware_auth_token',
-  USER_STORAGE_KEY: 'willware_user_data',
-  TOKEN_EXPIRY_HOURS: 24,
+  TOKEN_EXPIRY_HOURS: 24, // assumed lifetime of tokens that are not JWTs
 };
 
+const TOKEN_LIFETIME_MS = API_CONFIG.TOKEN_EXPIRY_HOURS * 60 * 60 * 1000;
+
 // Fallback quotes as specified in the documentation
 const FALLBACK_QUOTES: Quote[] = [
   {
@@ -95,16 +116,19 @@ class ApiClient {
   private baseURL = API_CONFIG.BASE_URL;
   private timeout = API_CONFIG.TIMEOUT;
   private cache = CacheManager.getInstance();
+  private vault = CredentialVault.getInstance();
 
   constructor() {
     // Setup is complete
   }
 
-  // Generic HTTP methods with error handling and retries
+  // Generic HTTP methods with error handling and retries.
+  // A rejected token holds the request until the user signs in again, then sends it once more.
   private async request<T>(
     endpoint: string,
     options: RequestInit = {},
-    useAuth: boolean = true
+    useAuth: boolean = true,
+    isReplay: boolean = false
   ): Promise<T> {
     const url = `${this.baseURL}${endpoint}`;
     
@@ -118,14 +142,12 @@ class ApiClient {
       ...options.headers,
     };
 
-    if (useAuth) {
-      const token = await this.getStoredToken();
-      if (token) {
-        headers = {
-          ...headers,
-          'Authorization': `Bearer ${token}`,
-        };
-      }
+    const token = useAuth ? await this.getStoredToken() : null;
+    if (token) {
+      headers = {
+        ...headers,
+        'Authorization': `Bearer ${token}`,
+      };
     }
 
     const requestOptions: RequestInit = {
@@ -135,6 +157,7 @@ class ApiClient {
     };
 
     let lastError: Error;
+    let lastStatus: number | undefined;
     
     for (let attempt = 1; attempt <= API_CONFIG.RETRY_ATTEMPTS; attempt++) {
       try {
@@ -142,6 +165,7 @@ class ApiClient {
         clearTimeout(timeoutId);
         
         if (!response.ok) {
+          lastStatus = response.status;
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
 
@@ -152,9 +176,12 @@ class ApiClient {
         lastError = error as Error;
         
         // Don't retry on authentication errors
-        if (error instanceof Error && error.message.includes('401')) {
-          await this.clearAuthData();
-          throw new ApiError('Authentication failed. Please login again.');
+        if (lastStatus === 401) {
+          if (!token || isReplay) {
+            throw new ApiError('Authentication failed. Please login again.', 401, 'HTTP_ERROR');
+          }
+          await SessionManager.getInstance().waitForReauthentication();
+          return this.request<T>(endpoint, options, useAuth, true);
         }
         
         // Wait before retry (exponential backoff)
@@ -164,124 +191,92 @@ class ApiClient {
       }
     }
 
-    throw new ApiError(`Network error after ${API_CONFIG.RETRY_ATTEMPTS} attempts: ${lastError!.message}`);
+    throw new ApiError(
+      `Network error after ${API_CONFIG.RETRY_ATTEMPTS} attempts: ${lastError!.message}`,
+      lastStatus,
+      lastStatus ? 'HTTP_ERROR' : 'NETWORK_ERROR'
+    );
   }
 
   private async get<T>(endpoint: string, useAuth: boolean = true): Promise<T> {
     return this.request<T>(endpoint, { method: 'GET' }, useAuth);
   }
 
-  private async post<T>(endpoint: string, data?: any, useAuth: boolean = true): Promise<T> {
+  private async post<T>(
+    endpoint: string,
+    data?: any,
+    useAuth: boolean = true,
+    headers?: Record<string, string>
+  ): Promise<T> {
     return this.request<T>(
       endpoint,
       {
         method: 'POST',
         body: data ? JSON.stringify(data) : undefined,
+        headers,
       },
       useAuth
     );
   }
 
+  private async put<T>(endpoint: string, data?: any, headers?: Record<string, string>): Promise<T> {
+    return this.request<T>(endpoint, {
+      method: 'PUT',
+      body: data ? JSON.stringify(data) : undefined,
+      headers,
+    });
+  }
+
+  private async delete<T>(endpoint: string, headers?: Record<string, string>): Promise<T> {
+    return this.request<T>(endpoint, { method: 'DELETE', headers });
+  }
+
+  // Replay a request recorded by OfflineManager while the device was offline
+  async replayRequest<T>(
+    method: OfflineRequestMethod,
+    endpoint: string,
+    data?: any,
+    idempotencyKey?: string
+  ): Promise<T> {
+    const headers: Record<string, string> = idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {};
+
+    switch (method) {
+      case 'GET':
+        return this.get<T>(endpoint);
+      case 'POST':
+        return this.post<T>(endpoint, data, true, headers);
+      case 'PUT':
+        return this.put<T>(endpoint, data, headers);
+      case 'DELETE':
+        return this.delete<T>(endpoint, headers);
+    }
+  }
+
   // Token Management
   async storeAuthData(authResponse: AuthResponse): Promise<void> {
-    try {
-      // Check if SecureStore is available
-      if (!SecureStore.isAvailableAsync) {
-        // Fallback to AsyncStorage
-        const AsyncStorage = require('@react-native-async-storage/async-storage').default;
-        await AsyncStorage.setItem(API_CONFIG.TOKEN_STORAGE_KEY, authResponse.token.tokens);
-        await AsyncStorage.setItem(API_CONFIG.USER_STORAGE_KEY, JSON.stringify(authResponse.data));
-        return;
-      }
-
-      const isAvailable = await SecureStore.isAvailableAsync();
-      if (!isAvailable) {
-        // Fallback to AsyncStorage
-        const AsyncStorage = require('@react-native-async-storage/async-storage').default;
-        await AsyncStorage.setItem(API_CONFIG.TOKEN_STORAGE_KEY, authResponse.token.tokens);
-        await AsyncStorage.setItem(API_CONFIG.USER_STORAGE_KEY, JSON.stringify(authResponse.data));
-        return;
-      }
+    await this.vault.store(authResponse.token.tokens, authResponse.data);
+    await SessionManager.getInstance().begin(authResponse.token.tokens, TOKEN_LIFETIME_MS);
+  }
 
-      await SecureStore.setItemAsync(API_CONFIG.TOKEN_STORAGE_KEY, authResponse.token.tokens);
-      await SecureStore.setItemAsync(API_CONFIG.USER_STORAGE_KEY, JSON.stringify(authResponse.data));
-    } catch (error) {
-      // Fallback to AsyncStorage if SecureStore fails
-      try {
-        const AsyncStorage = require('@react-native-async-storage/async-storage').default;
-        await AsyncStorage.setItem(API_CONFIG.TOKEN_STORAGE_KEY, authResponse.token.tokens);
-        await AsyncStorage.setItem(API_CONFIG.USER_STORAGE_KEY, JSON.stringify(authResponse.data));
-      } catch (fallbackError) {
-        throw new ApiError('Failed to store authentication data');
-      }
+  // Start expiry tracking for a session restored from storage
+  async resumeSession(): Promise<void> {
+    const token = await this.getStoredToken();
+    if (token) {
+      await SessionManager.getInstance().resume(token, TOKEN_LIFETIME_MS);
     }
   }
 
   async getStoredToken(): Promise<string | null> {
-    try {
-      // Try SecureStore first
-      if (SecureStore.isAvailableAsync) {
-        const isAvailable = await SecureStore.isAvailableAsync();
-        if (isAvailable) {
-          return await SecureStore.getItemAsync(API_CONFIG.TOKEN_STORAGE_KEY);
-        }
-      }
-      
-      // Fallback to AsyncStorage
-      const AsyncStorage = require('@react-native-async-storage/async-storage').default;
-      return await AsyncStorage.getItem(API_CONFIG.TOKEN_STORAGE_KEY);
-    } catch (error) {
-      console.error('Error getting stored token:', error);
-      return null;
-    }
+    return this.vault.getToken();
   }
 
   async getStoredUser(): Promise<AuthResponse['data'] | null> {
-    try {
-      let userData: string | null = null;
-      
-      // Try SecureStore first
-      if (SecureStore.isAvailableAsync) {
-        const isAvailable = await SecureStore.isAvailableAsync();
-        if (isAvailable) {
-          userData = await SecureStore.getItemAsync(API_CONFIG.USER_STORAGE_KEY);
-        }
-      }
-      
-      // Fallback to AsyncStorage if SecureStore didn't work
-      if (!userData) {
-        const AsyncStorage = require('@react-native-async-storage/async-storage').default;
-        userData = await AsyncStorage.getItem(API_CONFIG.USER_STORAGE_KEY);
-      }
-      
-      return userData ? JSON.parse(userData) : null;
-    } catch (error) {
-      console.error('Error getting stored user:', error);
-      return null;
-    }
+    return this.vault.getUser();
   }
 
   async clearAuthData(): Promise<void> {
-    try {
-      // Try SecureStore first
-      if (SecureStore.isAvailableAsync) {
-        const isAvailable = await SecureStore.isAvailableAsync();
-        if (isAvailable) {
-          await SecureStore.deleteItemAsync(API_CONFIG.TOKEN_STORAGE_KEY);
-          await SecureStore.deleteItemAsync(API_CONFIG.USER_STORAGE_KEY);
-        }
-      }
-      
-      // Also clear AsyncStorage fallback
-      const AsyncStorage = require('@react-native-async-storage/async-storage').default;
-      await AsyncStorage.removeItem(API_CONFIG.TOKEN_STORAGE_KEY);
-      await AsyncStorage.removeItem(API_CONFIG.USER_STORAGE_KEY);
-      
-      console.log('Auth data cleared successfully');
-    } catch (error) {
-      console.error('Error clearing auth data:', error);
-      // Ignore errors when clearing
-    }
+    await SessionManager.getInstance().end();
+    await this.vault.clear();
   }
 
   async isAuthenticated(): Promise<boolean> {
@@ -305,7 +300,8 @@ class ApiClient {
       
       return response;
     } catch (error) {
-      if (error instanceof ApiError) {
+      // Also pass on the vault refusing to keep the token unencrypted
+      if (error instanceof ApiError || error instanceof AppError) {
         throw error;
       }
       throw new ApiError('Login failed. Please check your credentials.');
@@ -329,6 +325,17 @@ class ApiClient {
     }
   }
 
+  async updateEmployeeProfile(employeeId: string, update: ProfileUpdate): Promise<void> {
+    try {
+      await this.put(`/update/${employeeId}`, update);
+      // Both /view caches hold the old values
+      await this.cache.remove(`${CACHE_KEYS.USER_PROFILE}_${employeeId}`);
+      await this.cache.remove(`employee_view_${employeeId}`);
+    } catch (error) {
+      throw new ApiError('Failed to update your profile. Please try again.', (error as ApiError).status, (error as ApiError).code);
+    }
+  }
+
   // Get all employees (for dashboard statistics)
   async getAllEmployeesData(): Promise<any> {
     try {
@@ -405,19 +412,228 @@ class ApiClient {
     }
   }
 
-  async checkIn(employeeId: string): Promise<CheckinResponse> {
+  async checkIn(
+    employeeId: string,
+    location?: PunchLocation,
+    options: PunchOptions = {}
+  ): Promise<CheckinResponse> {
     try {
-      return await this.post<CheckinResponse>('/checkin', { id: employeeId });
+      const payload: CheckInRequest = {
+        id: employeeId,
+        location,
+        flag: options.flag,
+        deviceTimestamp: options.deviceTimestamp,
+        offline: options.offline,
+      };
+      return await this.post<CheckinResponse>('/checkin', payload, true, this.idempotencyHeaders(options));
     } catch (error) {
-      throw new ApiError('Check-in failed. Please try again.');
+      throw new ApiError('Check-in failed. Please try again.', (error as ApiError).status, (error as ApiError).code);
     }
   }
 
-  async checkOut(employeeId: string): Promise<CheckoutResponse> {
+  async checkOut(
+    employeeId: string,
+    location?: PunchLocation,
+    options: PunchOptions = {}
+  ): Promise<CheckoutResponse> {
     try {
-      return await this.post<CheckoutResponse>('/checkout', { id: employeeId });
+      const payload: CheckOutRequest = {
+        id: employeeId,
+        location,
+        flag: options.flag,
+        deviceTimestamp: options.deviceTimestamp,
+        offline: options.offline,
+      };
+      return await this.post<CheckoutResponse>('/checkout', payload, true, this.idempotencyHeaders(options));
     } catch (error) {
-      throw new ApiError('Check-out failed. Please try again.');
+      throw new ApiError('Check-out failed. Please try again.', (error as ApiError).status, (error as ApiError).code);
+    }
+  }
+
+  private idempotencyHeaders(options: PunchOptions): Record<string, string> | undefined {
+    return options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined;
+  }
+
+  /**
+   * Check in or out, falling back to the offline queue when there is no connection.
+   * The punch keeps its device timestamp and idempotency key when it is replayed later.
+   */
+  async submitPunch(
+    type: PunchType,
+    employeeId: string,
+    location?: PunchLocation,
+    flag?: PunchFlag
+  ): Promise<PunchResult> {
+    const options: PunchOptions = {
+      deviceTimestamp: new Date().toISOString(),
+      idempotencyKey: generateIdempotencyKey(),
+      flag,
+    };
+
+    if (await this.isOnline()) {
+      try {
+        const response = type === 'checkin'
+          ? await this.checkIn(employeeId, location, options)
+          : await this.checkOut(employeeId, location, options);
+        return { ...response, queued: false };
+      } catch (error) {
+        // Only fall back to the queue when the server could not be reached at all
+        if (!(error instanceof ApiError) || error.code !== 'NETWORK_ERROR') {
+          throw error;
+        }
+      }
+    }
+
+    const payload: CheckInRequest | CheckOutRequest = {
+      id: employeeId,
+      location,
+      flag,
+      deviceTimestamp: options.deviceTimestamp,
+      offline: true,
+    };
+
+    await OfflineManager.getInstance().addToQueue(`/${type}`, 'POST', payload, {
+      id: options.idempotencyKey,
+      label: type === 'checkin' ? 'Check-in' : 'Check-out',
+      punch: { type, employeeId, deviceTimestamp: options.deviceTimestamp! },
+    });
+
+    return {
+      message: `${type === 'checkin' ? 'Check-in' : 'Check-out'} saved offline - it will sync when you are back online`,
+      queued: true,
+    };
+  }
+
+  private async isOnline(): Promise<boolean> {
+    const network = await NetInfo.fetch();
+    return !!network.isConnected && network.isInternetReachable !== false;
+  }
+
+  // POST that is queued for later replay when the server cannot be reached
+  private async postOrQueue<T>(
+    endpoint: string,
+    data: any,
+    label: string // names the request to the user if the replay fails for good
+  ): Promise<{ data: T | null; queued: boolean }> {
+    const idempotencyKey = generateIdempotencyKey();
+
+    if (await this.isOnline()) {
+      try {
+        const response = await this.post<T>(endpoint, data, true, { 'Idempotency-Key': idempotencyKey });
+        return { data: response, queued: false };
+      } catch (error) {
+        if (!(error instanceof ApiError) || error.code !== 'NETWORK_ERROR') {
+          throw error;
+        }
+      }
+    }
+
+    await OfflineManager.getInstance().addToQueue(endpoint, 'POST', data, { id: idempotencyKey, label });
+    return { data: null, queued: true };
+  }
+
+  // Break Endpoints
+  async startBreak(request: BreakRequest): Promise<{ queued: boolean }> {
+    try {
+      const { queued } = await this.postOrQueue<{ message: string }>('/breakstart', request, 'Break start');
+      return { queued };
+    } catch (error) {
+      throw new ApiError('Failed to start break. Please try again.', (error as ApiError).status, (error as ApiError).code);
+    }
+  }
+
+  async endBreak(request: BreakRequest): Promise<{ queued: boolean }> {
+    try {
+      const { queued } = await this.postOrQueue<{ message: string }>('/breakend', request, 'Break end');
+      return { queued };
+    } catch (error) {
+      throw new ApiError('Failed to end break. Please try again.', (error as ApiError).status, (error as ApiError).code);
+    }
+  }
+
+  // Attendance Regularization Endpoints
+  async submitRegularization(request: RegularizationRequest): Promise<{ queued: boolean }> {
+    try {
+      const { queued } = await this.postOrQueue<{ message: string }>('/regularization', request, 'Regularization request');
+      return { queued };
+    } catch (error) {
+      throw new ApiError('Failed to submit regularization request. Please try again.', (error as ApiError).status, (error as ApiError).code);
+    }
+  }
+
+  async getRegularizations(employeeId: string): Promise<RegularizationListResponse> {
+    try {
+      return await this.get<RegularizationListResponse>(`/regularization/${employeeId}`);
+    } catch (error) {
+      throw new ApiError('Failed to fetch regularization requests');
+    }
+  }
+
+  // Leave Endpoints
+  async getLeaveBalances(employeeId: string): Promise<LeaveBalanceResponse> {
+    try {
+      return await this.cache.getOrSet(
+        CACHE_KEYS.LEAVE_BALANCE(employeeId),
+        () => this.get<LeaveBalanceResponse>(`/leave/balance/${employeeId}`),
+        5 * 60 * 1000 // 5 minutes cache
+      );
+    } catch (error) {
+      throw new ApiError('Failed to fetch leave balances');
+    }
+  }
+
+  async getLeaveApplications(employeeId: string): Promise<LeaveListResponse> {
+    try {
+      return await this.get<LeaveListResponse>(`/leave/${employeeId}`);
+    } catch (error) {
+      throw new ApiError('Failed to fetch leave applications');
+    }
+  }
+
+  async applyLeave(application: LeaveApplication): Promise<LeaveApplication> {
+    try {
+      const response = await this.post<{ data?: LeaveApplication }>('/leave/apply', application, true, {
+        'Idempotency-Key': application.id,
+      });
+      await this.cache.remove(CACHE_KEYS.LEAVE_BALANCE(application.employeeId));
+      return response.data || application;
+    } catch (error) {
+      throw new ApiError('Failed to apply for leave. Please try again.', (error as ApiError).status, (error as ApiError).code);
+    }
+  }
+
+  async cancelLeave(employeeId: string, applicationId: string): Promise<void> {
+    try {
+      await this.post('/leave/cancel', { id: employeeId, applicationId });
+      await this.cache.remove(CACHE_KEYS.LEAVE_BALANCE(employeeId));
+    } catch (error) {
+      throw new ApiError('Failed to cancel leave. Please try again.', (error as ApiError).status, (error as ApiError).code);
+    }
+  }
+
+  // Shift Endpoints
+  async getEmployeeShift(employeeId: string): Promise<ShiftResponse> {
+    try {
+      return await this.cache.getOrSet(
+        CACHE_KEYS.SHIFT(employeeId),
+        () => this.get<ShiftResponse>(`/shift/${employeeId}`),
+        12 * 60 * 60 * 1000 // 12 hours cache, shift assignments rarely change
+      );
+    } catch (error) {
+      throw new ApiError('Failed to fetch shift schedule');
+    }
+  }
+
+  // Holiday Calendar Endpoints
+  async getHolidays(workLocation: string, year: number): Promise<HolidayListResponse> {
+    try {
+      return await this.cache.getOrSet(
+        CACHE_KEYS.HOLIDAYS(workLocation, year),
+        () => this.get<HolidayListResponse>(`/holidays?location=${encodeURIComponent(workLocation)}&year=${year}`),
+        30 * 24 * 60 * 60 * 1000 // 30 days cache so the calendar is available offline
+      );
+    } catch (error) {
+      throw new ApiError('Failed to fetch holiday calendar');
     }
   }
 
@@ -442,6 +658,33 @@ class ApiClient {
     }
   }
 
+  async reportPayslipDiscrepancy(report: PayslipDiscrepancyReport): Promise<{ queued: boolean }> {
+    try {
+      const { queued } = await this.postOrQueue<{ message: string }>('/payslip/discrepancy', report, 'Payslip discrepancy report');
+      return { queued };
+    } catch (error) {
+      throw new ApiError('Failed to report payslip discrepancy. Please try again.', (error as ApiError).status, (error as ApiError).code);
+    }
+  }
+
+  // Staff Advance Endpoints
+  async submitAdvanceRequest(request: AdvanceRequest): Promise<{ queued: boolean }> {
+    try {
+      const { queued } = await this.postOrQueue<{ message: string }>('/advance', request, 'Advance request');
+      return { queued };
+    } catch (error) {
+      throw new ApiError('Failed to submit advance request. Please try again.', (error as ApiError).status, (error as ApiError).code);
+    }
+  }
+
+  async getAdvanceRequests(employeeId: string): Promise<AdvanceRequestListResponse> {
+    try {
+      return await this.get<AdvanceRequestListResponse>(`/advance/${employeeId}`);
+    } catch (error) {
+      throw new ApiError('Failed to fetch advance requests');
+    }
+  }
+
   // Employee Profile Lookup
   async getAllEmployees(): Promise<AllEmployeesResponse> {
     try {
@@ -528,7 +771,7 @@ class ApiClient {
 }
 
 // Custom API Error class
-class ApiError extends Error {
+export class ApiError extends Error {
   constructor(message: string, public status?: number, public code?: string) {
     super(message);
     this.name = 'ApiError';
@@ -0,0 +1,183 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import {
+  APP_LOCK_ATTEMPTS_PER_ROUND,
+  APP_LOCK_LOCKOUTS_MS,
+  APP_LOCK_PIN_LENGTH,
+  DEFAULT_APP_LOCK_TIMEOUT_MS,
+} from '../constants/appLock';
+import { ValidationError } from '../utils/errorHandling';
+
+// Only a salted hash of the PIN is kept, never the PIN itself
+const PIN_KEY = 'app_lock_pin';
+const TIMEOUT_KEY = 'app_lock_timeout';
+// Kept in SecureStore too, so restarting the app does not reset the failed-attempt count
+const ATTEMPTS_KEY = 'app_lock_attempts';
+
+interface StoredPin {
+  hash: string;
+  salt: string;
+}
+
+interface AttemptState {
+  failedAttempts: number;
+  lockouts: number;           // lockouts served so far
+  lockedUntil: number | null; // epoch ms
+}
+
+export type PinCheckResult =
+  | { status: 'unlocked' }
+  | { status: 'invalid'; attemptsLeft: number; signsOutNext: boolean }
+  | { status: 'locked_out'; lockedUntil: number }
+  | { status: 'signed_out' };
+
+const INITIAL_ATTEMPTS: AttemptState = { failedAttempts: 0, lockouts: 0, lockedUntil: null };
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+class AppLockService {
+  private static instance: AppLockService;
+  // Last known state of the PIN, so the app can be covered as it leaves the foreground without awaiting SecureStore
+  private enabled = false;
+
+  static getInstance(): AppLockService {
+    if (!AppLockService.instance) {
+      AppLockService.instance = new AppLockService();
+    }
+    return AppLockService.instance;
+  }
+
+  /**
+   * The app lock is on once a PIN has been set; biometrics are offered on top of it
+   */
+  async isEnabled(): Promise<boolean> {
+    try {
+      this.enabled = !!(await SecureStore.getItemAsync(PIN_KEY));
+    } catch (error) {
+      console.error('Error checking app lock:', error);
+      this.enabled = false;
+    }
+    return this.enabled;
+  }
+
+  /**
+   * The enabled state as of the last check or change, for callers that cannot wait
+   */
+  isEnabledCached(): boolean {
+    return this.enabled;
+  }
+
+  async setPin(pin: string): Promise<void> {
+    if (!new RegExp(`^\\d{${APP_LOCK_PIN_LENGTH}}$`).test(pin)) {
+      throw new ValidationError(`PIN must be ${APP_LOCK_PIN_LENGTH} digits`);
+    }
+
+    const salt = toHex(Crypto.getRandomBytes(16));
+    const stored: StoredPin = { hash: await this.hashPin(pin, salt), salt };
+    await SecureStore.setItemAsync(PIN_KEY, JSON.stringify(stored), {
+      keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+    });
+    this.enabled = true;
+    await this.resetAttempts();
+  }
+
+  async getTimeoutMs(): Promise<number> {
+    try {
+      const stored = await SecureStore.getItemAsync(TIMEOUT_KEY);
+      return stored !== null ? Number(stored) : DEFAULT_APP_LOCK_TIMEOUT_MS;
+    } catch (error) {
+      console.error('Error loading app lock timeout:', error);
+      return DEFAULT_APP_LOCK_TIMEOUT_MS;
+    }
+  }
+
+  async setTimeoutMs(timeoutMs: number): Promise<void> {
+    await SecureStore.setItemAsync(TIMEOUT_KEY, String(timeoutMs));
+  }
+
+  /**
+   * When a lockout is running, the time it ends; null when a PIN can be entered
+   */
+  async getLockedUntil(): Promise<number | null> {
+    const { lockedUntil } = await this.getAttempts();
+    return lockedUntil && lockedUntil > Date.now() ? lockedUntil : null;
+  }
+
+  /**
+   * Check a PIN and record the outcome. Each full round of wrong PINs starts a longer lockout,
+   * and a wrong round after the last lockout clears the app lock so the caller can sign out.
+   */
+  async verifyPin(pin: string): Promise<PinCheckResult> {
+    const stored = await SecureStore.getItemAsync(PIN_KEY);
+    if (!stored) return { status: 'unlocked' };
+
+    const attempts = await this.getAttempts();
+    if (attempts.lockedUntil && attempts.lockedUntil > Date.now()) {
+      return { status: 'locked_out', lockedUntil: attempts.lockedUntil };
+    }
+
+    const { hash, salt }: StoredPin = JSON.parse(stored);
+    if ((await this.hashPin(pin, salt)) === hash) {
+      await this.resetAttempts();
+      return { status: 'unlocked' };
+    }
+
+    const failedAttempts = attempts.failedAttempts + 1;
+    const signsOutNext = attempts.lockouts >= APP_LOCK_LOCKOUTS_MS.length;
+
+    if (failedAttempts < APP_LOCK_ATTEMPTS_PER_ROUND) {
+      await this.saveAttempts({ ...attempts, failedAttempts, lockedUntil: null });
+      return { status: 'invalid', attemptsLeft: APP_LOCK_ATTEMPTS_PER_ROUND - failedAttempts, signsOutNext };
+    }
+
+    if (signsOutNext) {
+      await this.clear();
+      return { status: 'signed_out' };
+    }
+
+    const lockedUntil = Date.now() + APP_LOCK_LOCKOUTS_MS[attempts.lockouts];
+    await this.saveAttempts({ failedAttempts: 0, lockouts: attempts.lockouts + 1, lockedUntil });
+    return { status: 'locked_out', lockedUntil };
+  }
+
+  /**
+   * A successful biometric unlock proves the owner is back, so the wrong PINs are forgiven
+   */
+  async resetAttempts(): Promise<void> {
+    await this.saveAttempts(INITIAL_ATTEMPTS);
+  }
+
+  /**
+   * Remove the PIN and its settings, on sign-out or when the user turns the lock off
+   */
+  async clear(): Promise<void> {
+    this.enabled = false;
+    try {
+      await SecureStore.deleteItemAsync(PIN_KEY);
+      await SecureStore.deleteItemAsync(TIMEOUT_KEY);
+      await SecureStore.deleteItemAsync(ATTEMPTS_KEY);
+    } catch (error) {
+      console.error('Error clearing app lock:', error);
+    }
+  }
+
+  private async hashPin(pin: string, salt: string): Promise<string> {
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+  }
+
+  private async getAttempts(): Promise<AttemptState> {
+    try {
+      const stored = await SecureStore.getItemAsync(ATTEMPTS_KEY);
+      return stored ? JSON.parse(stored) : INITIAL_ATTEMPTS;
+    } catch (error) {
+      console.error('Error loading app lock attempts:', error);
+      return INITIAL_ATTEMPTS;
+    }
+  }
+
+  private async saveAttempts(state: AttemptState): Promise<void> {
+    await SecureStore.setItemAsync(ATTEMPTS_KEY, JSON.stringify(state));
+  }
+}
+
+export default AppLockService;
@@ -0,0 +1,157 @@
+import * as SecureStore from 'expo-secure-store';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { LoginCredentials } from '../types/api';
+import { AppError, AuthenticationError } from '../utils/errorHandling';
+
+// One credential per account, each stored with requireAuthentication, so the keystore only releases it
+// after a biometric check and the OS invalidates it when fingerprints or faces are added or removed
+const CREDENTIALS_KEY_PREFIX = 'biometric_login_credentials';
+// Readable without a prompt, so the login screen knows which accounts can use biometric sign-in
+const ENROLMENTS_KEY = 'biometric_login_enrolments';
+// The single enrolment kept before several accounts could be saved; its credentials sit at the bare prefix
+const LEGACY_ENROLMENT_KEY = 'biometric_login_enrolment';
+
+export interface BiometricEnrolment {
+  username: string;
+  enabledAt: string;
+  credentialsKey: string;
+}
+
+// SecureStore keys only allow letters, digits, '.', '-' and '_'
+const getCredentialsKey = (username: string): string =>
+  `${CREDENTIALS_KEY_PREFIX}_${username.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+
+class BiometricLoginService {
+  private static instance: BiometricLoginService;
+
+  static getInstance(): BiometricLoginService {
+    if (!BiometricLoginService.instance) {
+      BiometricLoginService.instance = new BiometricLoginService();
+    }
+    return BiometricLoginService.instance;
+  }
+
+  /**
+   * Whether this device can hold a biometric-protected credential at all
+   */
+  async isSupported(): Promise<boolean> {
+    try {
+      const [hasHardware, isEnrolled] = await Promise.all([
+        LocalAuthentication.hasHardwareAsync(),
+        LocalAuthentication.isEnrolledAsync(),
+      ]);
+      return hasHardware && isEnrolled && SecureStore.canUseBiometricAuthentication();
+    } catch (error) {
+      console.error('Biometric support check failed:', error);
+      return false;
+    }
+  }
+
+  async getEnrolments(): Promise<BiometricEnrolment[]> {
+    try {
+      const stored = await SecureStore.getItemAsync(ENROLMENTS_KEY);
+      if (stored) return JSON.parse(stored);
+
+      const legacy = await SecureStore.getItemAsync(LEGACY_ENROLMENT_KEY);
+      if (!legacy) return [];
+
+      const { username, enabledAt } = JSON.parse(legacy);
+      const enrolments: BiometricEnrolment[] = [{ username, enabledAt, credentialsKey: CREDENTIALS_KEY_PREFIX }];
+      await this.saveEnrolments(enrolments);
+      await SecureStore.deleteItemAsync(LEGACY_ENROLMENT_KEY);
+      return enrolments;
+    } catch (error) {
+      console.error('Error loading biometric enrolments:', error);
+      return [];
+    }
+  }
+
+  async getEnrolment(username: string): Promise<BiometricEnrolment | null> {
+    const enrolments = await this.getEnrolments();
+    return enrolments.find(enrolment => enrolment.username === username) || null;
+  }
+
+  async enable(credentials: LoginCredentials): Promise<void> {
+    if (!(await this.isSupported())) {
+      throw new AppError('Set up fingerprint or face unlock on this device first', 'BIOMETRIC_UNAVAILABLE');
+    }
+
+    const credentialsKey = getCredentialsKey(credentials.username);
+    await SecureStore.setItemAsync(credentialsKey, JSON.stringify(credentials), {
+      requireAuthentication: true,
+      authenticationPrompt: 'Confirm to turn on biometric sign-in',
+      keychainAccessible: SecureStore.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+    });
+
+    // Re-enabling an account moves a legacy credential to the per-account key
+    const previous = await this.getEnrolment(credentials.username);
+    if (previous && previous.credentialsKey !== credentialsKey) {
+      await SecureStore.deleteItemAsync(previous.credentialsKey);
+    }
+
+    const enrolments = (await this.getEnrolments()).filter(enrolment => enrolment.username !== credentials.username);
+    await this.saveEnrolments([
+      ...enrolments,
+      { username: credentials.username, enabledAt: new Date().toISOString(), credentialsKey },
+    ]);
+  }
+
+  /**
+   * Prompt for biometrics and return the credentials stored for the account.
+   * A changed enrolment removes the credentials, so the password has to be entered again.
+   */
+  async unlock(username: string): Promise<LoginCredentials> {
+    const enrolment = await this.getEnrolment(username);
+    if (!enrolment) {
+      throw new AppError('Biometric sign-in is not turned on for this account', 'BIOMETRIC_NOT_ENABLED');
+    }
+    if (!(await this.isSupported())) {
+      await this.disable();
+      throw new AuthenticationError('Biometrics were removed from this device. Please sign in with your password.');
+    }
+
+    let stored: string | null;
+    try {
+      stored = await SecureStore.getItemAsync(enrolment.credentialsKey, {
+        requireAuthentication: true,
+        authenticationPrompt: 'Sign in to WillwareTech',
+      });
+    } catch (error) {
+      throw new AppError('Biometric authentication was cancelled or failed', 'BIOMETRIC_CANCELLED', error);
+    }
+
+    if (!stored) {
+      await this.disable(username);
+      throw new AuthenticationError(
+        'Your fingerprints or face changed since biometric sign-in was turned on. Please sign in with your password.'
+      );
+    }
+    return JSON.parse(stored);
+  }
+
+  /**
+   * Remove one account's stored credentials, or every account's when no username is given
+   */
+  async disable(username?: string): Promise<void> {
+    try {
+      const enrolments = await this.getEnrolments();
+      const removed = username ? enrolments.filter(enrolment => enrolment.username === username) : enrolments;
+      for (const enrolment of removed) {
+        await SecureStore.deleteItemAsync(enrolment.credentialsKey);
+      }
+      await this.saveEnrolments(enrolments.filter(enrolment => !removed.includes(enrolment)));
+    } catch (error) {
+      console.error('Error removing biometric credentials:', error);
+    }
+  }
+
+  private async saveEnrolments(enrolments: BiometricEnrolment[]): Promise<void> {
+    if (enrolments.length === 0) {
+      await SecureStore.deleteItemAsync(ENROLMENTS_KEY);
+      return;
+    }
+    await SecureStore.setItemAsync(ENROLMENTS_KEY, JSON.stringify(enrolments));
+  }
+}
+
+export default BiometricLoginService;
@@ -0,0 +1,179 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import moment from 'moment';
+import apiClient from './apiClient';
+import OfflineManager, { OfflineQueueItem, generateIdempotencyKey } from './offlineManager';
+import { BreakReason, BreakRecord, BreakRequest } from '../types/api';
+import { ATTENDANCE_DATE_FORMAT } from '../utils/attendance';
+import { ValidationError } from '../utils/errorHandling';
+
+// Breaks per attendance date (DD/MM/YYYY)
+type BreakLog = Record<string, BreakRecord[]>;
+
+type BreakListener = () => void;
+
+class BreakManager {
+  private static instance: BreakManager;
+  private readonly retentionDays = 120;
+  private listeners = new Set<BreakListener>();
+
+  static getInstance(): BreakManager {
+    if (!BreakManager.instance) {
+      BreakManager.instance = new BreakManager();
+    }
+    return BreakManager.instance;
+  }
+
+  constructor() {
+    const offlineManager = OfflineManager.getInstance();
+    offlineManager.onFailure('/breakstart', item => this.handleSyncFailure(item));
+    offlineManager.onFailure('/breakend', item => this.handleSyncFailure(item));
+  }
+
+  private getStorageKey(employeeId: string): string {
+    return `breaks_${employeeId}`;
+  }
+
+  subscribe(listener: BreakListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async getBreakLog(employeeId: string): Promise<BreakLog> {
+    try {
+      const stored = await AsyncStorage.getItem(this.getStorageKey(employeeId));
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error loading breaks:', error);
+      return {};
+    }
+  }
+
+  async getBreaksForDate(employeeId: string, date: string): Promise<BreakRecord[]> {
+    const log = await this.getBreakLog(employeeId);
+    return log[date] || [];
+  }
+
+  /**
+   * The break still running, whichever day it started on - one begun before midnight
+   * or left open on an earlier day still has to be ended
+   */
+  async getActiveBreak(employeeId: string): Promise<BreakRecord | null> {
+    return this.findActiveBreak(await this.getBreakLog(employeeId))?.record || null;
+  }
+
+  async startBreak(employeeId: string, reason: BreakReason): Promise<{ record: BreakRecord; queued: boolean }> {
+    if (await this.getActiveBreak(employeeId)) {
+      throw new ValidationError('You are already on a break');
+    }
+
+    const date = moment().format(ATTENDANCE_DATE_FORMAT);
+    const record: BreakRecord = {
+      id: generateIdempotencyKey(),
+      reason,
+      start: new Date().toISOString(),
+    };
+
+    // Record locally first so the timer survives restarts and offline use
+    const log = await this.getBreakLog(employeeId);
+    log[date] = [...(log[date] || []), record];
+    await this.saveBreakLog(employeeId, log);
+
+    try {
+      const { queued } = await apiClient.startBreak({
+        id: employeeId,
+        breakId: record.id,
+        date,
+        reason,
+        start: record.start,
+      });
+      return { record, queued };
+    } catch (error) {
+      // The server rejected the break - roll back so local and server state agree
+      log[date] = log[date].filter(item => item.id !== record.id);
+      await this.saveBreakLog(employeeId, log);
+      throw error;
+    }
+  }
+
+  async endBreak(employeeId: string): Promise<{ record: BreakRecord; queued: boolean } | null> {
+    const log = await this.getBreakLog(employeeId);
+    const found = this.findActiveBreak(log);
+
+    if (!found) {
+      return null;
+    }
+    const { date, record: active } = found;
+
+    active.end = new Date().toISOString();
+    await this.saveBreakLog(employeeId, log);
+
+    try {
+      const { queued } = await apiClient.endBreak({
+        id: employeeId,
+        breakId: active.id,
+        date,
+        end: active.end,
+      });
+      return { record: active, queued };
+    } catch (error) {
+      // The server rejected the end - reopen the break so local and server state agree
+      delete active.end;
+      await this.saveBreakLog(employeeId, log);
+      throw error;
+    }
+  }
+
+  async clear(employeeId: string): Promise<void> {
+    await AsyncStorage.removeItem(this.getStorageKey(employeeId));
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Most recent day first
+  private findActiveBreak(log: BreakLog): { date: string; record: BreakRecord } | null {
+    const dates = Object.keys(log).sort(
+      (a, b) => moment(b, ATTENDANCE_DATE_FORMAT).valueOf() - moment(a, ATTENDANCE_DATE_FORMAT).valueOf()
+    );
+    for (const date of dates) {
+      const record = log[date].find(item => !item.end);
+      if (record) return { date, record };
+    }
+    return null;
+  }
+
+  // A queued start or end the server rejected is undone, the same as when it is rejected online
+  private async handleSyncFailure(item: OfflineQueueItem): Promise<void> {
+    const request: BreakRequest = item.data;
+    const log = await this.getBreakLog(request.id);
+    const breaks = log[request.date] || [];
+
+    if (item.endpoint === '/breakstart') {
+      log[request.date] = breaks.filter(record => record.id !== request.breakId);
+    } else {
+      const ended = breaks.find(record => record.id === request.breakId);
+      if (ended) delete ended.end;
+    }
+    await this.saveBreakLog(request.id, log);
+  }
+
+  private async saveBreakLog(employeeId: string, log: BreakLog): Promise<void> {
+    // Drop days older than the retention window to keep storage small
+    const cutoff = moment().subtract(this.retentionDays, 'days');
+    const trimmed: BreakLog = {};
+    Object.keys(log).forEach(date => {
+      if (moment(date, ATTENDANCE_DATE_FORMAT).isSameOrAfter(cutoff, 'day')) {
+        trimmed[date] = log[date];
+      }
+    });
+
+    try {
+      await AsyncStorage.setItem(this.getStorageKey(employeeId), JSON.stringify(trimmed));
+    } catch (error) {
+      console.error('Error saving breaks:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default BreakManager;
@@ -152,6 +152,9 @@ export const CACHE_KEYS = {
   ATTENDANCE_SUMMARY: 'attendance_summary',
   PAYSLIP_LIST: 'payslip_list',
   PAYSLIP: (employeeId: string, month: string, year: string) => `payslip_${employeeId}_${month}_${year}`,
+  LEAVE_BALANCE: (employeeId: string) => `leave_balance_${employeeId}`,
+  HOLIDAYS: (workLocation: string, year: number) => `holidays_${workLocation.toLowerCase()}_${year}`,
+  SHIFT: (employeeId: string) => `shift_${employeeId}`,
   QUOTES: 'motivational_quotes',
   DASHBOARD_STATS: 'dashboard_stats'
 } as const;
\ No newline at end of file
@@ -0,0 +1,207 @@
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuthResponse } from '../types/api';
+import { AppError } from '../utils/errorHandling';
+
+const TOKEN_KEY = 'willware_auth_token';
+const USER_KEY = 'willware_user_data';
+// Not a secret itself, so it lives in AsyncStorage where every platform can read it
+const ALLOW_UNENCRYPTED_KEY = 'credential_vault_allow_unencrypted';
+
+export type VaultBackendName = 'secure-store' | 'async-storage';
+
+// Where the token is kept right now; 'empty' when nobody is signed in
+export type VaultSecurityLevel = 'encrypted' | 'unencrypted' | 'empty';
+
+type StoredUser = AuthResponse['data'];
+
+interface VaultBackend {
+  name: VaultBackendName;
+  encrypted: boolean;
+  isAvailable: () => Promise<boolean>;
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+// Keychain on iOS, keystore-backed encryption on Android; not available on web
+const secureStoreBackend: VaultBackend = {
+  name: 'secure-store',
+  encrypted: true,
+  isAvailable: async () => {
+    try {
+      return await SecureStore.isAvailableAsync();
+    } catch {
+      return false;
+    }
+  },
+  getItem: key => SecureStore.getItemAsync(key),
+  setItem: (key, value) => SecureStore.setItemAsync(key, value),
+  removeItem: key => SecureStore.deleteItemAsync(key),
+};
+
+const asyncStorageBackend: VaultBackend = {
+  name: 'async-storage',
+  encrypted: false,
+  isAvailable: async () => true,
+  getItem: key => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: key => AsyncStorage.removeItem(key),
+};
+
+// In order of preference
+const BACKENDS: VaultBackend[] = [secureStoreBackend, asyncStorageBackend];
+
+/**
+ * The one place the auth token and signed-in user are stored. Credentials always go to
+ * encrypted storage when the device has it; plain AsyncStorage is only used when the
+ * user has allowed it, and older plain copies are moved across or dropped on first use.
+ */
+class CredentialVault {
+  private static instance: CredentialVault;
+  private migration: Promise<void> | null = null;
+
+  static getInstance(): CredentialVault {
+    if (!CredentialVault.instance) {
+      CredentialVault.instance = new CredentialVault();
+    }
+    return CredentialVault.instance;
+  }
+
+  async getToken(): Promise<string | null> {
+    await this.ensureMigrated();
+    const backend = await this.getHoldingBackend();
+    return backend ? this.read(backend, TOKEN_KEY) : null;
+  }
+
+  async getUser(): Promise<StoredUser | null> {
+    await this.ensureMigrated();
+    const backend = await this.getHoldingBackend();
+    const stored = backend ? await this.read(backend, USER_KEY) : null;
+    try {
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error parsing stored user:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Throws INSECURE_STORAGE_REFUSED when only unencrypted storage is available and it is not allowed
+   */
+  async store(token: string, user: StoredUser): Promise<void> {
+    const backend = await this.getWritableBackend();
+    await backend.setItem(TOKEN_KEY, token);
+    await backend.setItem(USER_KEY, JSON.stringify(user));
+    await this.removeFrom(BACKENDS.filter(other => other !== backend));
+  }
+
+  async clear(): Promise<void> {
+    await this.removeFrom(BACKENDS);
+    console.log('Auth data cleared successfully');
+  }
+
+  async getSecurityLevel(): Promise<VaultSecurityLevel> {
+    await this.ensureMigrated();
+    const backend = await this.getHoldingBackend();
+    if (!backend) return 'empty';
+    return backend.encrypted ? 'encrypted' : 'unencrypted';
+  }
+
+  async isUnencryptedAllowed(): Promise<boolean> {
+    try {
+      return (await AsyncStorage.getItem(ALLOW_UNENCRYPTED_KEY)) === 'true';
+    } catch (error) {
+      console.error('Error loading credential storage setting:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Turning the setting off re-runs the migration, which drops any plain copy
+   * that cannot be moved to encrypted storage
+   */
+  async setUnencryptedAllowed(allowed: boolean): Promise<void> {
+    await AsyncStorage.setItem(ALLOW_UNENCRYPTED_KEY, String(allowed));
+    if (!allowed) {
+      this.migration = null;
+      await this.ensureMigrated();
+    }
+  }
+
+  private ensureMigrated(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.migrate().catch(error => console.error('Credential migration failed:', error));
+    }
+    return this.migration;
+  }
+
+  /**
+   * Move credentials left in a less secure backend into the best one available
+   */
+  private async migrate(): Promise<void> {
+    const holding = await this.getHoldingBackend();
+    if (!holding || holding.encrypted) return;
+
+    const token = await this.read(holding, TOKEN_KEY);
+    const user = await this.read(holding, USER_KEY);
+
+    let target: VaultBackend | null = null;
+    try {
+      target = await this.getWritableBackend();
+    } catch {
+      // Unencrypted storage is not allowed and there is nowhere better, so the copy goes
+    }
+
+    if (target && target !== holding && token && user) {
+      await target.setItem(TOKEN_KEY, token);
+      await target.setItem(USER_KEY, user);
+      console.log(`Moved credentials from ${holding.name} to ${target.name}`);
+    }
+    if (target !== holding) {
+      await this.removeFrom([holding]);
+    }
+  }
+
+  private async getWritableBackend(): Promise<VaultBackend> {
+    for (const backend of BACKENDS) {
+      if (!(await backend.isAvailable())) continue;
+      if (backend.encrypted || (await this.isUnencryptedAllowed())) return backend;
+    }
+    throw new AppError(
+      'This device cannot store your sign-in securely. Allow unencrypted storage to stay signed in.',
+      'INSECURE_STORAGE_REFUSED'
+    );
+  }
+
+  // The first backend, in order of preference, that has a token in it
+  private async getHoldingBackend(): Promise<VaultBackend | null> {
+    for (const backend of BACKENDS) {
+      if ((await backend.isAvailable()) && (await this.read(backend, TOKEN_KEY))) return backend;
+    }
+    return null;
+  }
+
+  private async read(backend: VaultBackend, key: string): Promise<string | null> {
+    try {
+      return await backend.getItem(key);
+    } catch (error) {
+      console.error(`Error reading ${key} from ${backend.name}:`, error);
+      return null;
+    }
+  }
+
+  private async removeFrom(backends: VaultBackend[]): Promise<void> {
+    for (const backend of backends) {
+      try {
+        if (!(await backend.isAvailable())) continue;
+        await backend.removeItem(TOKEN_KEY);
+        await backend.removeItem(USER_KEY);
+      } catch (error) {
+        console.error(`Error clearing credentials from ${backend.name}:`, error);
+      }
+    }
+  }
+}
+
+export default CredentialVault;
@@ -0,0 +1,94 @@
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Directory, File, Paths } from 'expo-file-system';
+import { AppError } from '../utils/errorHandling';
+
+export type ExportFormat = 'csv' | 'pdf';
+
+const MIME_TYPES: Record<ExportFormat, { mimeType: string; UTI: string }> = {
+  csv: { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  pdf: { mimeType: 'application/pdf', UTI: 'com.adobe.pdf' },
+};
+
+class ExportService {
+  private static instance: ExportService;
+  private readonly exportDirectoryName = 'exports';
+
+  static getInstance(): ExportService {
+    if (!ExportService.instance) {
+      ExportService.instance = new ExportService();
+    }
+    return ExportService.instance;
+  }
+
+  // Exports are regenerated on demand, so they live in the cache directory
+  private getExportDirectory(): Directory {
+    const directory = new Directory(Paths.cache, this.exportDirectoryName);
+    if (!directory.exists) {
+      directory.create({ intermediates: true });
+    }
+    return directory;
+  }
+
+  private prepareFile(fileName: string, directory: Directory = this.getExportDirectory()): File {
+    const file = new File(directory, fileName);
+    if (file.exists) {
+      file.delete();
+    }
+    return file;
+  }
+
+  /**
+   * Write a CSV file; a BOM is prepended so spreadsheet apps detect UTF-8
+   */
+  writeCsv(fileName: string, content: string): File {
+    const file = this.prepareFile(fileName);
+    file.create();
+    file.write('\uFEFF' + content);
+    return file;
+  }
+
+  /**
+   * Render HTML to a PDF and move it next to the other exports under a readable name
+   */
+  async writePdf(fileName: string, html: string, directory?: Directory): Promise<File> {
+    const { uri } = await Print.printToFileAsync({ html });
+    const file = this.prepareFile(fileName, directory);
+    new File(uri).move(file);
+    return file;
+  }
+
+  async share(file: File, format: ExportFormat, dialogTitle: string): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new AppError('Sharing is not available on this device', 'SHARING_UNAVAILABLE');
+    }
+    await Sharing.shareAsync(file.uri, { ...MIME_TYPES[format], dialogTitle });
+  }
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break. Text that a
+ * spreadsheet would read as a formula is prefixed with an apostrophe so it stays text.
+ */
+export const toCsvField = (value: string | number | undefined | null): string => {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvRow = (values: (string | number | undefined | null)[]): string =>
+  values.map(toCsvField).join(',');
+
+/**
+ * Escape text for interpolation into generated HTML
+ */
+export const escapeHtml = (value: string | number | undefined | null): string =>
+  (value === undefined || value === null ? '' : String(value))
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export default ExportService;
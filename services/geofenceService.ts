@@ -0,0 +1,113 @@
+import * as Location from 'expo-location';
+import { OfficeLocation, PunchLocation } from '../types/api';
+import { getOfficeLocation, MAX_LOCATION_ACCURACY_METERS } from '../constants/officeLocations';
+
+export type GeofenceStatus =
+  | 'inside'       // device is within the office fence
+  | 'outside'      // device is outside the office fence
+  | 'unfenced'     // no office configured for this workLocation
+  | 'unavailable'; // permission denied or no position fix
+
+export interface GeofenceCheck {
+  status: GeofenceStatus;
+  office: OfficeLocation | null;
+  location: PunchLocation | null;
+  error?: string;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+class GeofenceService {
+  private static instance: GeofenceService;
+  private readonly positionTimeoutMs = 15000;
+
+  static getInstance(): GeofenceService {
+    if (!GeofenceService.instance) {
+      GeofenceService.instance = new GeofenceService();
+    }
+    return GeofenceService.instance;
+  }
+
+  // Great-circle distance between two coordinates (haversine formula)
+  distanceInMeters(
+    from: { latitude: number; longitude: number },
+    to: { latitude: number; longitude: number }
+  ): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(to.latitude - from.latitude);
+    const dLon = toRadians(to.longitude - from.longitude);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+  }
+
+  async getCurrentPosition(): Promise<Location.LocationObject> {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      throw new Error('Location permission is required to check in or out');
+    }
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    try {
+      return await Promise.race([
+        Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High }),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(
+            () => reject(new Error('Timed out while getting your location')),
+            this.positionTimeoutMs
+          );
+        }),
+      ]);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Capture the device position and resolve it against the employee's office fence.
+   * Never throws - failures are reported through the 'unavailable' status.
+   */
+  async checkPunchLocation(workLocation?: string | null): Promise<GeofenceCheck> {
+    const office = getOfficeLocation(workLocation);
+
+    try {
+      const position = await this.getCurrentPosition();
+      const { latitude, longitude, accuracy } = position.coords;
+
+      const distance = office
+        ? Math.round(this.distanceInMeters({ latitude, longitude }, office))
+        : null;
+      const isAccurate = accuracy === null || accuracy <= MAX_LOCATION_ACCURACY_METERS;
+      const withinGeofence = office && distance !== null
+        ? distance <= office.radiusMeters && isAccurate
+        : null;
+
+      const location: PunchLocation = {
+        latitude,
+        longitude,
+        accuracy: accuracy !== null ? Math.round(accuracy) : null,
+        distance,
+        withinGeofence,
+        officeLocation: workLocation || undefined,
+        capturedAt: new Date(position.timestamp).toISOString(),
+      };
+
+      return {
+        status: !office ? 'unfenced' : withinGeofence ? 'inside' : 'outside',
+        office,
+        location,
+      };
+    } catch (error) {
+      console.error('Geofence check failed:', error);
+      return {
+        status: 'unavailable',
+        office,
+        location: null,
+        error: error instanceof Error ? error.message : 'Unable to get your location',
+      };
+    }
+  }
+}
+
+export default GeofenceService;
@@ -0,0 +1,183 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import moment from 'moment';
+import apiClient from './apiClient';
+import { DEFAULT_WEEKLY_OFF, WEEKLY_OFF_PATTERNS, getFixedHolidays } from '../constants/holidays';
+import { Holiday, WeeklyOffPattern, WeeklyOffPreset } from '../types/api';
+import { ATTENDANCE_DATE_FORMAT } from '../utils/attendance';
+
+// Device-wide before weekly offs were kept per employee; taken over by the first employee to read it
+const LEGACY_WEEKLY_OFF_STORAGE_KEY = 'weekly_off_pattern';
+// Last server calendar per location and year; unlike the API cache it never expires
+const LAST_KNOWN_HOLIDAYS_PREFIX = 'holidays_last_known_';
+
+export interface MonthCalendar {
+  holidays: Record<string, Holiday>; // keyed by DD/MM/YYYY
+  weeklyOff: WeeklyOffPattern;
+  isFallback: boolean;               // true when built-in holidays were used
+}
+
+class HolidayCalendar {
+  private static instance: HolidayCalendar;
+
+  static getInstance(): HolidayCalendar {
+    if (!HolidayCalendar.instance) {
+      HolidayCalendar.instance = new HolidayCalendar();
+    }
+    return HolidayCalendar.instance;
+  }
+
+  private getWeeklyOffKey(employeeId: string): string {
+    return `weekly_off_pattern_${employeeId}`;
+  }
+
+  /**
+   * Holidays for a location and year. The server calendar is cached by ApiClient;
+   * once that cache has expired and the server cannot be reached, the last calendar
+   * it returned is used, and only without one do we fall back to the fixed-date public holidays.
+   */
+  async getHolidays(workLocation: string | undefined, year: number): Promise<{ holidays: Holiday[]; isFallback: boolean }> {
+    if (workLocation) {
+      const lastKnownKey = `${LAST_KNOWN_HOLIDAYS_PREFIX}${workLocation}_${year}`;
+      try {
+        const response = await apiClient.getHolidays(workLocation, year);
+        if (response.data && response.data.length > 0) {
+          await this.saveLastKnown(lastKnownKey, response.data);
+          return { holidays: response.data, isFallback: false };
+        }
+      } catch (error) {
+        const lastKnown = await this.getLastKnown(lastKnownKey);
+        if (lastKnown) {
+          console.warn('Holiday calendar unavailable, using the last one loaded:', error);
+          return { holidays: lastKnown, isFallback: false };
+        }
+        console.warn('Holiday calendar unavailable, using fixed holidays:', error);
+      }
+    }
+
+    const holidays = getFixedHolidays(workLocation).map(({ day, name }) => ({
+      date: `${day}/${year}`,
+      name,
+    }));
+    return { holidays, isFallback: true };
+  }
+
+  async getWeeklyOffPattern(employeeId: string): Promise<WeeklyOffPattern> {
+    try {
+      let stored = await AsyncStorage.getItem(this.getWeeklyOffKey(employeeId));
+      if (!stored) {
+        stored = await AsyncStorage.getItem(LEGACY_WEEKLY_OFF_STORAGE_KEY);
+        if (stored) {
+          await AsyncStorage.setItem(this.getWeeklyOffKey(employeeId), stored);
+          await AsyncStorage.removeItem(LEGACY_WEEKLY_OFF_STORAGE_KEY);
+        }
+      }
+      const preset = (stored as WeeklyOffPreset) || DEFAULT_WEEKLY_OFF;
+      return WEEKLY_OFF_PATTERNS[preset] || WEEKLY_OFF_PATTERNS[DEFAULT_WEEKLY_OFF];
+    } catch (error) {
+      console.error('Error loading weekly off pattern:', error);
+      return WEEKLY_OFF_PATTERNS[DEFAULT_WEEKLY_OFF];
+    }
+  }
+
+  async setWeeklyOffPattern(employeeId: string, preset: WeeklyOffPreset): Promise<void> {
+    await AsyncStorage.setItem(this.getWeeklyOffKey(employeeId), preset);
+  }
+
+  async getMonthCalendar(employeeId: string, workLocation: string | undefined, year: number): Promise<MonthCalendar> {
+    const [{ holidays, isFallback }, weeklyOff] = await Promise.all([
+      this.getHolidays(workLocation, year),
+      this.getWeeklyOffPattern(employeeId),
+    ]);
+
+    const byDate: Record<string, Holiday> = {};
+    holidays
+      .filter(holiday => !holiday.optional)
+      .forEach(holiday => {
+        byDate[holiday.date] = holiday;
+      });
+
+    return { holidays: byDate, weeklyOff, isFallback };
+  }
+
+  isWeeklyOff(date: moment.Moment, pattern: WeeklyOffPattern): boolean {
+    if (pattern.weekdays.includes(date.day())) {
+      return true;
+    }
+    // nth Saturday of the month: days 1-7 are the 1st, 8-14 the 2nd, ...
+    return date.day() === 6 && pattern.saturdayWeeks.includes(Math.ceil(date.date() / 7));
+  }
+
+  /**
+   * Working days (DD/MM/YYYY) in a month, excluding weekly offs and holidays,
+   * up to and including `until` so the current month only counts elapsed days
+   */
+  getWorkingDays(
+    month: number, // 1-12
+    year: number,
+    calendar: MonthCalendar,
+    until: moment.Moment = moment()
+  ): string[] {
+    const start = moment({ year, month: month - 1, date: 1 });
+    return this.getWorkingDaysBetween(start, moment.min(start.clone().endOf('month'), until), calendar);
+  }
+
+  /**
+   * Working days (DD/MM/YYYY) from `from` to `to`, both inclusive
+   */
+  getWorkingDaysBetween(from: moment.Moment, to: moment.Moment, calendar: MonthCalendar): string[] {
+    const day = from.clone().startOf('day');
+    const workingDays: string[] = [];
+
+    while (day.isSameOrBefore(to, 'day')) {
+      const date = day.format(ATTENDANCE_DATE_FORMAT);
+      if (!this.isWeeklyOff(day, calendar.weeklyOff) && !calendar.holidays[date]) {
+        workingDays.push(date);
+      }
+      day.add(1, 'day');
+    }
+
+    return workingDays;
+  }
+
+  /**
+   * Calendar covering every year a date range touches
+   */
+  async getRangeCalendar(
+    employeeId: string,
+    workLocation: string | undefined,
+    from: moment.Moment,
+    to: moment.Moment
+  ): Promise<MonthCalendar> {
+    const years: number[] = [];
+    for (let year = from.year(); year <= to.year(); year++) {
+      years.push(year);
+    }
+
+    const calendars = await Promise.all(years.map(year => this.getMonthCalendar(employeeId, workLocation, year)));
+    return {
+      holidays: Object.assign({}, ...calendars.map(item => item.holidays)),
+      weeklyOff: calendars[0].weeklyOff,
+      isFallback: calendars.some(item => item.isFallback),
+    };
+  }
+
+  private async getLastKnown(key: string): Promise<Holiday[] | null> {
+    try {
+      const stored = await AsyncStorage.getItem(key);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error loading last known holidays:', error);
+      return null;
+    }
+  }
+
+  private async saveLastKnown(key: string, holidays: Holiday[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(key, JSON.stringify(holidays));
+    } catch (error) {
+      console.error('Error saving last known holidays:', error);
+    }
+  }
+}
+
+export default HolidayCalendar;
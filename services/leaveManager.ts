@@ -0,0 +1,272 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import moment from 'moment';
+import apiClient from './apiClient';
+import HolidayCalendar, { MonthCalendar } from './holidayCalendar';
+import { generateIdempotencyKey } from './offlineManager';
+import { LEAVE_TYPES } from '../constants/leaveTypes';
+import { LeaveApplication, LeaveBalance, LeaveSession, LeaveType } from '../types/api';
+import { ATTENDANCE_DATE_FORMAT } from '../utils/attendance';
+import { ValidationError } from '../utils/errorHandling';
+
+export interface LeaveInput {
+  type: LeaveType;
+  fromDate: string; // DD/MM/YYYY
+  toDate: string;   // DD/MM/YYYY
+  session: LeaveSession;
+  reason: string;
+}
+
+type LeaveListener = () => void;
+
+// Applications that hold or consume balance and block overlapping requests
+const ACTIVE_STATUSES = ['pending', 'approved'];
+
+class LeaveManager {
+  private static instance: LeaveManager;
+  private readonly minReasonLength = 5;
+  private readonly maxDaysPerApplication = 30;
+  private listeners = new Set<LeaveListener>();
+
+  static getInstance(): LeaveManager {
+    if (!LeaveManager.instance) {
+      LeaveManager.instance = new LeaveManager();
+    }
+    return LeaveManager.instance;
+  }
+
+  private getStorageKey(employeeId: string): string {
+    return `leaves_${employeeId}`;
+  }
+
+  subscribe(listener: LeaveListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async getApplications(employeeId: string): Promise<LeaveApplication[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.getStorageKey(employeeId));
+      const applications: LeaveApplication[] = stored ? JSON.parse(stored) : [];
+      return applications.sort((a, b) => moment(b.appliedAt).valueOf() - moment(a.appliedAt).valueOf());
+    } catch (error) {
+      console.error('Error loading leave applications:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Pull applications from the server; the server is authoritative for status.
+   * Local applications the server has not seen yet are kept as they are.
+   */
+  async syncApplications(employeeId: string): Promise<LeaveApplication[]> {
+    const local = await this.getApplications(employeeId);
+    const response = await apiClient.getLeaveApplications(employeeId);
+    const remote = response.data || [];
+    const remoteIds = new Set(remote.map(application => application.id));
+
+    const merged = [...remote, ...local.filter(application => !remoteIds.has(application.id))];
+    await this.saveApplications(employeeId, merged);
+    return this.getApplications(employeeId);
+  }
+
+  /**
+   * Balances from the server, falling back to the default entitlement minus
+   * the applications known on this device when the server is unreachable.
+   */
+  async getBalances(employeeId: string): Promise<{ balances: LeaveBalance[]; estimated: boolean }> {
+    try {
+      const response = await apiClient.getLeaveBalances(employeeId);
+      if (response.data && response.data.length > 0) {
+        return { balances: response.data, estimated: false };
+      }
+    } catch (error) {
+      console.warn('Leave balances unavailable, estimating locally:', error);
+    }
+
+    const applications = await this.getApplications(employeeId);
+    const year = moment().year();
+    const balances = LEAVE_TYPES.map(({ value, annualQuota }) => {
+      const thisYear = applications.filter(
+        application =>
+          application.type === value &&
+          moment(application.fromDate, ATTENDANCE_DATE_FORMAT).year() === year
+      );
+      const used = this.sumDays(thisYear.filter(application => application.status === 'approved'));
+      const pending = this.sumDays(thisYear.filter(application => application.status === 'pending'));
+      return {
+        type: value,
+        total: annualQuota,
+        used,
+        pending,
+        available: Math.max(0, annualQuota - used - pending),
+      };
+    });
+
+    return { balances, estimated: true };
+  }
+
+  /**
+   * Working days the leave takes; weekly offs and holidays inside the range are not counted.
+   * `calendar` must cover every year the range touches (see HolidayCalendar.getRangeCalendar).
+   */
+  countDays(fromDate: string, toDate: string, session: LeaveSession, calendar: MonthCalendar): number {
+    const from = moment(fromDate, ATTENDANCE_DATE_FORMAT);
+    const to = moment(toDate, ATTENDANCE_DATE_FORMAT);
+    const workingDays = HolidayCalendar.getInstance().getWorkingDaysBetween(from, to, calendar).length;
+    return session !== 'full_day' ? workingDays * 0.5 : workingDays;
+  }
+
+  validate(
+    input: LeaveInput,
+    applications: LeaveApplication[],
+    balances: LeaveBalance[],
+    calendar: MonthCalendar
+  ): void {
+    const from = moment(input.fromDate, ATTENDANCE_DATE_FORMAT, true);
+    const to = moment(input.toDate, ATTENDANCE_DATE_FORMAT, true);
+
+    if (!from.isValid() || !to.isValid()) {
+      throw new ValidationError('Please select valid leave dates');
+    }
+    if (to.isBefore(from, 'day')) {
+      throw new ValidationError('End date cannot be before start date');
+    }
+    if (input.session !== 'full_day' && !from.isSame(to, 'day')) {
+      throw new ValidationError('Half-day leave can only be applied for a single day');
+    }
+    if (to.diff(from, 'days') + 1 > this.maxDaysPerApplication) {
+      throw new ValidationError(`A single application cannot exceed ${this.maxDaysPerApplication} days`);
+    }
+    if (input.reason.trim().length < this.minReasonLength) {
+      throw new ValidationError('Please enter a reason for your leave');
+    }
+
+    const days = this.countDays(input.fromDate, input.toDate, input.session, calendar);
+    if (days === 0) {
+      throw new ValidationError('The selected dates are all weekly offs or holidays');
+    }
+
+    const overlapping = applications.find(application => {
+      if (!ACTIVE_STATUSES.includes(application.status)) return false;
+      const start = moment(application.fromDate, ATTENDANCE_DATE_FORMAT);
+      const end = moment(application.toDate, ATTENDANCE_DATE_FORMAT);
+      if (from.isAfter(end, 'day') || to.isBefore(start, 'day')) return false;
+
+      // Opposite halves of the same day can both be taken
+      const bothHalfDays = application.session !== 'full_day' && input.session !== 'full_day';
+      return !(bothHalfDays && application.session !== input.session);
+    });
+    if (overlapping) {
+      throw new ValidationError(
+        `You already have leave from ${overlapping.fromDate} to ${overlapping.toDate}`
+      );
+    }
+
+    if (input.type !== 'unpaid') {
+      const balance = balances.find(item => item.type === input.type);
+      if (!balance || balance.available < days) {
+        throw new ValidationError(
+          `Insufficient balance: ${balance?.available ?? 0} day(s) available, ${days} requested`
+        );
+      }
+    }
+  }
+
+  async apply(
+    employeeId: string,
+    input: LeaveInput,
+    balances: LeaveBalance[],
+    workLocation?: string
+  ): Promise<LeaveApplication> {
+    const applications = await this.getApplications(employeeId);
+    const calendar = await HolidayCalendar.getInstance().getRangeCalendar(
+      employeeId,
+      workLocation,
+      moment(input.fromDate, ATTENDANCE_DATE_FORMAT),
+      moment(input.toDate, ATTENDANCE_DATE_FORMAT)
+    );
+    this.validate(input, applications, balances, calendar);
+
+    const application: LeaveApplication = {
+      id: generateIdempotencyKey(),
+      employeeId,
+      type: input.type,
+      fromDate: input.fromDate,
+      toDate: input.toDate,
+      session: input.session,
+      days: this.countDays(input.fromDate, input.toDate, input.session, calendar),
+      reason: input.reason.trim(),
+      status: 'pending',
+      appliedAt: new Date().toISOString(),
+    };
+
+    const saved = await apiClient.applyLeave(application);
+    await this.saveApplications(employeeId, [...applications, { ...application, ...saved }]);
+    return saved;
+  }
+
+  async cancel(employeeId: string, applicationId: string): Promise<void> {
+    const applications = await this.getApplications(employeeId);
+    const application = applications.find(item => item.id === applicationId);
+
+    if (!application) {
+      throw new ValidationError('Leave application not found');
+    }
+    if (application.status !== 'pending') {
+      throw new ValidationError('Only pending applications can be cancelled');
+    }
+
+    await apiClient.cancelLeave(employeeId, applicationId);
+    await this.saveApplications(
+      employeeId,
+      applications.map(item =>
+        item.id === applicationId
+          ? { ...item, status: 'cancelled', resolvedAt: new Date().toISOString() }
+          : item
+      )
+    );
+  }
+
+  /**
+   * Approved leave expanded to individual working dates (DD/MM/YYYY) for the attendance calendar.
+   * Weekly offs and holidays inside a leave are skipped, the same days countDays leaves out.
+   */
+  async getApprovedLeaveDays(employeeId: string, workLocation?: string): Promise<Record<string, LeaveApplication>> {
+    const applications = await this.getApplications(employeeId);
+    const holidayCalendar = HolidayCalendar.getInstance();
+    const days: Record<string, LeaveApplication> = {};
+
+    for (const application of applications.filter(item => item.status === 'approved')) {
+      const from = moment(application.fromDate, ATTENDANCE_DATE_FORMAT);
+      const to = moment(application.toDate, ATTENDANCE_DATE_FORMAT);
+      const calendar = await holidayCalendar.getRangeCalendar(employeeId, workLocation, from, to);
+      holidayCalendar.getWorkingDaysBetween(from, to, calendar).forEach(date => {
+        days[date] = application;
+      });
+    }
+
+    return days;
+  }
+
+  async clear(employeeId: string): Promise<void> {
+    await AsyncStorage.removeItem(this.getStorageKey(employeeId));
+    this.listeners.forEach(listener => listener());
+  }
+
+  private sumDays(applications: LeaveApplication[]): number {
+    return applications.reduce((total, application) => total + application.days, 0);
+  }
+
+  private async saveApplications(employeeId: string, applications: LeaveApplication[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.getStorageKey(employeeId), JSON.stringify(applications));
+    } catch (error) {
+      console.error('Error saving leave applications:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default LeaveManager;
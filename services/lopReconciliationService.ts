@@ -0,0 +1,68 @@
+import moment from 'moment';
+import apiClient from './apiClient';
+import HolidayCalendar from './holidayCalendar';
+import LeaveManager from './leaveManager';
+import PayslipDiscrepancyManager from './payslipDiscrepancyManager';
+import { LeaveApplication, MONTH_NAMES, PayslipDiscrepancyReport, PayslipResponse, User } from '../types/api';
+import { withRetry } from '../utils/errorHandling';
+import { AttendanceRecord } from '../utils/attendanceStats';
+import { LopReconciliation, reconcileLop } from '../utils/lopReconciliation';
+
+export interface ReconciliationResult {
+  payslip: PayslipResponse['data'] | null; // null when payroll has not issued the payslip
+  reconciliation: LopReconciliation | null;
+  isCalendarFallback: boolean;             // built-in holidays were used, so working days may be off
+  report: PayslipDiscrepancyReport | null; // an LOP dispute already raised for the month
+}
+
+class LopReconciliationService {
+  private static instance: LopReconciliationService;
+
+  static getInstance(): LopReconciliationService {
+    if (!LopReconciliationService.instance) {
+      LopReconciliationService.instance = new LopReconciliationService();
+    }
+    return LopReconciliationService.instance;
+  }
+
+  /**
+   * Load the payslip and the month's punches, leave and holidays, and reconcile payroll's LOP count
+   */
+  async reconcile(user: User, month: number, year: number): Promise<ReconciliationResult> {
+    const monthName = MONTH_NAMES[month - 1];
+    const payslipResponse = await withRetry(() => apiClient.getPayslip(user.id, monthName, year.toString()), 2);
+    if (!payslipResponse.success || !payslipResponse.data) {
+      return { payslip: null, reconciliation: null, isCalendarFallback: false, report: null };
+    }
+
+    const [logsResponse, calendar, approvedLeave, report] = await Promise.all([
+      withRetry(() => apiClient.getAttendanceLogs(user.id, month, year), 2),
+      HolidayCalendar.getInstance().getMonthCalendar(user.id, user.workLocation, year),
+      this.loadApprovedLeave(user.id, user.workLocation),
+      PayslipDiscrepancyManager.getInstance().getReport(user.id, payslipResponse.data.month, year, ['lop_mismatch']),
+    ]);
+
+    const monthEnd = moment({ year, month: month - 1, date: 1 }).endOf('month');
+    const reconciliation = reconcileLop(payslipResponse.data, (logsResponse.data || []) as AttendanceRecord[], {
+      month,
+      year,
+      workingDays: HolidayCalendar.getInstance().getWorkingDays(month, year, calendar, monthEnd),
+      approvedLeave,
+    });
+
+    return { payslip: payslipResponse.data, reconciliation, isCalendarFallback: calendar.isFallback, report };
+  }
+
+  // Leave approved since the device last synced would otherwise count as unexplained absence
+  private async loadApprovedLeave(employeeId: string, workLocation?: string): Promise<Record<string, LeaveApplication>> {
+    const leaveManager = LeaveManager.getInstance();
+    try {
+      await leaveManager.syncApplications(employeeId);
+    } catch (error) {
+      console.warn('Leave sync failed, reconciling with saved leave:', error);
+    }
+    return leaveManager.getApprovedLeaveDays(employeeId, workLocation);
+  }
+}
+
+export default LopReconciliationService;
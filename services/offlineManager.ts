@@ -1,14 +1,26 @@
 import NetInfo from '@react-native-community/netinfo';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useState, useEffect, useCallback } from 'react';
+import { FailedRequest, PendingPunch, PunchType } from '../types/api';
 
-interface OfflineQueueItem {
-  id: string;
+export type OfflineRequestMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface OfflineQueueItem {
+  id: string; // also used as the Idempotency-Key when the request is replayed
   endpoint: string;
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  method: OfflineRequestMethod;
   data?: any;
   timestamp: number;
   retryCount: number;
+  lastError?: string;
+  ownerId?: string; // employee signed in when the request was recorded
+  label?: string;   // what the request was, for telling the user if it fails for good
+  failureHandled?: boolean; // the owning manager has rolled back or marked its local copy
+  punch?: {
+    type: PunchType;
+    employeeId: string;
+    deviceTimestamp: string;
+  };
 }
 
 interface NetworkState {
@@ -17,12 +29,61 @@ interface NetworkState {
   type: string;
 }
 
+// Anything that can replay a queued request - implemented by ApiClient
+export interface OfflineRequestExecutor {
+  replayRequest<T>(
+    method: OfflineRequestMethod,
+    endpoint: string,
+    data?: any,
+    idempotencyKey?: string
+  ): Promise<T>;
+}
+
+type QueueListener = () => void;
+
+// Rolls back or marks the local copy of a request that will never reach the server
+export type QueueFailureHandler = (item: OfflineQueueItem) => Promise<void>;
+
+export const generateIdempotencyKey = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// HTTP 4xx responses (other than timeouts / rate limits) will never succeed on replay
+const isPermanentFailure = (error: any): boolean => {
+  const status = error?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && status !== 408 && status !== 429;
+};
+
+const toFailedRequest = (item: OfflineQueueItem): FailedRequest => ({
+  id: item.id,
+  label: item.label || (item.punch ? (item.punch.type === 'checkin' ? 'Check-in' : 'Check-out') : item.endpoint),
+  recordedAt: item.punch?.deviceTimestamp || new Date(item.timestamp).toISOString(),
+  lastError: item.lastError,
+  punchType: item.punch?.type,
+});
+
+const toPendingPunch = (item: OfflineQueueItem): PendingPunch | null =>
+  item.punch
+    ? {
+        id: item.id,
+        type: item.punch.type,
+        employeeId: item.punch.employeeId,
+        deviceTimestamp: item.punch.deviceTimestamp,
+        lastError: item.lastError,
+      }
+    : null;
+
 class OfflineManager {
   private static instance: OfflineManager;
   private queue: OfflineQueueItem[] = [];
+  private failed: OfflineQueueItem[] = [];
   private readonly maxRetries = 3;
   private readonly queueKey = 'offline_queue';
+  private readonly failedKey = 'offline_failed_queue';
   private isProcessing = false;
+  private loadPromise: Promise<void> | null = null;
+  private listeners = new Set<QueueListener>();
+  private failureHandlers = new Map<string, QueueFailureHandler>();
+  private ownerId: string | null = null;
 
   static getInstance(): OfflineManager {
     if (!OfflineManager.instance) {
@@ -31,81 +92,164 @@ class OfflineManager {
     return OfflineManager.instance;
   }
 
-  async initialize(): Promise<void> {
-    await this.loadQueue();
+  // Safe to call repeatedly - the persisted queue is only loaded once
+  initialize(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadQueue();
+    }
+    return this.loadPromise;
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Scope the queue to the signed-in employee, so one account's requests are never sent with
+   * another account's token. Other accounts' items wait until that account signs in again.
+   */
+  setOwner(employeeId: string | null): void {
+    this.ownerId = employeeId;
+    this.notify();
+  }
+
+  /**
+   * Called for every request to `endpoint` that fails for good, including ones that
+   * failed before the handler was registered
+   */
+  onFailure(endpoint: string, handler: QueueFailureHandler): () => void {
+    this.failureHandlers.set(endpoint, handler);
+    this.initialize()
+      .then(async () => {
+        const unhandled = this.failed.filter(item => item.endpoint === endpoint && !item.failureHandled);
+        for (const item of unhandled) {
+          await this.handleFailure(item);
+        }
+        if (unhandled.length > 0) {
+          await this.saveQueue();
+          this.notify();
+        }
+      })
+      .catch(error => console.error('Error handling failed queue items:', error));
+
+    return () => {
+      this.failureHandlers.delete(endpoint);
+    };
   }
 
+  private async handleFailure(item: OfflineQueueItem): Promise<void> {
+    const handler = this.failureHandlers.get(item.endpoint);
+    if (!handler || item.failureHandled) return;
+
+    try {
+      await handler(item);
+      item.failureHandled = true;
+    } catch (error) {
+      console.error(`Error handling failed request to ${item.endpoint}:`, error);
+    }
+  }
+
+  // Items queued before requests were tagged belong to whoever is signed in
+  private isOwnItem = (item: OfflineQueueItem): boolean => !item.ownerId || item.ownerId === this.ownerId;
+
   async addToQueue(
     endpoint: string,
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
-    data?: any
-  ): Promise<void> {
+    method: OfflineRequestMethod,
+    data?: any,
+    options: { id?: string; label?: string; punch?: OfflineQueueItem['punch'] } = {}
+  ): Promise<OfflineQueueItem> {
+    await this.initialize();
+
     const item: OfflineQueueItem = {
-      id: Date.now().toString() + Math.random(),
+      id: options.id || generateIdempotencyKey(),
       endpoint,
       method,
       data,
       timestamp: Date.now(),
-      retryCount: 0
+      retryCount: 0,
+      ownerId: this.ownerId ?? undefined,
+      label: options.label,
+      punch: options.punch,
     };
 
     this.queue.push(item);
     await this.saveQueue();
+    this.notify();
+    return item;
   }
 
-  async processQueue(apiClient: any): Promise<void> {
-    if (this.isProcessing || this.queue.length === 0) {
-      return;
+  /**
+   * Replay queued requests strictly in the order they were recorded.
+   * A transient failure stops the run so later punches never overtake earlier ones;
+   * items that fail for good are moved to the failed list for the user to review.
+   */
+  async processQueue(apiClient: OfflineRequestExecutor): Promise<number> {
+    await this.initialize();
+
+    if (this.isProcessing || !this.ownerId || this.getQueueLength() === 0) {
+      return 0;
     }
 
     this.isProcessing = true;
+    let syncedCount = 0;
+
+    try {
+      let item: OfflineQueueItem | undefined;
+      while ((item = this.queue.find(this.isOwnItem))) {
+        const current = item;
+
+        try {
+          await this.processQueueItem(current, apiClient);
+          this.queue = this.queue.filter(queued => queued !== current);
+          syncedCount++;
+        } catch (error) {
+          current.retryCount++;
+          current.lastError = error instanceof Error ? error.message : 'Unknown error';
+
+          if (isPermanentFailure(error) || current.retryCount >= this.maxRetries) {
+            console.error(`Failed to process queue item after ${current.retryCount} attempts:`, error);
+            this.queue = this.queue.filter(queued => queued !== current);
+            this.failed.push(current);
+            await this.handleFailure(current);
+            continue;
+          }
 
-    const processedItems: string[] = [];
-
-    for (const item of this.queue) {
-      try {
-        await this.processQueueItem(item, apiClient);
-        processedItems.push(item.id);
-      } catch (error) {
-        item.retryCount++;
-        
-        if (item.retryCount >= this.maxRetries) {
-          processedItems.push(item.id);
-          console.error(`Failed to process queue item after ${this.maxRetries} retries:`, error);
+          // Transient failure - keep the order and wait for the next connectivity change
+          break;
         }
       }
+    } finally {
+      await this.saveQueue();
+      this.isProcessing = false;
+      this.notify();
     }
 
-    // Remove processed items
-    this.queue = this.queue.filter(item => !processedItems.includes(item.id));
-    await this.saveQueue();
+    return syncedCount;
+  }
 
-    this.isProcessing = false;
-  }
-
-  private async processQueueItem(item: OfflineQueueItem, apiClient: any): Promise<void> {
-    switch (item.method) {
-      case 'GET':
-        await apiClient.get(item.endpoint);
-        break;
-      case 'POST':
-        await apiClient.post(item.endpoint, item.data);
-        break;
-      case 'PUT':
-        await apiClient.put(item.endpoint, item.data);
-        break;
-      case 'DELETE':
-        await apiClient.delete(item.endpoint);
-        break;
-    }
+  private async processQueueItem(item: OfflineQueueItem, apiClient: OfflineRequestExecutor): Promise<void> {
+    await apiClient.replayRequest(item.method, item.endpoint, item.data, item.id);
   }
 
   private async loadQueue(): Promise<void> {
     try {
-      const queueData = await AsyncStorage.getItem(this.queueKey);
+      const [queueData, failedData] = await Promise.all([
+        AsyncStorage.getItem(this.queueKey),
+        AsyncStorage.getItem(this.failedKey),
+      ]);
       if (queueData) {
         this.queue = JSON.parse(queueData);
       }
+      if (failedData) {
+        this.failed = JSON.parse(failedData);
+      }
     } catch (error) {
       console.error('Error loading offline queue:', error);
     }
@@ -114,18 +258,40 @@ class OfflineManager {
   private async saveQueue(): Promise<void> {
     try {
       await AsyncStorage.setItem(this.queueKey, JSON.stringify(this.queue));
+      await AsyncStorage.setItem(this.failedKey, JSON.stringify(this.failed));
     } catch (error) {
       console.error('Error saving offline queue:', error);
     }
   }
 
   getQueueLength(): number {
-    return this.queue.length;
+    return this.queue.filter(this.isOwnItem).length;
+  }
+
+  getPendingPunches(): PendingPunch[] {
+    return this.queue
+      .filter(this.isOwnItem)
+      .map(toPendingPunch)
+      .filter((punch): punch is PendingPunch => punch !== null);
+  }
+
+  getFailedRequests(): FailedRequest[] {
+    return this.failed.filter(this.isOwnItem).map(toFailedRequest);
   }
 
+  async dismissFailed(id: string): Promise<void> {
+    this.failed = this.failed.filter(item => item.id !== id);
+    await this.saveQueue();
+    this.notify();
+  }
+
+  // Only the signed-in employee's items; other accounts keep theirs
   async clearQueue(): Promise<void> {
-    this.queue = [];
-    await AsyncStorage.removeItem(this.queueKey);
+    await this.initialize();
+    this.queue = this.queue.filter(item => !this.isOwnItem(item));
+    this.failed = this.failed.filter(item => !this.isOwnItem(item));
+    await this.saveQueue();
+    this.notify();
   }
 }
 
@@ -141,7 +307,8 @@ export const useNetworkStatus = () => {
     const unsubscribe = NetInfo.addEventListener((state: any) => {
       setNetworkState({
         isConnected: state.isConnected ?? false,
-        isInternetReachable: state.isInternetReachable ?? false,
+        // null means "not determined yet" - only treat an explicit false as unreachable
+        isInternetReachable: state.isInternetReachable ?? state.isConnected ?? false,
         type: state.type
       });
     });
@@ -153,42 +320,70 @@ export const useNetworkStatus = () => {
 };
 
 // React hook for offline management
-export const useOfflineManager = (apiClient: any) => {
+export const useOfflineManager = (apiClient: OfflineRequestExecutor) => {
   const networkState = useNetworkStatus();
-  const [queueLength, setQueueLength] = useState(0);
   const offlineManager = OfflineManager.getInstance();
+  const [queueLength, setQueueLength] = useState(offlineManager.getQueueLength());
+  const [pendingPunches, setPendingPunches] = useState<PendingPunch[]>(offlineManager.getPendingPunches());
+  const [failedRequests, setFailedRequests] = useState<FailedRequest[]>(offlineManager.getFailedRequests());
+  const [lastSyncAt, setLastSyncAt] = useState<number | null>(null);
+
+  const isOnline = networkState.isConnected && networkState.isInternetReachable;
 
   useEffect(() => {
-    offlineManager.initialize();
+    const refreshState = () => {
+      setQueueLength(offlineManager.getQueueLength());
+      setPendingPunches(offlineManager.getPendingPunches());
+      setFailedRequests(offlineManager.getFailedRequests());
+    };
+
+    const unsubscribe = offlineManager.subscribe(refreshState);
+    offlineManager.initialize().then(refreshState);
+
+    return unsubscribe;
   }, []);
 
+  const syncNow = useCallback(async () => {
+    const synced = await offlineManager.processQueue(apiClient);
+    if (synced > 0) {
+      setLastSyncAt(Date.now());
+    }
+    return synced;
+  }, [apiClient]);
+
   useEffect(() => {
-    if (networkState.isConnected && networkState.isInternetReachable) {
-      offlineManager.processQueue(apiClient);
+    if (isOnline) {
+      syncNow();
     }
-    setQueueLength(offlineManager.getQueueLength());
-  }, [networkState.isConnected, networkState.isInternetReachable, apiClient]);
+  }, [isOnline, syncNow]);
 
   const addToOfflineQueue = useCallback(
-    async (endpoint: string, method: 'GET' | 'POST' | 'PUT' | 'DELETE', data?: any) => {
+    async (endpoint: string, method: OfflineRequestMethod, data?: any) => {
       await offlineManager.addToQueue(endpoint, method, data);
-      setQueueLength(offlineManager.getQueueLength());
     },
     []
   );
 
+  const dismissFailedRequest = useCallback(async (id: string) => {
+    await offlineManager.dismissFailed(id);
+  }, []);
+
   const clearOfflineQueue = useCallback(async () => {
     await offlineManager.clearQueue();
-    setQueueLength(0);
   }, []);
 
   return {
-    isOnline: networkState.isConnected && networkState.isInternetReachable,
+    isOnline,
     networkType: networkState.type,
     queueLength,
+    pendingPunches,
+    failedRequests,
+    lastSyncAt,
+    syncNow,
     addToOfflineQueue,
+    dismissFailedRequest,
     clearOfflineQueue
   };
 };
 
-export default OfflineManager;
\ No newline at end of file
+export default OfflineManager;
@@ -0,0 +1,51 @@
+import moment from 'moment';
+import apiClient from './apiClient';
+import { MONTH_NAMES, PayrollMonth, PayrollYearSummary, PayrollYearType } from '../types/api';
+import { getPayrollYearMonths, sumPayslips } from '../utils/payroll';
+import { handleApiError, logError } from '../utils/errorHandling';
+
+class PayrollSummaryService {
+  private static instance: PayrollSummaryService;
+
+  static getInstance(): PayrollSummaryService {
+    if (!PayrollSummaryService.instance) {
+      PayrollSummaryService.instance = new PayrollSummaryService();
+    }
+    return PayrollSummaryService.instance;
+  }
+
+  /**
+   * Payslips for every month of a payroll year so far. Payslips are cached by
+   * ApiClient, so revisiting a year only fetches the months that are not.
+   */
+  async getYearSummary(
+    employeeId: string,
+    type: PayrollYearType,
+    startYear: number
+  ): Promise<PayrollYearSummary> {
+    const now = moment();
+
+    const months = await Promise.all(
+      getPayrollYearMonths(type, startYear).map(async ({ month, year }): Promise<PayrollMonth> => {
+        if (moment({ year, month: MONTH_NAMES.indexOf(month), date: 1 }).isAfter(now, 'month')) {
+          return { month, year, status: 'upcoming', payslip: null };
+        }
+
+        try {
+          const response = await apiClient.getPayslip(employeeId, month, year.toString());
+          return response.success && response.data
+            ? { month, year, status: 'available', payslip: response.data }
+            : { month, year, status: 'missing', payslip: null };
+        } catch (error) {
+          logError(handleApiError(error), `Payroll summary ${month} ${year}`);
+          return { month, year, status: 'unavailable', payslip: null };
+        }
+      })
+    );
+
+    const payslips = months.flatMap(item => (item.payslip ? [item.payslip] : []));
+    return { type, startYear, months, totals: sumPayslips(payslips) };
+  }
+}
+
+export default PayrollSummaryService;
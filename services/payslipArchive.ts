@@ -0,0 +1,195 @@
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiClient from './apiClient';
+import { MONTH_NAMES, MonthName, PayslipArchiveEntry, PayslipResponse } from '../types/api';
+import { AppError, withRetry } from '../utils/errorHandling';
+
+// Logout has no employee id at hand, so employees with archived payslips are tracked here
+const OWNERS_KEY = 'payslip_archive_owners';
+
+export interface ArchivedPayslipResult {
+  response: PayslipResponse;
+  archivedAt: string | null; // set when the network failed and the archived copy was used
+  archiveError: Error | null; // set when the payslip loaded but could not be archived
+}
+
+/**
+ * Keeps every payslip the user has viewed in the device keystore, indefinitely and encrypted,
+ * unlike the 15-minute plain AsyncStorage cache in CacheManager. Each payslip is its own keystore
+ * entry; the index of archived months holds no pay data and grows with every month, so it lives
+ * in AsyncStorage, clear of the ~2 KB limit Android puts on a keystore value.
+ */
+class PayslipArchive {
+  private static instance: PayslipArchive;
+
+  static getInstance(): PayslipArchive {
+    if (!PayslipArchive.instance) {
+      PayslipArchive.instance = new PayslipArchive();
+    }
+    return PayslipArchive.instance;
+  }
+
+  private getIndexKey(employeeId: string): string {
+    return `payslip_archive_index_${employeeId}`;
+  }
+
+  // Where the index was kept in the keystore before it moved to AsyncStorage
+  private getLegacyIndexKey(employeeId: string): string {
+    return `payslip_archive_${employeeId}`;
+  }
+
+  private getEntryKey(employeeId: string, month: MonthName, year: number): string {
+    return `payslip_archive_${employeeId}_${year}_${month}`;
+  }
+
+  // Payslips are never written to unencrypted storage, so without a keystore there is no archive
+  private async isAvailable(): Promise<boolean> {
+    try {
+      return await SecureStore.isAvailableAsync();
+    } catch {
+      return false;
+    }
+  }
+
+  private async readJson<T>(key: string, fallback: T): Promise<T> {
+    const stored = await SecureStore.getItemAsync(key);
+    return stored ? JSON.parse(stored) : fallback;
+  }
+
+  private async readIndex(employeeId: string): Promise<PayslipArchiveEntry[]> {
+    const stored = await AsyncStorage.getItem(this.getIndexKey(employeeId));
+    if (stored) return JSON.parse(stored);
+
+    // Move an index left in the keystore by an earlier version
+    const legacy = await this.readJson<PayslipArchiveEntry[] | null>(this.getLegacyIndexKey(employeeId), null);
+    if (!legacy) return [];
+    await AsyncStorage.setItem(this.getIndexKey(employeeId), JSON.stringify(legacy));
+    await SecureStore.deleteItemAsync(this.getLegacyIndexKey(employeeId));
+    return legacy;
+  }
+
+  private async readOwners(): Promise<string[]> {
+    const stored = await AsyncStorage.getItem(OWNERS_KEY);
+    const owners: string[] = stored ? JSON.parse(stored) : [];
+    const legacy = await this.readJson<string[]>(OWNERS_KEY, []);
+    return [...new Set([...owners, ...legacy])];
+  }
+
+  /**
+   * Archived months for an employee, newest first
+   */
+  async list(employeeId: string): Promise<PayslipArchiveEntry[]> {
+    if (!(await this.isAvailable())) return [];
+
+    try {
+      const entries = await this.readIndex(employeeId);
+      return entries.sort(
+        (a, b) => b.year - a.year || MONTH_NAMES.indexOf(b.month) - MONTH_NAMES.indexOf(a.month)
+      );
+    } catch (error) {
+      console.error('Error loading payslip archive:', error);
+      return [];
+    }
+  }
+
+  async get(
+    employeeId: string,
+    month: MonthName,
+    year: number
+  ): Promise<{ payslip: PayslipResponse['data']; archivedAt: string } | null> {
+    if (!(await this.isAvailable())) return null;
+
+    try {
+      const entry = (await this.list(employeeId)).find(item => item.month === month && item.year === year);
+      const payslip = await this.readJson<PayslipResponse['data'] | null>(
+        this.getEntryKey(employeeId, month, year),
+        null
+      );
+      return entry && payslip ? { payslip, archivedAt: entry.archivedAt } : null;
+    } catch (error) {
+      console.error('Error reading archived payslip:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Throws ARCHIVE_SAVE_FAILED when the payslip could not be stored
+   */
+  async save(employeeId: string, month: MonthName, year: number, payslip: PayslipResponse['data']): Promise<void> {
+    if (!(await this.isAvailable())) return;
+
+    try {
+      await SecureStore.setItemAsync(this.getEntryKey(employeeId, month, year), JSON.stringify(payslip));
+
+      const entries = (await this.readIndex(employeeId)).filter(item => !(item.month === month && item.year === year));
+      entries.push({ month, year, archivedAt: new Date().toISOString() });
+      await AsyncStorage.setItem(this.getIndexKey(employeeId), JSON.stringify(entries));
+
+      const owners = await this.readOwners();
+      if (!owners.includes(employeeId)) {
+        await AsyncStorage.setItem(OWNERS_KEY, JSON.stringify([...owners, employeeId]));
+      }
+    } catch (error) {
+      console.error('Error archiving payslip:', error);
+      throw new AppError(
+        `The ${month} ${year} payslip could not be saved for offline use`,
+        'ARCHIVE_SAVE_FAILED',
+        error
+      );
+    }
+  }
+
+  /**
+   * Fetch a payslip, archiving it on success and falling back to the archived copy when the network fails
+   */
+  async getPayslip(employeeId: string, month: MonthName, year: number): Promise<ArchivedPayslipResult> {
+    let response: PayslipResponse;
+    try {
+      response = await withRetry(() => apiClient.getPayslip(employeeId, month, year.toString()), 2);
+    } catch (error) {
+      const archived = await this.get(employeeId, month, year);
+      if (!archived) throw error;
+
+      return {
+        response: { success: true, message: 'Loaded from offline archive', data: archived.payslip },
+        archivedAt: archived.archivedAt,
+        archiveError: null,
+      };
+    }
+
+    // The payslip on screen came from the network either way, so a failed save is only reported
+    let archiveError: Error | null = null;
+    if (response.success && response.data) {
+      try {
+        await this.save(employeeId, month, year, response.data);
+      } catch (error) {
+        archiveError = error as Error;
+      }
+    }
+    return { response, archivedAt: null, archiveError };
+  }
+
+  /**
+   * Remove every archived payslip on the device, for all employees who signed in
+   */
+  async clear(): Promise<void> {
+    if (!(await this.isAvailable())) return;
+
+    try {
+      const owners = await this.readOwners();
+      for (const employeeId of owners) {
+        const entries = await this.readIndex(employeeId);
+        await Promise.all(
+          entries.map(entry => SecureStore.deleteItemAsync(this.getEntryKey(employeeId, entry.month, entry.year)))
+        );
+        await AsyncStorage.removeItem(this.getIndexKey(employeeId));
+      }
+      await AsyncStorage.removeItem(OWNERS_KEY);
+      await SecureStore.deleteItemAsync(OWNERS_KEY);
+    } catch (error) {
+      console.error('Error clearing payslip archive:', error);
+    }
+  }
+}
+
+export default PayslipArchive;
@@ -0,0 +1,98 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiClient from './apiClient';
+import OfflineManager, { OfflineQueueItem, generateIdempotencyKey } from './offlineManager';
+import { PayslipDiscrepancyReport, PayslipIssue, PayslipIssueCode, PayslipResponse } from '../types/api';
+import { ValidationError } from '../utils/errorHandling';
+
+class PayslipDiscrepancyManager {
+  private static instance: PayslipDiscrepancyManager;
+
+  static getInstance(): PayslipDiscrepancyManager {
+    if (!PayslipDiscrepancyManager.instance) {
+      PayslipDiscrepancyManager.instance = new PayslipDiscrepancyManager();
+    }
+    return PayslipDiscrepancyManager.instance;
+  }
+
+  constructor() {
+    OfflineManager.getInstance().onFailure('/payslip/discrepancy', item => this.handleSyncFailure(item));
+  }
+
+  private getStorageKey(employeeId: string): string {
+    return `payslip_discrepancies_${employeeId}`;
+  }
+
+  private async getReports(employeeId: string): Promise<PayslipDiscrepancyReport[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.getStorageKey(employeeId));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading payslip discrepancy reports:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The report already sent for a payslip covering any of `codes`, so the same problem is not reported twice
+   */
+  async getReport(
+    employeeId: string,
+    month: string,
+    year: number,
+    codes: PayslipIssueCode[]
+  ): Promise<PayslipDiscrepancyReport | null> {
+    const reports = await this.getReports(employeeId);
+    return (
+      reports.find(
+        report =>
+          report.month.toLowerCase() === month.toLowerCase() &&
+          report.year === year &&
+          report.issues.some(issue => codes.includes(issue.code))
+      ) || null
+    );
+  }
+
+  async report(
+    employeeId: string,
+    payslip: PayslipResponse['data'],
+    issues: PayslipIssue[],
+    evidence?: string[]
+  ): Promise<{ report: PayslipDiscrepancyReport; queued: boolean }> {
+    if (issues.length === 0) {
+      throw new ValidationError('There are no discrepancies to report for this payslip');
+    }
+    if (await this.getReport(employeeId, payslip.month, payslip.year, issues.map(issue => issue.code))) {
+      throw new ValidationError('This payslip has already been reported to payroll');
+    }
+
+    const report: PayslipDiscrepancyReport = {
+      id: generateIdempotencyKey(),
+      employeeId,
+      month: payslip.month,
+      year: payslip.year,
+      issues,
+      evidence,
+      reportedAt: new Date().toISOString(),
+      synced: false,
+    };
+
+    const { queued } = await apiClient.reportPayslipDiscrepancy(report);
+    report.synced = !queued;
+
+    const reports = await this.getReports(employeeId);
+    await AsyncStorage.setItem(this.getStorageKey(employeeId), JSON.stringify([...reports, report]));
+    return { report, queued };
+  }
+
+  // A queued report the server rejected is dropped, so the payslip can be reported again
+  private async handleSyncFailure(item: OfflineQueueItem): Promise<void> {
+    const failed: PayslipDiscrepancyReport = item.data;
+    const reports = await this.getReports(failed.employeeId);
+    await AsyncStorage.setItem(
+      this.getStorageKey(failed.employeeId),
+      JSON.stringify(reports.filter(report => report.id !== failed.id))
+    );
+  }
+}
+
+export default PayslipDiscrepancyManager;
@@ -0,0 +1,90 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import ExportService from './exportService';
+import { PayrollYearSummary, PayslipResponse, User } from '../types/api';
+import { buildAnnualStatementHtml, buildPayslipHtml } from '../utils/payslipTemplate';
+
+class PayslipPdfService {
+  private static instance: PayslipPdfService;
+  private readonly payslipDirectoryName = 'payslips';
+
+  static getInstance(): PayslipPdfService {
+    if (!PayslipPdfService.instance) {
+      PayslipPdfService.instance = new PayslipPdfService();
+    }
+    return PayslipPdfService.instance;
+  }
+
+  // Pay data only lives in encrypted storage, so a PDF is kept in the cache just long enough to be shared
+  private getPayslipDirectory(): Directory {
+    const directory = new Directory(Paths.cache, this.payslipDirectoryName);
+    if (!directory.exists) {
+      directory.create({ intermediates: true });
+    }
+    return directory;
+  }
+
+  private getFileName(employeeId: string, month: string, year: number | string): string {
+    return `payslip_${employeeId}_${month.toLowerCase()}_${year}.pdf`;
+  }
+
+  /**
+   * Render the payslip to a PDF for sharing
+   */
+  async generate(payslip: PayslipResponse['data']): Promise<File> {
+    return ExportService.getInstance().writePdf(
+      this.getFileName(payslip.employeeId, payslip.month, payslip.year),
+      buildPayslipHtml(payslip),
+      this.getPayslipDirectory()
+    );
+  }
+
+  /**
+   * Annual earnings statement for a calendar or financial year
+   */
+  async generateAnnualStatement(summary: PayrollYearSummary, employee: User): Promise<File> {
+    return ExportService.getInstance().writePdf(
+      `earnings_statement_${employee.id}_${summary.type}_${summary.startYear}.pdf`,
+      buildAnnualStatementHtml(summary, employee),
+      this.getPayslipDirectory()
+    );
+  }
+
+  /**
+   * Share the PDF, then delete it once the share sheet has closed
+   */
+  async share(file: File, dialogTitle: string): Promise<void> {
+    try {
+      await ExportService.getInstance().share(file, 'pdf', dialogTitle);
+    } finally {
+      this.deleteFile(file);
+    }
+  }
+
+  /**
+   * Remove every payslip PDF left on the device, including ones earlier versions kept in the document directory
+   */
+  clear(): void {
+    for (const parent of [Paths.cache, Paths.document]) {
+      try {
+        const directory = new Directory(parent, this.payslipDirectoryName);
+        if (directory.exists) {
+          directory.delete();
+        }
+      } catch (error) {
+        console.error('Error clearing payslip PDFs:', error);
+      }
+    }
+  }
+
+  private deleteFile(file: File): void {
+    try {
+      if (file.exists) {
+        file.delete();
+      }
+    } catch (error) {
+      console.error('Error deleting payslip PDF:', error);
+    }
+  }
+}
+
+export default PayslipPdfService;
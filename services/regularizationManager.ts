@@ -0,0 +1,161 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import moment from 'moment';
+import apiClient from './apiClient';
+import OfflineManager, { OfflineQueueItem, generateIdempotencyKey } from './offlineManager';
+import { RegularizationReason, RegularizationRequest } from '../types/api';
+import { ValidationError } from '../utils/errorHandling';
+
+export interface RegularizationInput {
+  date: string; // DD/MM/YYYY
+  originalCheckin?: string;
+  originalCheckout?: string;
+  correctedCheckin: string;
+  correctedCheckout: string;
+  reasonType: RegularizationReason;
+  reason: string;
+}
+
+class RegularizationManager {
+  private static instance: RegularizationManager;
+  private readonly minReasonLength = 10;
+
+  static getInstance(): RegularizationManager {
+    if (!RegularizationManager.instance) {
+      RegularizationManager.instance = new RegularizationManager();
+    }
+    return RegularizationManager.instance;
+  }
+
+  constructor() {
+    OfflineManager.getInstance().onFailure('/regularization', item => this.handleSyncFailure(item));
+  }
+
+  private getStorageKey(employeeId: string): string {
+    return `regularizations_${employeeId}`;
+  }
+
+  async getRequests(employeeId: string): Promise<RegularizationRequest[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.getStorageKey(employeeId));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading regularization requests:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Latest request per attendance date, for showing row badges
+   */
+  async getRequestsByDate(employeeId: string): Promise<Record<string, RegularizationRequest>> {
+    const requests = await this.getRequests(employeeId);
+    return requests.reduce<Record<string, RegularizationRequest>>((byDate, request) => {
+      const existing = byDate[request.date];
+      if (!existing || moment(request.submittedAt).isAfter(existing.submittedAt)) {
+        byDate[request.date] = request;
+      }
+      return byDate;
+    }, {});
+  }
+
+  validate(input: RegularizationInput): void {
+    const checkin = moment(input.correctedCheckin);
+    const checkout = moment(input.correctedCheckout);
+
+    if (!checkin.isValid() || !checkout.isValid()) {
+      throw new ValidationError('Please enter valid check-in and check-out times');
+    }
+    if (!checkout.isAfter(checkin)) {
+      throw new ValidationError('Check-out time must be after check-in time');
+    }
+    if (checkout.isAfter(moment())) {
+      throw new ValidationError('Corrected times cannot be in the future');
+    }
+    if (input.reason.trim().length < this.minReasonLength) {
+      throw new ValidationError(`Please describe the reason (at least ${this.minReasonLength} characters)`);
+    }
+  }
+
+  async submit(employeeId: string, input: RegularizationInput): Promise<{ request: RegularizationRequest; queued: boolean }> {
+    this.validate(input);
+
+    const requests = await this.getRequests(employeeId);
+    if (requests.some(request => request.date === input.date && request.status === 'pending')) {
+      throw new ValidationError('A regularization request for this day is already pending');
+    }
+
+    const request: RegularizationRequest = {
+      id: generateIdempotencyKey(),
+      employeeId,
+      ...input,
+      reason: input.reason.trim(),
+      status: 'pending',
+      submittedAt: new Date().toISOString(),
+      synced: false,
+    };
+
+    const { queued } = await apiClient.submitRegularization(request);
+    request.synced = !queued;
+
+    await this.saveRequests(employeeId, [...requests, request]);
+    return { request, queued };
+  }
+
+  /**
+   * Pull request statuses from the server and merge them into the local copy.
+   * Returns the requests that were resolved since the last sync.
+   */
+  async syncStatuses(employeeId: string): Promise<RegularizationRequest[]> {
+    const local = await this.getRequests(employeeId);
+    const response = await apiClient.getRegularizations(employeeId);
+    const remoteById = new Map((response.data || []).map(request => [request.id, request]));
+
+    const newlyResolved: RegularizationRequest[] = [];
+    const merged = local.map(request => {
+      const remote = remoteById.get(request.id);
+      if (!remote) return request;
+
+      if (request.status === 'pending' && remote.status !== 'pending') {
+        newlyResolved.push({ ...request, ...remote });
+      }
+      return {
+        ...request,
+        status: remote.status,
+        resolvedAt: remote.resolvedAt,
+        reviewerComment: remote.reviewerComment,
+        synced: true,
+      };
+    });
+
+    // Requests filed from another device or by HR on the employee's behalf
+    remoteById.forEach(remote => {
+      if (!local.some(request => request.id === remote.id)) {
+        merged.push({ ...remote, synced: true });
+      }
+    });
+
+    await this.saveRequests(employeeId, merged);
+    return newlyResolved;
+  }
+
+  async clear(employeeId: string): Promise<void> {
+    await AsyncStorage.removeItem(this.getStorageKey(employeeId));
+  }
+
+  // A queued regularization request the server rejected is dropped, so it no longer shows as pending and can be sent again
+  private async handleSyncFailure(item: OfflineQueueItem): Promise<void> {
+    const failed: RegularizationRequest = item.data;
+    const requests = await this.getRequests(failed.employeeId);
+    await this.saveRequests(failed.employeeId, requests.filter(request => request.id !== failed.id));
+  }
+
+  private async saveRequests(employeeId: string, requests: RegularizationRequest[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.getStorageKey(employeeId), JSON.stringify(requests));
+    } catch (error) {
+      console.error('Error saving regularization requests:', error);
+    }
+  }
+}
+
+export default RegularizationManager;
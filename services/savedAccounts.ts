@@ -0,0 +1,49 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SavedAccount } from '../types/api';
+
+// Only usernames and display names; passwords stay with BiometricLoginService
+const STORAGE_KEY = 'saved_accounts';
+const MAX_SAVED_ACCOUNTS = 5;
+
+class SavedAccountsService {
+  private static instance: SavedAccountsService;
+
+  static getInstance(): SavedAccountsService {
+    if (!SavedAccountsService.instance) {
+      SavedAccountsService.instance = new SavedAccountsService();
+    }
+    return SavedAccountsService.instance;
+  }
+
+  /**
+   * Most recently used first
+   */
+  async getAccounts(): Promise<SavedAccount[]> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const accounts: SavedAccount[] = stored ? JSON.parse(stored) : [];
+      return accounts.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+    } catch (error) {
+      console.error('Error loading saved accounts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add the account, or move it to the top when it is already saved.
+   * The least recently used account makes room once the list is full; the accounts dropped are returned.
+   */
+  async save(account: Omit<SavedAccount, 'lastUsedAt'>): Promise<SavedAccount[]> {
+    const others = (await this.getAccounts()).filter(saved => saved.username !== account.username);
+    const accounts = [{ ...account, lastUsedAt: new Date().toISOString() }, ...others];
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(accounts.slice(0, MAX_SAVED_ACCOUNTS)));
+    return accounts.slice(MAX_SAVED_ACCOUNTS);
+  }
+
+  async remove(username: string): Promise<void> {
+    const accounts = (await this.getAccounts()).filter(saved => saved.username !== username);
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(accounts));
+  }
+}
+
+export default SavedAccountsService;
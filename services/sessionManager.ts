@@ -0,0 +1,191 @@
+import * as SecureStore from 'expo-secure-store';
+import { AppState, AppStateStatus } from 'react-native';
+import { AuthenticationError } from '../utils/errorHandling';
+
+// When the current token stops being accepted, kept so the expiry survives a restart
+const EXPIRY_STORAGE_KEY = 'willware_session_expiry';
+// How long before expiry the user is asked to sign in again
+export const SESSION_WARNING_MS = 5 * 60 * 1000;
+
+/**
+ * active:   the token is good
+ * expiring: within the warning window; the user is signed out at expiry unless they sign in again
+ * expired:  the server rejected the token, or it ran out while the app was closed;
+ *           requests wait until the user signs in again or signs out
+ * ended:    the warning ran out, the app should sign out
+ */
+export type SessionStatus = 'active' | 'expiring' | 'expired' | 'ended';
+
+export interface SessionState {
+  status: SessionStatus;
+  expiresAt: number | null; // epoch ms
+}
+
+type SessionListener = (state: SessionState) => void;
+
+interface PendingRequest {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * The `exp` claim of a JWT in epoch ms, or null when the token is opaque
+ */
+export const decodeTokenExpiry = (token: string): number | null => {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=');
+    const { exp } = JSON.parse(atob(base64));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+class SessionManager {
+  private static instance: SessionManager;
+  private state: SessionState = { status: 'active', expiresAt: null };
+  private listeners = new Set<SessionListener>();
+  private pending: PendingRequest[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  static getInstance(): SessionManager {
+    if (!SessionManager.instance) {
+      SessionManager.instance = new SessionManager();
+    }
+    return SessionManager.instance;
+  }
+
+  constructor() {
+    // Timers do not run in the background, so catch up as soon as the app is back
+    AppState.addEventListener('change', (appState: AppStateStatus) => {
+      if (appState === 'active') this.evaluate();
+    });
+  }
+
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): SessionState {
+    return this.state;
+  }
+
+  /**
+   * Track a token that was just issued. A JWT carries its own expiry;
+   * anything else is assumed to last the configured lifetime from now.
+   */
+  async begin(token: string, fallbackLifetimeMs: number): Promise<void> {
+    const expiresAt = decodeTokenExpiry(token) ?? Date.now() + fallbackLifetimeMs;
+    try {
+      await SecureStore.setItemAsync(EXPIRY_STORAGE_KEY, String(expiresAt));
+    } catch (error) {
+      console.error('Error saving session expiry:', error);
+    }
+
+    this.setState({ status: 'active', expiresAt });
+    this.schedule();
+
+    // Requests held back by an expired session go through with the new token
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(request => request.resolve());
+  }
+
+  /**
+   * Pick up the stored session on app start. A session with no recorded expiry
+   * predates this tracking, so it gets a fresh lifetime.
+   */
+  async resume(token: string, fallbackLifetimeMs: number): Promise<void> {
+    let expiresAt = decodeTokenExpiry(token);
+    if (expiresAt === null) {
+      try {
+        const stored = await SecureStore.getItemAsync(EXPIRY_STORAGE_KEY);
+        expiresAt = stored ? Number(stored) : null;
+      } catch (error) {
+        console.error('Error loading session expiry:', error);
+      }
+    }
+    if (expiresAt === null) {
+      await this.begin(token, fallbackLifetimeMs);
+      return;
+    }
+
+    // Nobody saw a warning while the app was closed, so ask to sign in rather than signing out
+    this.setState({ status: expiresAt <= Date.now() ? 'expired' : 'active', expiresAt });
+    this.schedule();
+  }
+
+  /**
+   * Mark the session as rejected by the server and wait for the user to sign in again.
+   * Resolves once a new token is stored; rejects if the user signs out instead.
+   */
+  waitForReauthentication(): Promise<void> {
+    if (this.state.status !== 'expired') {
+      this.clearTimer();
+      this.setState({ ...this.state, status: 'expired' });
+    }
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Stop tracking on sign-out; requests still waiting for a new token fail
+   */
+  async end(): Promise<void> {
+    this.clearTimer();
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(request => request.reject(new AuthenticationError('You have been signed out')));
+
+    try {
+      await SecureStore.deleteItemAsync(EXPIRY_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error clearing session expiry:', error);
+    }
+    this.setState({ status: 'active', expiresAt: null });
+  }
+
+  private evaluate(): void {
+    const { status, expiresAt } = this.state;
+    if (expiresAt === null || status === 'expired' || status === 'ended') return;
+
+    const remaining = expiresAt - Date.now();
+    if (remaining <= 0) {
+      // The user was warned and did not sign in again
+      this.setState({ ...this.state, status: status === 'expiring' ? 'ended' : 'expired' });
+    } else if (remaining <= SESSION_WARNING_MS && status !== 'expiring') {
+      this.setState({ ...this.state, status: 'expiring' });
+    }
+    this.schedule();
+  }
+
+  private schedule(): void {
+    this.clearTimer();
+    const { status, expiresAt } = this.state;
+    if (expiresAt === null || (status !== 'active' && status !== 'expiring')) return;
+
+    const nextCheck = status === 'active' ? expiresAt - SESSION_WARNING_MS : expiresAt;
+    this.timer = setTimeout(() => this.evaluate(), Math.max(nextCheck - Date.now(), 0));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private setState(state: SessionState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export default SessionManager;
@@ -0,0 +1,50 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import PayrollSummaryService from './payrollSummary';
+import { EMPTY_TAX_DECLARATIONS } from '../constants/taxRegimes';
+import { PayrollYearSummary, TaxDeclarations } from '../types/api';
+import { TaxEstimate, estimateTax, projectAnnualIncome } from '../utils/taxCalculator';
+
+class TaxPlanner {
+  private static instance: TaxPlanner;
+
+  static getInstance(): TaxPlanner {
+    if (!TaxPlanner.instance) {
+      TaxPlanner.instance = new TaxPlanner();
+    }
+    return TaxPlanner.instance;
+  }
+
+  private getStorageKey(employeeId: string, startYear: number): string {
+    return `tax_declarations_${employeeId}_${startYear}`;
+  }
+
+  /**
+   * Declarations the employee entered for a financial year; they stay on this device only
+   */
+  async getDeclarations(employeeId: string, startYear: number): Promise<TaxDeclarations> {
+    try {
+      const stored = await AsyncStorage.getItem(this.getStorageKey(employeeId, startYear));
+      return stored ? { ...EMPTY_TAX_DECLARATIONS, ...JSON.parse(stored) } : EMPTY_TAX_DECLARATIONS;
+    } catch (error) {
+      console.error('Error loading tax declarations:', error);
+      return EMPTY_TAX_DECLARATIONS;
+    }
+  }
+
+  async saveDeclarations(employeeId: string, startYear: number, declarations: TaxDeclarations): Promise<void> {
+    await AsyncStorage.setItem(this.getStorageKey(employeeId, startYear), JSON.stringify(declarations));
+  }
+
+  /**
+   * Financial-year payslips; load once, then re-estimate locally as declarations change
+   */
+  async getPayroll(employeeId: string, startYear: number): Promise<PayrollYearSummary> {
+    return PayrollSummaryService.getInstance().getYearSummary(employeeId, 'financial', startYear);
+  }
+
+  estimate(payroll: PayrollYearSummary, declarations: TaxDeclarations): TaxEstimate {
+    return estimateTax(projectAnnualIncome(payroll.months), declarations);
+  }
+}
+
+export default TaxPlanner;
@@ -36,6 +36,7 @@ export interface AuthResponse {
 // Mobile App User Interface
 export interface User {
   id: string;
+  username: string;
   name: string;
   email: string;
   role: 'employee';
@@ -44,13 +45,32 @@ export interface User {
   workLocation?: string;
 }
 
+// An account remembered on this device for the login screen's account chooser
+export interface SavedAccount {
+  username: string;
+  name: string;
+  employeeId: string;
+  lastUsedAt: string; // ISO timestamp
+}
+
+// Break Types
+export type BreakReason = 'lunch' | 'tea' | 'personal' | 'meeting' | 'other';
+
+export interface BreakRecord {
+  id: string;
+  reason: BreakReason;
+  start: string;  // ISO timestamp
+  end?: string;   // ISO timestamp, missing while the break is running
+}
+
 // Employee Details & Status
 export interface TimeLog {
   date: string;       // YYYY-MM-DD format
   checkin?: string;   // ISO timestamp
   checkout?: string;  // ISO timestamp
-  totalhours?: string; // calculated hours
+  totalhours?: string; // calculated hours (gross presence, breaks included)
   autocheckout?: boolean;
+  breaks?: BreakRecord[];
 }
 
 export interface EmployeeDetailsResponse {
@@ -78,7 +98,8 @@ export interface EmployeeDetailsResponse {
     // Additional fields from /view API
     wwtId?: string;
     additionalFiled?: string;
-    alternativeBankAccount?: string | null;
+    alternativeBankAccount?: string | null; // account number only
+    alternativeBankIfsc?: string | null;
     alternativePhoneNumber?: string | null;
     basicPay?: number;
     esi?: number;
@@ -91,9 +112,55 @@ export interface EmployeeDetailsResponse {
   };
 }
 
+// Fields employees may change themselves; everything else is maintained by HR
+export type EditableProfileField =
+  | 'phone'
+  | 'alternativePhoneNumber'
+  | 'address'
+  | 'alternativeBankAccount'
+  | 'alternativeBankIfsc';
+
+export type ProfileUpdate = Partial<Record<EditableProfileField, string>>;
+
+// Geofencing Types
+// block = refuse the punch, warn = ask the user to confirm, flag = allow but mark for HR audit
+export type GeofencePolicy = 'block' | 'warn' | 'flag';
+
+export interface OfficeLocation {
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  policy: GeofencePolicy;
+}
+
+export interface PunchLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;        // metres, as reported by the device
+  distance: number | null;        // metres from the office centre, null when no office is configured
+  withinGeofence: boolean | null; // null when no office is configured
+  officeLocation?: string;        // employee's workLocation the fence was resolved from
+  capturedAt: string;             // ISO timestamp of the position fix
+}
+
+// Why a punch was let through for HR review instead of being verified at the office
+export type PunchFlagReason = 'outside_geofence' | 'location_unavailable';
+
+export interface PunchFlag {
+  reason: PunchFlagReason;
+  detail?: string; // what the device reported, e.g. the distance or the location error
+}
+
 // Check-In/Out Types
+export type PunchType = 'checkin' | 'checkout';
+
 export interface CheckInRequest {
   id: string; // Employee ID from auth token
+  location?: PunchLocation;
+  flag?: PunchFlag;         // set when the location could not be verified against the office fence
+  deviceTimestamp?: string; // ISO timestamp of when the punch was made on the device
+  offline?: boolean;        // true when the punch was queued offline and replayed later
 }
 
 export interface CheckinResponse {
@@ -103,6 +170,10 @@ export interface CheckinResponse {
 
 export interface CheckOutRequest {
   id: string; // Employee ID from auth token
+  location?: PunchLocation;
+  flag?: PunchFlag;
+  deviceTimestamp?: string;
+  offline?: boolean;
 }
 
 export interface CheckoutResponse {
@@ -110,6 +181,144 @@ export interface CheckoutResponse {
   timelog?: TimeLog[];
 }
 
+export interface PunchOptions {
+  deviceTimestamp?: string;
+  idempotencyKey?: string; // sent as the Idempotency-Key header so replays are not double-counted
+  offline?: boolean;
+  flag?: PunchFlag;
+}
+
+export interface PunchResult {
+  message: string;
+  queued: boolean; // true when the punch was saved offline and is pending sync
+  timelog?: TimeLog[];
+}
+
+export interface BreakRequest {
+  id: string; // Employee ID from auth token
+  breakId: string;
+  date: string;    // DD/MM/YYYY, same format as TimeLog.date from the API
+  reason?: BreakReason;
+  start?: string;
+  end?: string;
+}
+
+export interface PendingPunch {
+  id: string; // idempotency key of the queued request
+  type: PunchType;
+  employeeId: string;
+  deviceTimestamp: string;
+  lastError?: string;
+}
+
+// A queued request the server rejected for good, of any kind
+export interface FailedRequest {
+  id: string;
+  label: string;      // what was sent, e.g. "Check-in" or "Advance request"
+  recordedAt: string; // ISO timestamp of when it was made on the device
+  lastError?: string;
+  punchType?: PunchType;
+}
+
+// Attendance Regularization Types
+export type RegularizationStatus = 'pending' | 'approved' | 'rejected';
+
+export type RegularizationReason = 'missed_checkout' | 'missed_checkin' | 'wrong_punch' | 'on_duty' | 'other';
+
+export interface RegularizationRequest {
+  id: string;
+  employeeId: string;
+  date: string;                // DD/MM/YYYY, same format as TimeLog.date
+  originalCheckin?: string;    // ISO timestamps as recorded by the server
+  originalCheckout?: string;
+  correctedCheckin: string;    // ISO timestamps requested by the employee
+  correctedCheckout: string;
+  reasonType: RegularizationReason;
+  reason: string;
+  status: RegularizationStatus;
+  submittedAt: string;
+  resolvedAt?: string;
+  reviewerComment?: string;
+  synced: boolean;             // false while the request is still in the offline queue
+}
+
+export interface RegularizationListResponse {
+  data: RegularizationRequest[];
+}
+
+// Leave Types
+export type LeaveType = 'casual' | 'sick' | 'earned' | 'comp_off' | 'unpaid';
+
+export type LeaveSession = 'full_day' | 'first_half' | 'second_half';
+
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface LeaveBalance {
+  type: LeaveType;
+  total: number;     // days credited for the year
+  used: number;      // approved days taken
+  pending: number;   // days held by pending applications
+  available: number; // total - used - pending
+}
+
+export interface LeaveApplication {
+  id: string;
+  employeeId: string;
+  type: LeaveType;
+  fromDate: string;   // DD/MM/YYYY, same format as TimeLog.date
+  toDate: string;     // DD/MM/YYYY, equal to fromDate for single-day leave
+  session: LeaveSession; // half-day sessions only apply to single-day leave
+  days: number;       // 0.5 for half-day leave
+  reason: string;
+  status: LeaveStatus;
+  appliedAt: string;
+  resolvedAt?: string;
+  reviewerComment?: string;
+}
+
+export interface LeaveBalanceResponse {
+  data: LeaveBalance[];
+}
+
+export interface LeaveListResponse {
+  data: LeaveApplication[];
+}
+
+// Shift Types
+export interface ShiftDefinition {
+  id: string;
+  name: string;
+  start: string;          // HH:mm, local time
+  end: string;            // HH:mm; earlier than start for shifts that cross midnight
+  graceMinutes: number;   // late arrival / early exit tolerance
+  minHours: number;       // minimum net working hours for a full day
+}
+
+export interface ShiftResponse {
+  data: ShiftDefinition;
+}
+
+export type AttendanceFlag = 'on_time' | 'late' | 'early_exit' | 'short_hours' | 'overtime';
+
+// Holiday Calendar Types
+export interface Holiday {
+  date: string;          // DD/MM/YYYY, same format as TimeLog.date
+  name: string;
+  optional?: boolean;    // restricted holidays are working days unless taken as leave
+}
+
+export interface HolidayListResponse {
+  data: Holiday[];
+}
+
+export type WeeklyOffPreset = 'sunday' | 'saturday_sunday' | 'alternate_saturday';
+
+export interface WeeklyOffPattern {
+  preset: WeeklyOffPreset;
+  weekdays: number[];       // days always off, 0 = Sunday
+  saturdayWeeks: number[];  // nth Saturdays of the month that are off (1-5)
+}
+
 export interface AllCheckinResponse {
   data: TimeLog[];
 }
@@ -129,6 +338,7 @@ export interface PayslipResponse {
     joiningDate: string;
     lopDays: number;
     workedDays: number;
+    totalDays?: number; // payable days in the month, when payroll sends its own base (e.g. a fixed 30)
     bankAccount: string;
     uan: string;
     esiNumber: string;
@@ -155,6 +365,103 @@ export interface PayslipResponse {
   };
 }
 
+// Payslip integrity
+export type PayslipIssueCode =
+  | 'earnings_total'
+  | 'deductions_total'
+  | 'net_pay'
+  | 'amount_words'
+  | 'days_in_month'
+  | 'lop_mismatch'; // payroll LOP differs from the attendance record
+
+export interface PayslipIssue {
+  code: PayslipIssueCode;
+  message: string;
+  expected?: number;
+  actual?: number;
+}
+
+export interface PayslipDiscrepancyReport {
+  id: string;
+  employeeId: string;
+  month: string;
+  year: number;
+  issues: PayslipIssue[];
+  evidence?: string[]; // supporting lines, e.g. punches on days counted as LOP
+  reportedAt: string;
+  synced: boolean; // false while the report is still in the offline queue
+}
+
+// Staff advances
+export type AdvanceRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AdvanceRequest {
+  id: string;
+  employeeId: string;
+  amount: number;
+  installments: number; // months over which the employee asks to repay
+  reason: string;
+  status: AdvanceRequestStatus;
+  submittedAt: string;
+  resolvedAt?: string;
+  reviewerComment?: string;
+  synced: boolean; // false while the request is still in the offline queue
+}
+
+export interface AdvanceRequestListResponse {
+  data: AdvanceRequest[];
+}
+
+// Payslips kept on the device for offline viewing
+export interface PayslipArchiveEntry {
+  month: MonthName;
+  year: number;
+  archivedAt: string;
+}
+
+// Year-to-date payroll
+export type PayrollYearType = 'calendar' | 'financial'; // financial years run April-March
+
+export type PayrollMonthStatus = 'available' | 'missing' | 'unavailable' | 'upcoming';
+
+export interface PayrollTotals {
+  totalEarnings: number;
+  pf: number;
+  esi: number;
+  tds: number;
+  staffAdvance: number;
+  totalDeductions: number;
+  netPay: number;
+}
+
+export interface PayrollMonth {
+  month: MonthName;
+  year: number;
+  status: PayrollMonthStatus; // unavailable: the payslip could not be loaded, e.g. offline
+  payslip: PayslipResponse['data'] | null;
+}
+
+export interface PayrollYearSummary {
+  type: PayrollYearType;
+  startYear: number;
+  months: PayrollMonth[];
+  totals: PayrollTotals;
+}
+
+// Income-tax planning
+export type TaxRegime = 'old' | 'new';
+
+// Amounts the employee declares for the financial year, in rupees
+export interface TaxDeclarations {
+  section80C: number;        // excluding employee PF, which is taken from payslips
+  section80D: number;
+  section80CCD1B: number;
+  hraExemption: number;
+  homeLoanInterest: number;
+  otherDeductions: number;
+  otherIncome: number;       // taxable in both regimes
+}
+
 // All Employees Response
 export interface AllEmployeesResponse {
   data: Array<{
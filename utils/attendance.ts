@@ -0,0 +1,128 @@
+import moment from 'moment';
+import { OVERTIME_THRESHOLD_MINUTES } from '../constants/shifts';
+import { AttendanceFlag, BreakRecord, ShiftDefinition } from '../types/api';
+
+// Date format used by the attendance API for TimeLog.date
+export const ATTENDANCE_DATE_FORMAT = 'DD/MM/YYYY';
+
+/**
+ * Parse an "HH:MM" duration string from the API into minutes
+ */
+export const parseHoursToMinutes = (value?: string | null): number => {
+  if (!value) return 0;
+  const [hours, minutes] = value.split(':').map(Number);
+  if (isNaN(hours)) return 0;
+  return (hours * 60) + (isNaN(minutes) ? 0 : minutes);
+};
+
+/**
+ * Format minutes as "H:MM" (or "HH:MM" when padHours is set)
+ */
+export const formatMinutes = (totalMinutes: number, padHours: boolean = false): string => {
+  const safeMinutes = Math.max(0, Math.round(totalMinutes));
+  const hours = Math.floor(safeMinutes / 60);
+  const minutes = safeMinutes % 60;
+  const hoursText = padHours ? hours.toString().padStart(2, '0') : hours.toString();
+  return `${hoursText}:${minutes.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Total break time in minutes; a running break counts up to `now`
+ */
+export const getBreakMinutes = (breaks: BreakRecord[] = [], now: moment.Moment = moment()): number =>
+  breaks.reduce((total, item) => {
+    const end = item.end ? moment(item.end) : now;
+    return total + Math.max(0, end.diff(moment(item.start), 'minutes'));
+  }, 0);
+
+/**
+ * Gross presence (check-in to check-out) for a day, in minutes.
+ * Uses the server's totalhours when present, otherwise the punches themselves.
+ */
+export const getGrossMinutes = (
+  log: { checkin?: string; checkout?: string; totalhours?: string },
+  now: moment.Moment = moment()
+): number => {
+  if (log.totalhours && parseHoursToMinutes(log.totalhours) > 0) {
+    return parseHoursToMinutes(log.totalhours);
+  }
+  if (!log.checkin) return 0;
+  const end = log.checkout ? moment(log.checkout) : now;
+  return Math.max(0, end.diff(moment(log.checkin), 'minutes'));
+};
+
+/**
+ * Net working time for a day: gross presence minus breaks
+ */
+export const getNetMinutes = (
+  log: { checkin?: string; checkout?: string; totalhours?: string },
+  breaks: BreakRecord[] = [],
+  now: moment.Moment = moment()
+): number => Math.max(0, getGrossMinutes(log, now) - getBreakMinutes(breaks, now));
+
+export interface ShiftEvaluation {
+  flags: AttendanceFlag[];
+  lateMinutes: number;
+  earlyExitMinutes: number;
+  overtimeMinutes: number;
+}
+
+/**
+ * Scheduled start and end of a shift on an attendance date (DD/MM/YYYY).
+ * Shifts ending before they start run into the next day.
+ */
+export const getShiftWindow = (date: string, shift: ShiftDefinition) => {
+  const start = moment(`${date} ${shift.start}`, `${ATTENDANCE_DATE_FORMAT} HH:mm`);
+  const end = moment(`${date} ${shift.end}`, `${ATTENDANCE_DATE_FORMAT} HH:mm`);
+  if (!end.isAfter(start)) {
+    end.add(1, 'day');
+  }
+  return { start, end };
+};
+
+/**
+ * Flag a day against the employee's shift. Late arrival and early exit allow
+ * the grace period; short hours compare net time with the shift minimum and
+ * overtime compares net time with the scheduled shift length.
+ * Until the employee checks out only arrival can be judged.
+ */
+export const evaluateShift = (
+  log: { date: string; checkin?: string; checkout?: string; totalhours?: string },
+  shift: ShiftDefinition,
+  breaks: BreakRecord[] = [],
+  now: moment.Moment = moment()
+): ShiftEvaluation => {
+  const evaluation: ShiftEvaluation = { flags: [], lateMinutes: 0, earlyExitMinutes: 0, overtimeMinutes: 0 };
+  if (!log.checkin) return evaluation;
+
+  const { start, end } = getShiftWindow(log.date, shift);
+
+  evaluation.lateMinutes = Math.max(0, moment(log.checkin).diff(start, 'minutes'));
+  if (evaluation.lateMinutes > shift.graceMinutes) {
+    evaluation.flags.push('late');
+  }
+
+  if (log.checkout) {
+    evaluation.earlyExitMinutes = Math.max(0, end.diff(moment(log.checkout), 'minutes'));
+    if (evaluation.earlyExitMinutes > shift.graceMinutes) {
+      evaluation.flags.push('early_exit');
+    }
+
+    const netMinutes = getNetMinutes(log, breaks, now);
+    if (netMinutes < shift.minHours * 60) {
+      evaluation.flags.push('short_hours');
+    }
+
+    const extraMinutes = netMinutes - end.diff(start, 'minutes');
+    if (extraMinutes > OVERTIME_THRESHOLD_MINUTES) {
+      evaluation.overtimeMinutes = extraMinutes;
+      evaluation.flags.push('overtime');
+    }
+  }
+
+  if (!evaluation.flags.some(flag => flag === 'late' || flag === 'early_exit' || flag === 'short_hours')) {
+    evaluation.flags.unshift('on_time');
+  }
+
+  return evaluation;
+};
@@ -0,0 +1,200 @@
+import moment from 'moment';
+import { ATTENDANCE_FLAG_META } from '../constants/shifts';
+import { getLeaveSessionLabel, getLeaveTypeMeta } from '../constants/leaveTypes';
+import { Holiday, LeaveApplication, BreakRecord, ShiftDefinition } from '../types/api';
+import { escapeHtml, toCsvRow } from '../services/exportService';
+import { ATTENDANCE_DATE_FORMAT, formatMinutes, getBreakMinutes, getGrossMinutes } from './attendance';
+import { AttendanceRecord, AttendanceStats, evaluateRecord, getRecordBreaks } from './attendanceStats';
+
+export interface AttendanceExportMeta {
+  employeeId: string;
+  employeeName: string;
+  department?: string;
+  designation?: string;
+  from: moment.Moment;
+  to: moment.Moment;
+  shift: ShiftDefinition;
+}
+
+export interface AttendanceExportRow {
+  date: string;
+  day: string;
+  checkin: string;
+  checkout: string;
+  grossHours: string;
+  breakTime: string;
+  netHours: string;
+  status: string;
+}
+
+/**
+ * One row per day in the period that has a record, approved leave or a holiday
+ */
+export const buildAttendanceExportRows = (
+  records: AttendanceRecord[],
+  options: {
+    from: moment.Moment;
+    to: moment.Moment;
+    shift: ShiftDefinition;
+    localBreaks: Record<string, BreakRecord[]>;
+    approvedLeave: Record<string, LeaveApplication>;
+    holidays: Record<string, Holiday>;
+  }
+): AttendanceExportRow[] => {
+  const rows: AttendanceExportRow[] = [];
+  const day = options.from.clone().startOf('day');
+  const today = moment().format(ATTENDANCE_DATE_FORMAT);
+
+  while (day.isSameOrBefore(options.to, 'day')) {
+    const date = day.format(ATTENDANCE_DATE_FORMAT);
+    const record = records.find(item => item.date === date);
+    const leave = options.approvedLeave[date];
+    const holiday = options.holidays[date];
+
+    if (record) {
+      const gross = getGrossMinutes(record);
+      const breaks = Math.min(gross, getBreakMinutes(getRecordBreaks(record, options.localBreaks)));
+      let status = evaluateRecord(record, options.shift, options.localBreaks)
+        .flags.map(flag => ATTENDANCE_FLAG_META[flag].label)
+        .join(' / ');
+      if (record.autocheckout) {
+        status = `Auto Out${status ? ` / ${status}` : ''}`;
+      } else if (!record.checkout) {
+        // Today's open day has not been missed yet
+        status = date === today ? 'In Progress' : 'Missed Out';
+      }
+      if (leave) {
+        const leaveLabel = getLeaveTypeMeta(leave.type).label;
+        status = `${leave.session === 'full_day' ? leaveLabel : `${leaveLabel} (${getLeaveSessionLabel(leave.session)})`} / ${status}`;
+      }
+
+      rows.push({
+        date,
+        day: day.format('ddd'),
+        checkin: record.checkin ? moment(record.checkin).format('hh:mm A') : '',
+        checkout: record.checkout ? moment(record.checkout).format('hh:mm A') : '',
+        grossHours: formatMinutes(gross),
+        breakTime: formatMinutes(breaks),
+        netHours: formatMinutes(gross - breaks),
+        status,
+      });
+    } else if (leave || holiday) {
+      rows.push({
+        date,
+        day: day.format('ddd'),
+        checkin: '',
+        checkout: '',
+        grossHours: '',
+        breakTime: '',
+        netHours: '',
+        status: leave ? getLeaveTypeMeta(leave.type).label : `Holiday - ${holiday.name}`,
+      });
+    }
+
+    day.add(1, 'day');
+  }
+
+  return rows;
+};
+
+const formatPeriod = (meta: AttendanceExportMeta) =>
+  `${meta.from.format('DD MMM YYYY')} - ${meta.to.format('DD MMM YYYY')}`;
+
+const getSummaryItems = (stats: AttendanceStats): [string, string | number][] => [
+  ['Working Days', stats.workingDays],
+  ['Present Days', stats.presentDays],
+  ['Attendance', `${stats.attendancePercentage}%`],
+  ['Unexplained Absences', stats.unexplainedAbsences.length],
+  ['Gross Hours', stats.totalHours],
+  ['Break Time', stats.breakHours],
+  ['Net Hours', stats.netHours],
+  ['Avg Net/Day', stats.avgHoursPerDay],
+  ...Object.entries(stats.flagCounts).map(
+    ([flag, count]) => [ATTENDANCE_FLAG_META[flag as keyof typeof ATTENDANCE_FLAG_META].label, count] as [string, number]
+  ),
+];
+
+const ROW_HEADERS = ['Date', 'Day', 'Check In', 'Check Out', 'Gross Hours', 'Break Time', 'Net Hours', 'Status'];
+
+export const buildAttendanceCsv = (
+  meta: AttendanceExportMeta,
+  stats: AttendanceStats,
+  rows: AttendanceExportRow[]
+): string => {
+  const lines = [
+    toCsvRow(['Employee', meta.employeeName]),
+    toCsvRow(['Employee ID', meta.employeeId]),
+    toCsvRow(['Period', formatPeriod(meta)]),
+    toCsvRow(['Shift', `${meta.shift.name} (${meta.shift.start} - ${meta.shift.end})`]),
+    '',
+    ...getSummaryItems(stats).map(item => toCsvRow(item)),
+    '',
+    toCsvRow(ROW_HEADERS),
+    ...rows.map(row =>
+      toCsvRow([row.date, row.day, row.checkin, row.checkout, row.grossHours, row.breakTime, row.netHours, row.status])
+    ),
+  ];
+  return lines.join('\r\n');
+};
+
+export const buildAttendanceHtml = (
+  meta: AttendanceExportMeta,
+  stats: AttendanceStats,
+  rows: AttendanceExportRow[]
+): string => {
+  const summary = getSummaryItems(stats)
+    .map(([label, value]) => `<div class="stat"><b>${escapeHtml(value)}</b><span>${escapeHtml(label)}</span></div>`)
+    .join('');
+
+  const tableRows = rows
+    .map(
+      row => `<tr>
+        <td>${escapeHtml(row.date)}</td><td>${escapeHtml(row.day)}</td>
+        <td>${escapeHtml(row.checkin)}</td><td>${escapeHtml(row.checkout)}</td>
+        <td>${escapeHtml(row.grossHours)}</td><td>${escapeHtml(row.breakTime)}</td>
+        <td>${escapeHtml(row.netHours)}</td><td>${escapeHtml(row.status)}</td>
+      </tr>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #212121; padding: 24px; font-size: 12px; }
+  h1 { color: #2196F3; font-size: 20px; margin: 0; }
+  h2 { font-size: 14px; margin: 24px 0 8px; }
+  .meta { color: #757575; margin-top: 4px; }
+  .summary { display: flex; flex-wrap: wrap; gap: 8px; }
+  .stat { border: 1px solid #E0E0E0; border-radius: 8px; padding: 8px; width: 110px; text-align: center; }
+  .stat b { display: block; font-size: 16px; color: #2196F3; }
+  .stat span { color: #757575; font-size: 10px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { background: #E3F2FD; text-align: left; }
+  th, td { padding: 6px; border-bottom: 1px solid #EEEEEE; }
+  .footer { margin-top: 24px; color: #9E9E9E; font-size: 10px; }
+</style>
+</head>
+<body>
+  <h1>WillwareTech - Attendance Report</h1>
+  <div class="meta">${escapeHtml(meta.employeeName)} (${escapeHtml(meta.employeeId)})${
+    meta.designation ? ` · ${escapeHtml(meta.designation)}` : ''
+  }${meta.department ? ` · ${escapeHtml(meta.department)}` : ''}</div>
+  <div class="meta">Period: ${escapeHtml(formatPeriod(meta))} · Shift: ${escapeHtml(meta.shift.name)} (${escapeHtml(
+    meta.shift.start
+  )} - ${escapeHtml(meta.shift.end)})</div>
+
+  <h2>Summary</h2>
+  <div class="summary">${summary}</div>
+
+  <h2>Daily Records</h2>
+  <table>
+    <thead><tr>${ROW_HEADERS.map(header => `<th>${header}</th>`).join('')}</tr></thead>
+    <tbody>${tableRows || '<tr><td colspan="8">No attendance records in this period</td></tr>'}</tbody>
+  </table>
+
+  <div class="footer">Generated on ${moment().format('DD MMM YYYY, hh:mm A')}</div>
+</body>
+</html>`;
+};
@@ -0,0 +1,135 @@
+import moment from 'moment';
+import { ATTENDANCE_FLAGS } from '../constants/shifts';
+import { AttendanceFlag, BreakRecord, LeaveApplication, ShiftDefinition } from '../types/api';
+import {
+  ATTENDANCE_DATE_FORMAT,
+  ShiftEvaluation,
+  evaluateShift,
+  formatMinutes,
+  getBreakMinutes,
+  parseHoursToMinutes,
+} from './attendance';
+
+// A day as returned by the /filterby attendance endpoint
+export interface AttendanceRecord {
+  date: string;
+  checkin: string;
+  checkout: string;
+  totalhours: string;
+  autocheckout: boolean;
+  _id: string;
+  breaks?: BreakRecord[];
+}
+
+export interface AttendanceStats {
+  totalRecords: number;
+  presentDays: number;
+  totalHours: string;     // gross presence, breaks included
+  breakHours: string;
+  netHours: string;       // gross presence minus breaks
+  avgHoursPerDay: string; // average net working time per present day
+  workingDays: number;    // expected working days so far, net of weekly offs and holidays
+  attendancePercentage: number; // present share of the working days not covered by approved leave
+  unexplainedAbsences: string[]; // working days with no record and no approved leave
+  flagCounts: Record<AttendanceFlag, number>;
+}
+
+export const EMPTY_ATTENDANCE_STATS: AttendanceStats = {
+  totalRecords: 0,
+  presentDays: 0,
+  totalHours: '00:00',
+  breakHours: '00:00',
+  netHours: '00:00',
+  avgHoursPerDay: '00:00',
+  workingDays: 0,
+  attendancePercentage: 0,
+  unexplainedAbsences: [],
+  flagCounts: { on_time: 0, late: 0, early_exit: 0, short_hours: 0, overtime: 0 },
+};
+
+/**
+ * Breaks sent by the server win; breaks recorded on this device fill in for days the server has none for
+ */
+export const getRecordBreaks = (
+  record: AttendanceRecord,
+  localBreaks: Record<string, BreakRecord[]>
+): BreakRecord[] =>
+  record.breaks && record.breaks.length > 0 ? record.breaks : localBreaks[record.date] || [];
+
+/**
+ * Shift flags for a record. An automatic check-out says nothing about when
+ * the employee left, so only arrival is judged.
+ */
+export const evaluateRecord = (
+  record: AttendanceRecord,
+  shift: ShiftDefinition,
+  localBreaks: Record<string, BreakRecord[]>
+): ShiftEvaluation =>
+  evaluateShift(
+    record.autocheckout ? { date: record.date, checkin: record.checkin } : record,
+    shift,
+    getRecordBreaks(record, localBreaks)
+  );
+
+export const calculateAttendanceStats = (
+  logs: AttendanceRecord[],
+  options: {
+    localBreaks: Record<string, BreakRecord[]>;
+    approvedLeave: Record<string, LeaveApplication>;
+    workingDays: string[]; // DD/MM/YYYY working days in the period
+    shift: ShiftDefinition;
+  }
+): AttendanceStats => {
+  const { localBreaks, approvedLeave, shift } = options;
+  const totalRecords = logs.length;
+  const presentDays = logs.filter(log => log.checkin).length;
+
+  // Gross presence vs. net working time (gross minus breaks)
+  let grossMinutes = 0;
+  let breakMinutes = 0;
+  logs.forEach(log => {
+    const gross = parseHoursToMinutes(log.totalhours);
+    if (gross > 0) {
+      grossMinutes += gross;
+      breakMinutes += Math.min(gross, getBreakMinutes(getRecordBreaks(log, localBreaks)));
+    }
+  });
+  const netMinutes = grossMinutes - breakMinutes;
+
+  // Average net working time per present day
+  const avgMinutes = presentDays > 0 ? Math.floor(netMinutes / presentDays) : 0;
+
+  // Today only counts once the employee has checked in
+  const today = moment().format(ATTENDANCE_DATE_FORMAT);
+  const presentDates = new Set(logs.filter(log => log.checkin).map(log => log.date));
+  const workingDays = options.workingDays.filter(date => date !== today || presentDates.has(date));
+  // Approved leave is neither attendance nor absence, so it stays out of the percentage altogether
+  const attendanceDays = workingDays.filter(date => !approvedLeave[date]);
+  const presentAttendanceDays = attendanceDays.filter(date => presentDates.has(date)).length;
+  const unexplainedAbsences = workingDays.filter(date => !presentDates.has(date) && !approvedLeave[date]);
+
+  // Shift compliance counts; a day can be both late and overtime
+  const flagCounts = ATTENDANCE_FLAGS.reduce(
+    (counts, flag) => ({ ...counts, [flag]: 0 }),
+    {} as Record<AttendanceFlag, number>
+  );
+  logs.forEach(log => {
+    evaluateRecord(log, shift, localBreaks).flags.forEach(flag => {
+      flagCounts[flag] += 1;
+    });
+  });
+
+  return {
+    totalRecords,
+    presentDays,
+    totalHours: formatMinutes(grossMinutes, true),
+    breakHours: formatMinutes(breakMinutes, true),
+    netHours: formatMinutes(netMinutes, true),
+    avgHoursPerDay: formatMinutes(avgMinutes, true),
+    workingDays: workingDays.length,
+    attendancePercentage:
+      attendanceDays.length > 0 ? Math.round((presentAttendanceDays / attendanceDays.length) * 100) : 0,
+    unexplainedAbsences,
+    flagCounts,
+  };
+};
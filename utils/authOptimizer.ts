@@ -1,10 +1,13 @@
-import * as SecureStore from 'expo-secure-store';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { User, AuthResponse } from '../types/api';
+import CredentialVault from '../services/credentialVault';
+import { User } from '../types/api';
 
+// 'unverified' means the server could not be reached, not that the token is good
+export type TokenVerification = 'valid' | 'invalid' | 'unverified';
+
+// The token itself stays in the credential vault, this cache is plain AsyncStorage
 interface AuthCache {
   user: User;
-  token: string;
   timestamp: number;
   isValid: boolean;
 }
@@ -13,6 +16,7 @@ export class AuthOptimizer {
   private static instance: AuthOptimizer;
   private readonly AUTH_CACHE_KEY = 'willware_auth_cache';
   private readonly CACHE_VALIDITY_MS = 24 * 60 * 60 * 1000; // 24 hours
+  private vault = CredentialVault.getInstance();
 
   static getInstance(): AuthOptimizer {
     if (!AuthOptimizer.instance) {
@@ -32,25 +36,26 @@ export class AuthOptimizer {
     shouldVerify: boolean;
   }> {
     try {
-      // Try to get cached auth data
-      const cached = await this.getCachedAuth();
+      // Without a token there is no session, however fresh the cache
+      const token = await this.vault.getToken();
+      const cached = token ? await this.getCachedAuth() : null;
       
-      if (cached && this.isCacheValid(cached)) {
+      if (token && cached && this.isCacheValid(cached)) {
         return {
           isAuthenticated: true,
           user: cached.user,
-          token: cached.token,
+          token,
           shouldVerify: false // Cache is fresh, no need to verify
         };
       }
 
       // Check if we have stored credentials (even if cache is stale)
-      const token = await this.getStoredToken();
-      const userData = await this.getStoredUser();
+      const userData = await this.vault.getUser();
 
       if (token && userData) {
         const user: User = {
           id: userData._id,
+          username: userData.username,
           name: userData.employeeName,
           email: userData.employeeEmail,
           role: 'employee',
@@ -87,11 +92,10 @@ export class AuthOptimizer {
   /**
    * Cache auth data for fast retrieval
    */
-  async cacheAuthData(user: User, token: string): Promise<void> {
+  async cacheAuthData(user: User): Promise<void> {
     try {
       const authCache: AuthCache = {
         user,
-        token,
         timestamp: Date.now(),
         isValid: true
       };
@@ -115,14 +119,15 @@ export class AuthOptimizer {
 
   /**
    * Background auth verification
-   * Verifies token validity without blocking UI
+   * Verifies token validity without blocking UI. Only an explicit rejection from the server
+   * counts as invalid; when the server cannot be reached the token's validity is unknown.
    */
-  async backgroundAuthVerification(token: string): Promise<boolean> {
+  async backgroundAuthVerification(token: string): Promise<TokenVerification> {
     try {
       // Try to make a simple authenticated request to verify token
       // Using the correct /view endpoint
-      const userData = await this.getStoredUser();
-      if (!userData) return false;
+      const userData = await this.vault.getUser();
+      if (!userData) return 'invalid';
 
       const response = await fetch(`https://attendance-three-lemon.vercel.app/view/${userData._id}`, {
         method: 'GET',
@@ -133,18 +138,25 @@ export class AuthOptimizer {
         signal: AbortSignal.timeout(5000) // 5 second timeout
       });
 
-      return response.ok;
+      if (response.ok) return 'valid';
+      return response.status === 401 || response.status === 403 ? 'invalid' : 'unverified';
     } catch (error) {
       console.error('Background auth verification failed:', error);
-      // On network errors, assume token is still valid to avoid unnecessary logouts
-      return true;
+      return 'unverified';
     }
   }
 
   private async getCachedAuth(): Promise<AuthCache | null> {
     try {
       const cached = await AsyncStorage.getItem(this.AUTH_CACHE_KEY);
-      return cached ? JSON.parse(cached) : null;
+      if (!cached) return null;
+
+      // Caches written by older versions kept a plain copy of the token, rewrite them without it
+      const { token, ...authCache } = JSON.parse(cached);
+      if (token) {
+        await AsyncStorage.setItem(this.AUTH_CACHE_KEY, JSON.stringify(authCache));
+      }
+      return authCache;
     } catch (error) {
       console.error('Failed to get cached auth:', error);
       return null;
@@ -153,49 +165,8 @@ export class AuthOptimizer {
 
   private isCacheValid(cache: AuthCache): boolean {
     const age = Date.now() - cache.timestamp;
-    return cache.isValid && age < this.CACHE_VALIDITY_MS;
-  }
-
-  private async getStoredToken(): Promise<string | null> {
-    try {
-      // Try SecureStore first
-      if (SecureStore.isAvailableAsync) {
-        const isAvailable = await SecureStore.isAvailableAsync();
-        if (isAvailable) {
-          return await SecureStore.getItemAsync('willware_auth_token');
-        }
-      }
-      
-      // Fallback to AsyncStorage
-      return await AsyncStorage.getItem('willware_auth_token');
-    } catch (error) {
-      console.error('Error getting stored token:', error);
-      return null;
-    }
-  }
-
-  private async getStoredUser(): Promise<AuthResponse['data'] | null> {
-    try {
-      let userData: string | null = null;
-      
-      // Try SecureStore first
-      if (SecureStore.isAvailableAsync) {
-        const isAvailable = await SecureStore.isAvailableAsync();
-        if (isAvailable) {
-          userData = await SecureStore.getItemAsync('willware_user_data');
-        }
-      }
-      
-      // Fallback to AsyncStorage if SecureStore didn't work
-      if (!userData) {
-        userData = await AsyncStorage.getItem('willware_user_data');
-      }
-      
-      return userData ? JSON.parse(userData) : null;
-    } catch (error) {
-      console.error('Error getting stored user:', error);
-      return null;
-    }
+    // Users cached before the username was tracked are rebuilt from the vault
+    return cache.isValid && !!cache.user.username && age < this.CACHE_VALIDITY_MS;
   }
 }
 
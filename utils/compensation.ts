@@ -0,0 +1,91 @@
+import { EmployeeDetailsResponse } from '../types/api';
+import { EMPLOYER_ESI, EMPLOYER_PF } from '../constants/statutoryContributions';
+
+export interface SalaryStructure {
+  basicPay: number;
+  hra: number;
+  others: number;
+  incentive: number;
+  fixedPay: number;    // basic + HRA + other allowances
+  variablePay: number; // incentive
+  grossPay: number;
+  employerPf: number;
+  employerPension: number; // EPS share of employerPf
+  employerEsi: number;
+  ctc: number;         // gross pay plus employer contributions
+  employeePf: number;
+  employeeEsi: number;
+  tds: number;
+  statutoryDeductions: number;
+  netTakeHome: number;
+}
+
+const round = (amount: number) => Math.round(amount);
+
+/**
+ * Monthly salary structure and CTC from the /view employee record
+ */
+export const buildSalaryStructure = (details: EmployeeDetailsResponse['data']): SalaryStructure => {
+  const basicPay = details.basicPay || 0;
+  const hra = details.hra || 0;
+  const others = details.others || 0;
+  const incentive = details.incentive || 0;
+  const employeePf = details.pf || 0;
+  const employeeEsi = details.esi || 0;
+  const tds = details.tds || 0;
+
+  const fixedPay = basicPay + hra + others;
+  const grossPay = fixedPay + incentive;
+
+  // The employer matches the employee's PF, but only on basic pay up to the wage ceiling
+  const pfWages = Math.min(basicPay, EMPLOYER_PF.wageCeiling);
+  const employerPf = employeePf > 0 ? Math.min(employeePf, round((pfWages * EMPLOYER_PF.rate) / 100)) : 0;
+  const employerPension = employerPf > 0 ? round((pfWages * EMPLOYER_PF.pensionRate) / 100) : 0;
+
+  // ESI is only payable for covered employees, which the employee-side deduction tells us
+  const employerEsi =
+    employeeEsi > 0 && grossPay <= EMPLOYER_ESI.wageCeiling ? round((grossPay * EMPLOYER_ESI.rate) / 100) : 0;
+
+  const statutoryDeductions = employeePf + employeeEsi + tds;
+
+  return {
+    basicPay,
+    hra,
+    others,
+    incentive,
+    fixedPay,
+    variablePay: incentive,
+    grossPay,
+    employerPf,
+    employerPension,
+    employerEsi,
+    ctc: grossPay + employerPf + employerEsi,
+    employeePf,
+    employeeEsi,
+    tds,
+    statutoryDeductions,
+    netTakeHome: grossPay - statutoryDeductions,
+  };
+};
+
+/**
+ * Scale every amount in a monthly structure, e.g. by 12 for the annual view
+ */
+export const scaleSalaryStructure = (structure: SalaryStructure, factor: number): SalaryStructure => ({
+  basicPay: structure.basicPay * factor,
+  hra: structure.hra * factor,
+  others: structure.others * factor,
+  incentive: structure.incentive * factor,
+  fixedPay: structure.fixedPay * factor,
+  variablePay: structure.variablePay * factor,
+  grossPay: structure.grossPay * factor,
+  employerPf: structure.employerPf * factor,
+  employerPension: structure.employerPension * factor,
+  employerEsi: structure.employerEsi * factor,
+  ctc: structure.ctc * factor,
+  employeePf: structure.employeePf * factor,
+  employeeEsi: structure.employeeEsi * factor,
+  tds: structure.tds * factor,
+  statutoryDeductions: structure.statutoryDeductions * factor,
+  netTakeHome: structure.netTakeHome * factor,
+});
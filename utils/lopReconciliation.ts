@@ -0,0 +1,90 @@
+import moment from 'moment';
+import { LeaveApplication, PayslipResponse } from '../types/api';
+import { ATTENDANCE_DATE_FORMAT } from './attendance';
+import { AttendanceRecord } from './attendanceStats';
+
+export type ReconciliationDayStatus =
+  | 'present'
+  | 'absent'          // working day with no punch and no approved leave
+  | 'paid_leave'
+  | 'unpaid_leave'
+  | 'half_day_unpaid' // unpaid half-day leave with a punch for the other half
+  | 'non_working';    // weekly off or holiday
+
+export interface ReconciliationDay {
+  date: string; // DD/MM/YYYY
+  status: ReconciliationDayStatus;
+  lop: number;  // loss-of-pay days attendance supports for this date: 0, 0.5 or 1
+  record?: AttendanceRecord;
+  leave?: LeaveApplication;
+}
+
+export interface LopReconciliation {
+  daysInMonth: number;
+  workingDays: number;
+  presentDays: number;
+  paidLeaveDays: number;
+  expectedLop: number;  // absences plus unpaid leave, net of holidays and paid leave
+  payrollLop: number;
+  payrollWorkedDays: number;
+  difference: number;   // positive: payroll deducts more days than attendance supports
+  days: ReconciliationDay[];
+}
+
+const getLeaveDays = (leave: LeaveApplication) => (leave.session === 'full_day' ? 1 : 0.5);
+
+/**
+ * Compare payroll's LOP count with what the punches, approved leave and the holiday calendar support
+ */
+export const reconcileLop = (
+  payslip: PayslipResponse['data'],
+  records: AttendanceRecord[],
+  options: {
+    month: number; // 1-12
+    year: number;
+    workingDays: string[]; // DD/MM/YYYY for the whole month, net of weekly offs and holidays
+    approvedLeave: Record<string, LeaveApplication>;
+  }
+): LopReconciliation => {
+  const start = moment({ year: options.year, month: options.month - 1, date: 1 });
+  const workingDays = new Set(options.workingDays);
+  const days: ReconciliationDay[] = [];
+
+  for (let day = start.clone(); day.isSame(start, 'month'); day.add(1, 'day')) {
+    const date = day.format(ATTENDANCE_DATE_FORMAT);
+    const record = records.find(item => item.date === date && item.checkin);
+    const leave = options.approvedLeave[date];
+
+    if (!workingDays.has(date)) {
+      days.push({ date, status: 'non_working', lop: 0, record, leave });
+    } else if (leave?.type === 'unpaid') {
+      // A punch covers the other half of a half-day leave; otherwise the whole day is lost
+      const lop = record && leave.session !== 'full_day' ? 0.5 : 1;
+      days.push({ date, status: lop < 1 ? 'half_day_unpaid' : 'unpaid_leave', lop, record, leave });
+    } else if (record) {
+      days.push({ date, status: 'present', lop: 0, record, leave });
+    } else if (leave) {
+      // A paid half day with no punch for the other half still loses that half
+      const lop = 1 - getLeaveDays(leave);
+      days.push({ date, status: 'paid_leave', lop, leave });
+    } else {
+      days.push({ date, status: 'absent', lop: 1 });
+    }
+  }
+
+  const expectedLop = days.reduce((sum, day) => sum + day.lop, 0);
+
+  return {
+    daysInMonth: start.daysInMonth(),
+    workingDays: workingDays.size,
+    presentDays: days.filter(day => day.record && day.status !== 'non_working').length,
+    paidLeaveDays: days
+      .filter(day => day.status === 'paid_leave' && day.leave)
+      .reduce((sum, day) => sum + getLeaveDays(day.leave as LeaveApplication), 0),
+    expectedLop,
+    payrollLop: payslip.lopDays,
+    payrollWorkedDays: payslip.workedDays,
+    difference: payslip.lopDays - expectedLop,
+    days,
+  };
+};
@@ -0,0 +1,64 @@
+import moment from 'moment';
+import { MONTH_NAMES, MonthName, PayrollTotals, PayrollYearType, PayslipResponse } from '../types/api';
+
+export const PAYROLL_TOTAL_FIELDS: { key: keyof PayrollTotals; label: string }[] = [
+  { key: 'totalEarnings', label: 'Total Earnings' },
+  { key: 'pf', label: 'PF' },
+  { key: 'esi', label: 'ESI' },
+  { key: 'tds', label: 'TDS' },
+  { key: 'staffAdvance', label: 'Staff Advance' },
+  { key: 'totalDeductions', label: 'Total Deductions' },
+  { key: 'netPay', label: 'Net Pay' },
+];
+
+export const EMPTY_PAYROLL_TOTALS: PayrollTotals = {
+  totalEarnings: 0,
+  pf: 0,
+  esi: 0,
+  tds: 0,
+  staffAdvance: 0,
+  totalDeductions: 0,
+  netPay: 0,
+};
+
+const FINANCIAL_YEAR_START_MONTH = 3; // April, 0-indexed
+
+/**
+ * The twelve payroll months of a calendar year (Jan-Dec) or a financial year (Apr-Mar)
+ */
+export const getPayrollYearMonths = (
+  type: PayrollYearType,
+  startYear: number
+): { month: MonthName; year: number }[] => {
+  const start = moment({
+    year: startYear,
+    month: type === 'financial' ? FINANCIAL_YEAR_START_MONTH : 0,
+    date: 1,
+  });
+  return Array.from({ length: 12 }, (_, index) => {
+    const date = start.clone().add(index, 'month');
+    return { month: MONTH_NAMES[date.month()], year: date.year() };
+  });
+};
+
+/**
+ * The year the current payroll year started in, e.g. 2025 for FY 2025-26 in February 2026
+ */
+export const getCurrentPayrollStartYear = (type: PayrollYearType, date: moment.Moment = moment()): number =>
+  type === 'financial' && date.month() < FINANCIAL_YEAR_START_MONTH ? date.year() - 1 : date.year();
+
+export const getPayrollYearLabel = (type: PayrollYearType, startYear: number): string =>
+  type === 'financial' ? `FY ${startYear}-${String(startYear + 1).slice(-2)}` : `Calendar Year ${startYear}`;
+
+export const formatPayrollMonth = (month: MonthName, year: number): string =>
+  `${month.charAt(0).toUpperCase()}${month.slice(1)} ${year}`;
+
+export const sumPayslips = (payslips: PayslipResponse['data'][]): PayrollTotals =>
+  payslips.reduce(
+    (totals, payslip) =>
+      PAYROLL_TOTAL_FIELDS.reduce(
+        (next, { key }) => ({ ...next, [key]: next[key] + (payslip[key] || 0) }),
+        totals
+      ),
+    EMPTY_PAYROLL_TOTALS
+  );
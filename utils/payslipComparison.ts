@@ -0,0 +1,83 @@
+import { PayslipResponse } from '../types/api';
+
+type PayslipData = PayslipResponse['data'];
+
+export type PayslipComponentGroup = 'attendance' | 'earnings' | 'deductions' | 'net';
+
+// added/removed: the component was zero or absent in one of the two months
+export type PayslipChangeStatus = 'unchanged' | 'increased' | 'decreased' | 'added' | 'removed';
+
+type NumericPayslipField = {
+  [K in keyof PayslipData]-?: PayslipData[K] extends number ? K : never;
+}[keyof PayslipData];
+
+export interface PayslipComponent {
+  key: NumericPayslipField;
+  label: string;
+  group: PayslipComponentGroup;
+  isCurrency: boolean;
+  higherIsBetter: boolean; // an increase in earnings is good, in deductions or LOP it is not
+}
+
+export interface PayslipComponentDiff extends PayslipComponent {
+  previous: number;
+  current: number;
+  change: number;
+  percentChange: number | null; // null when there is no base to compare against
+  status: PayslipChangeStatus;
+}
+
+export const PAYSLIP_COMPONENTS: PayslipComponent[] = [
+  { key: 'workedDays', label: 'Days Worked', group: 'attendance', isCurrency: false, higherIsBetter: true },
+  { key: 'lopDays', label: 'LOP Days', group: 'attendance', isCurrency: false, higherIsBetter: false },
+  { key: 'basicPay', label: 'Basic Pay', group: 'earnings', isCurrency: true, higherIsBetter: true },
+  { key: 'hra', label: 'HRA', group: 'earnings', isCurrency: true, higherIsBetter: true },
+  { key: 'others', label: 'Others', group: 'earnings', isCurrency: true, higherIsBetter: true },
+  { key: 'incentive', label: 'Incentive', group: 'earnings', isCurrency: true, higherIsBetter: true },
+  { key: 'totalEarnings', label: 'Total Earnings', group: 'earnings', isCurrency: true, higherIsBetter: true },
+  { key: 'pf', label: 'PF', group: 'deductions', isCurrency: true, higherIsBetter: false },
+  { key: 'esi', label: 'ESI', group: 'deductions', isCurrency: true, higherIsBetter: false },
+  { key: 'tds', label: 'TDS', group: 'deductions', isCurrency: true, higherIsBetter: false },
+  { key: 'staffAdvance', label: 'Staff Advance', group: 'deductions', isCurrency: true, higherIsBetter: false },
+  { key: 'totalDeductions', label: 'Total Deductions', group: 'deductions', isCurrency: true, higherIsBetter: false },
+  { key: 'netPay', label: 'Net Pay', group: 'net', isCurrency: true, higherIsBetter: true },
+];
+
+export const PAYSLIP_GROUP_LABELS: Record<PayslipComponentGroup, string> = {
+  attendance: 'Attendance',
+  earnings: 'Earnings',
+  deductions: 'Deductions',
+  net: 'Net Pay',
+};
+
+const getChangeStatus = (previous: number, current: number): PayslipChangeStatus => {
+  if (previous === current) return 'unchanged';
+  if (previous === 0) return 'added';
+  if (current === 0) return 'removed';
+  return current > previous ? 'increased' : 'decreased';
+};
+
+/**
+ * Per-component differences from `previous` to `current`
+ */
+export const comparePayslips = (previous: PayslipData, current: PayslipData): PayslipComponentDiff[] =>
+  PAYSLIP_COMPONENTS.map(component => {
+    const before = previous[component.key] || 0;
+    const after = current[component.key] || 0;
+    const change = after - before;
+
+    return {
+      ...component,
+      previous: before,
+      current: after,
+      change,
+      percentChange: before !== 0 ? Math.round((change / Math.abs(before)) * 1000) / 10 : null,
+      status: getChangeStatus(before, after),
+    };
+  });
+
+/**
+ * Whether a change is good news for the employee
+ */
+export const isFavourableChange = (diff: PayslipComponentDiff): boolean =>
+  diff.change === 0 || (diff.change > 0) === diff.higherIsBetter;
@@ -0,0 +1,224 @@
+import moment from 'moment';
+import { PayrollYearSummary, PayslipResponse, User } from '../types/api';
+import { escapeHtml } from '../services/exportService';
+import { PAYROLL_TOTAL_FIELDS, formatPayrollMonth, getPayrollYearLabel } from './payroll';
+
+type PayslipData = PayslipResponse['data'];
+
+export const formatRupees = (amount: number | undefined | null): string =>
+  `₹${(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const maskAccount = (account: string | undefined): string =>
+  account ? `****${account.slice(-4)}` : 'Not Available';
+
+const renderInfoRows = (items: [string, string | number | undefined][]): string =>
+  items
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value ?? 'N/A')}</td></tr>`)
+    .join('');
+
+/**
+ * Earnings and deductions side by side, padded so both columns have the same number of rows
+ */
+const renderComponentRows = (
+  earnings: [string, number][],
+  deductions: [string, number][]
+): string => {
+  const length = Math.max(earnings.length, deductions.length);
+  return Array.from({ length }, (_, index) => {
+    const earning = earnings[index];
+    const deduction = deductions[index];
+    return `<tr>
+      <td>${earning ? escapeHtml(earning[0]) : ''}</td>
+      <td class="amount">${earning ? formatRupees(earning[1]) : ''}</td>
+      <td>${deduction ? escapeHtml(deduction[0]) : ''}</td>
+      <td class="amount">${deduction ? formatRupees(deduction[1]) : ''}</td>
+    </tr>`;
+  }).join('');
+};
+
+const PAYSLIP_STYLES = `<style>
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #212121; padding: 32px; font-size: 12px; }
+  .header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 3px solid #2196F3; padding-bottom: 12px; }
+  .company { font-size: 24px; font-weight: bold; color: #2196F3; }
+  .title { font-size: 14px; color: #757575; text-align: right; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  .info th { text-align: left; color: #757575; font-weight: normal; width: 25%; padding: 4px 6px; }
+  .info td { padding: 4px 6px; font-weight: 600; }
+  .components th { background: #E3F2FD; text-align: left; padding: 8px 6px; }
+  .components td { padding: 6px; border-bottom: 1px solid #EEEEEE; }
+  .components .total td { font-weight: bold; border-top: 2px solid #E0E0E0; border-bottom: none; }
+  .amount { text-align: right; }
+  .net { margin-top: 24px; padding: 16px; border: 2px solid #2196F3; border-radius: 8px; background: #E3F2FD; text-align: center; }
+  .net .label { color: #757575; }
+  .net .value { font-size: 24px; font-weight: bold; color: #2196F3; margin: 4px 0; }
+  .net .words { font-style: italic; }
+  .footer { margin-top: 32px; color: #9E9E9E; font-size: 10px; text-align: center; }
+  .missing td { color: #9E9E9E; font-style: italic; }
+  .note { margin-top: 12px; color: #FF9800; }
+</style>`;
+
+/**
+ * Payslip in the company template, ready for expo-print
+ */
+export const buildPayslipHtml = (payslip: PayslipData): string => {
+  const earnings: [string, number][] = [
+    ['Basic Pay', payslip.basicPay],
+    ['HRA', payslip.hra],
+    ['Others', payslip.others],
+    ['Incentive', payslip.incentive],
+  ];
+  const deductions: [string, number][] = [
+    ['PF', payslip.pf],
+    ['ESI', payslip.esi],
+    ['TDS', payslip.tds],
+    ['Staff Advance', payslip.staffAdvance],
+  ];
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+${PAYSLIP_STYLES}
+</head>
+<body>
+  <div class="header">
+    <div class="company">WillwareTech</div>
+    <div class="title">Payslip for ${escapeHtml(payslip.month)} ${escapeHtml(payslip.year)}</div>
+  </div>
+
+  <table class="info">
+    ${renderInfoRows([
+      ['Employee Name', payslip.employeeName],
+      ['Employee ID', payslip.employeeId],
+      ['Designation', payslip.designation],
+      ['Department', payslip.department],
+      ['Work Location', payslip.workLocation],
+      ['Joining Date', payslip.joiningDate ? moment(payslip.joiningDate).format('DD MMM YYYY') : undefined],
+    ])}
+  </table>
+
+  <table class="info">
+    ${renderInfoRows([
+      ['Days Worked', payslip.workedDays],
+      ['LOP Days', payslip.lopDays],
+      ['Bank Account', maskAccount(payslip.bankAccount)],
+      ['Payment Mode', payslip.paymentMode],
+      ['UAN', payslip.uan || 'N/A'],
+      ['ESI Number', payslip.esiNumber || 'N/A'],
+      ['PAN', payslip.pan || 'N/A'],
+    ])}
+  </table>
+
+  <table class="components">
+    <thead>
+      <tr><th>Earnings</th><th class="amount">Amount</th><th>Deductions</th><th class="amount">Amount</th></tr>
+    </thead>
+    <tbody>
+      ${renderComponentRows(earnings, deductions)}
+      <tr class="total">
+        <td>Total Earnings</td><td class="amount">${formatRupees(payslip.totalEarnings)}</td>
+        <td>Total Deductions</td><td class="amount">${formatRupees(payslip.totalDeductions)}</td>
+      </tr>
+    </tbody>
+  </table>
+
+  <div class="net">
+    <div class="label">Net Pay</div>
+    <div class="value">${formatRupees(payslip.netPay)}</div>
+    <div class="words">${escapeHtml(payslip.amountWords)}</div>
+  </div>
+
+  <div class="footer">
+    This is a computer-generated payslip and does not require a signature.<br />
+    Generated on ${moment().format('DD MMM YYYY, hh:mm A')}
+  </div>
+</body>
+</html>`;
+};
+
+const MONTH_STATUS_LABELS = {
+  missing: 'No payslip',
+  unavailable: 'Could not be loaded',
+  upcoming: 'Not yet due',
+} as const;
+
+/**
+ * Annual earnings statement for a calendar or financial year, for tax filing
+ */
+export const buildAnnualStatementHtml = (summary: PayrollYearSummary, employee: User): string => {
+  const firstPayslip = summary.months.find(item => item.payslip)?.payslip;
+  const yearLabel = getPayrollYearLabel(summary.type, summary.startYear);
+  const dueMonths = summary.months.filter(item => item.status !== 'upcoming');
+  const missingMonths = dueMonths.filter(item => !item.payslip);
+
+  const monthRows = summary.months
+    .map(item =>
+      item.payslip
+        ? `<tr>
+            <td>${escapeHtml(formatPayrollMonth(item.month, item.year))}</td>
+            ${PAYROLL_TOTAL_FIELDS.map(({ key }) => `<td class="amount">${formatRupees(item.payslip?.[key])}</td>`).join('')}
+          </tr>`
+        : `<tr class="missing">
+            <td>${escapeHtml(formatPayrollMonth(item.month, item.year))}</td>
+            <td colspan="${PAYROLL_TOTAL_FIELDS.length}">${MONTH_STATUS_LABELS[item.status as keyof typeof MONTH_STATUS_LABELS]}</td>
+          </tr>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+${PAYSLIP_STYLES}
+</head>
+<body>
+  <div class="header">
+    <div class="company">WillwareTech</div>
+    <div class="title">Annual Earnings Statement<br />${escapeHtml(yearLabel)}</div>
+  </div>
+
+  <table class="info">
+    ${renderInfoRows([
+      ['Employee Name', employee.name],
+      ['Employee ID', employee.id],
+      ['Designation', firstPayslip?.designation || employee.designation],
+      ['Department', firstPayslip?.department || employee.department],
+      ['PAN', firstPayslip?.pan || 'N/A'],
+      ['UAN', firstPayslip?.uan || 'N/A'],
+    ])}
+  </table>
+
+  <table class="components">
+    <thead>
+      <tr><th>Month</th>${PAYROLL_TOTAL_FIELDS.map(({ label }) => `<th class="amount">${escapeHtml(label)}</th>`).join('')}</tr>
+    </thead>
+    <tbody>
+      ${monthRows}
+      <tr class="total">
+        <td>Total</td>
+        ${PAYROLL_TOTAL_FIELDS.map(({ key }) => `<td class="amount">${formatRupees(summary.totals[key])}</td>`).join('')}
+      </tr>
+    </tbody>
+  </table>
+
+  ${
+    missingMonths.length > 0
+      ? `<div class="note">Totals exclude ${missingMonths.length} month(s) without a payslip: ${escapeHtml(
+          missingMonths.map(item => formatPayrollMonth(item.month, item.year)).join(', ')
+        )}</div>`
+      : ''
+  }
+
+  <div class="net">
+    <div class="label">Net Pay for ${escapeHtml(yearLabel)}</div>
+    <div class="value">${formatRupees(summary.totals.netPay)}</div>
+    <div class="words">${dueMonths.length - missingMonths.length} of ${dueMonths.length} payslips included</div>
+  </div>
+
+  <div class="footer">
+    This statement is generated from the payslips issued through the app and is provided for reference.<br />
+    Generated on ${moment().format('DD MMM YYYY, hh:mm A')}
+  </div>
+</body>
+</html>`;
+};
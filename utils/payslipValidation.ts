@@ -0,0 +1,157 @@
+import moment from 'moment';
+import { PayslipIssue, PayslipResponse } from '../types/api';
+import { formatRupees } from './payslipTemplate';
+
+type PayslipData = PayslipResponse['data'];
+
+// Amounts are compared to the rupee so paise rounding is not reported
+const AMOUNT_TOLERANCE = 1;
+
+// Many payrolls pay every month as 30 days, whatever its calendar length
+const FIXED_PAYROLL_MONTH_DAYS = 30;
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fourty: 40,
+  fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const SCALES: Record<string, number> = {
+  thousand: 1000,
+  lakh: 100000, lakhs: 100000, lac: 100000, lacs: 100000,
+  million: 1000000,
+  crore: 10000000, crores: 10000000,
+};
+
+const IGNORED_WORDS = new Set(['rupees', 'rupee', 'rs', 'inr', 'only', 'and']);
+
+const parseWholeNumber = (words: string[]): number | null => {
+  let total = 0;
+  let current = 0;
+  let sawNumber = false;
+
+  for (const word of words) {
+    if (IGNORED_WORDS.has(word)) continue;
+
+    if (word in SMALL_NUMBERS) {
+      current += SMALL_NUMBERS[word];
+      sawNumber = true;
+    } else if (word === 'hundred') {
+      current = (current || 1) * 100;
+    } else if (word in SCALES) {
+      total += (current || 1) * SCALES[word];
+      current = 0;
+    } else {
+      return null;
+    }
+  }
+
+  return sawNumber ? total + current : null;
+};
+
+/**
+ * Read an amount written in words, e.g. "Rupees One Lakh Twenty-Five Thousand and Fifty Paise Only".
+ * Returns null when the text cannot be read.
+ */
+export const parseAmountInWords = (text: string): number | null => {
+  const words = text
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, ' ')
+    .replace(/-/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const paiseIndex = words.indexOf('paise');
+  if (paiseIndex === -1) {
+    return parseWholeNumber(words);
+  }
+
+  // The paise part follows the last "and" before "paise"
+  const andIndex = words.lastIndexOf('and', paiseIndex);
+  const rupees = andIndex > 0 ? parseWholeNumber(words.slice(0, andIndex)) : 0;
+  const paise = parseWholeNumber(words.slice(andIndex + 1, paiseIndex));
+  if (rupees === null || paise === null) return null;
+  return rupees + paise / 100;
+};
+
+const amountsDiffer = (a: number, b: number) => Math.abs(a - b) > AMOUNT_TOLERANCE;
+
+/**
+ * Arithmetic and consistency checks on a payslip as returned by the server
+ */
+export const validatePayslip = (payslip: PayslipData): PayslipIssue[] => {
+  const issues: PayslipIssue[] = [];
+
+  const earnings = payslip.basicPay + payslip.hra + payslip.others + payslip.incentive;
+  if (amountsDiffer(earnings, payslip.totalEarnings)) {
+    issues.push({
+      code: 'earnings_total',
+      message: `Earnings add up to ${formatRupees(earnings)} but Total Earnings shows ${formatRupees(payslip.totalEarnings)}`,
+      expected: earnings,
+      actual: payslip.totalEarnings,
+    });
+  }
+
+  const deductions = payslip.pf + payslip.esi + payslip.tds + payslip.staffAdvance;
+  if (amountsDiffer(deductions, payslip.totalDeductions)) {
+    issues.push({
+      code: 'deductions_total',
+      message: `Deductions add up to ${formatRupees(deductions)} but Total Deductions shows ${formatRupees(payslip.totalDeductions)}`,
+      expected: deductions,
+      actual: payslip.totalDeductions,
+    });
+  }
+
+  const netPay = payslip.totalEarnings - payslip.totalDeductions;
+  if (amountsDiffer(netPay, payslip.netPay)) {
+    issues.push({
+      code: 'net_pay',
+      message: `Total Earnings minus Total Deductions is ${formatRupees(netPay)} but Net Pay shows ${formatRupees(payslip.netPay)}`,
+      expected: netPay,
+      actual: payslip.netPay,
+    });
+  }
+
+  const amountInWords = payslip.amountWords ? parseAmountInWords(payslip.amountWords) : null;
+  if (amountInWords === null) {
+    issues.push({
+      code: 'amount_words',
+      message: 'Net pay in words is missing or could not be read',
+      expected: payslip.netPay,
+    });
+  } else if (amountsDiffer(amountInWords, payslip.netPay)) {
+    issues.push({
+      code: 'amount_words',
+      message: `Net pay in words reads ${formatRupees(amountInWords)} but Net Pay shows ${formatRupees(payslip.netPay)}`,
+      expected: payslip.netPay,
+      actual: amountInWords,
+    });
+  }
+
+  // The payslip's own day base wins; without one, calendar days and a fixed 30-day month are both accepted
+  const period = moment(`${payslip.month} ${payslip.year}`, 'MMMM YYYY');
+  const days = payslip.workedDays + payslip.lopDays;
+  if (payslip.totalDays) {
+    if (days !== payslip.totalDays) {
+      issues.push({
+        code: 'days_in_month',
+        message: `Days worked plus LOP days is ${days} but the payslip counts ${payslip.totalDays} days`,
+        expected: payslip.totalDays,
+        actual: days,
+      });
+    }
+  } else if (period.isValid()) {
+    const daysInMonth = period.daysInMonth();
+    if (days !== daysInMonth && days !== FIXED_PAYROLL_MONTH_DAYS) {
+      issues.push({
+        code: 'days_in_month',
+        message: `Days worked plus LOP days is ${days} but ${period.format('MMMM YYYY')} has ${daysInMonth} days`,
+        expected: daysInMonth,
+        actual: days,
+      });
+    }
+  }
+
+  return issues;
+};
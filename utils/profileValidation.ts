@@ -0,0 +1,106 @@
+import { EditableProfileField, EmployeeDetailsResponse, ProfileUpdate } from '../types/api';
+
+export const EDITABLE_PROFILE_FIELDS: { key: EditableProfileField; label: string }[] = [
+  { key: 'phone', label: 'Phone' },
+  { key: 'alternativePhoneNumber', label: 'Alternative Phone' },
+  { key: 'address', label: 'Address' },
+  { key: 'alternativeBankAccount', label: 'Alternative Bank Account' },
+  { key: 'alternativeBankIfsc', label: 'Alternative Bank IFSC' },
+];
+
+export interface ProfileFieldChange {
+  key: EditableProfileField;
+  label: string;
+  from: string;
+  to: string;
+}
+
+const PHONE_PATTERN = /^[6-9]\d{9}$/;          // Indian mobile number without the country code
+const ACCOUNT_PATTERN = /^\d{9,18}$/;
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/; // bank code, a zero, then the branch code
+const ADDRESS_LENGTH = { min: 10, max: 250 };
+
+/**
+ * Strip spaces, dashes and a +91 or 0 prefix, so numbers are stored the same way however they were typed
+ */
+export const normalizePhone = (value: string): string => {
+  const digits = value.replace(/[\s()-]/g, '');
+  return digits.replace(/^(\+?91|0)(?=\d{10}$)/, '');
+};
+
+const normalizeField = (key: EditableProfileField, value: string): string => {
+  switch (key) {
+    case 'phone':
+    case 'alternativePhoneNumber':
+      return normalizePhone(value);
+    case 'alternativeBankAccount':
+      return value.replace(/\s/g, '');
+    case 'alternativeBankIfsc':
+      return value.trim().toUpperCase();
+    default:
+      return value.trim();
+  }
+};
+
+/**
+ * The fields whose normalised value differs from the record, for the preview and the update payload
+ */
+export const getProfileChanges = (
+  details: EmployeeDetailsResponse['data'],
+  form: Record<EditableProfileField, string>
+): ProfileFieldChange[] =>
+  EDITABLE_PROFILE_FIELDS.flatMap(({ key, label }) => {
+    const from = normalizeField(key, details[key] || '');
+    const to = normalizeField(key, form[key]);
+    return from === to ? [] : [{ key, label, from, to }];
+  });
+
+/**
+ * Field errors for the edited values; an empty object means the form can be saved.
+ * Only fields that differ from the record are checked, so a value HR entered in another
+ * format never blocks saving the rest. Only the primary phone is required.
+ */
+export const validateProfileUpdate = (
+  details: EmployeeDetailsResponse['data'],
+  form: Record<EditableProfileField, string>
+): Partial<Record<EditableProfileField, string>> => {
+  const errors: Partial<Record<EditableProfileField, string>> = {};
+  const changed = new Set(getProfileChanges(details, form).map(change => change.key));
+  const value = (key: EditableProfileField) => normalizeField(key, form[key]);
+
+  if (changed.has('phone') && !PHONE_PATTERN.test(value('phone'))) {
+    errors.phone = 'Enter a 10-digit mobile number, e.g. 98765 43210';
+  }
+
+  const alternativePhone = value('alternativePhoneNumber');
+  if (changed.has('alternativePhoneNumber') && alternativePhone) {
+    if (!PHONE_PATTERN.test(alternativePhone)) {
+      errors.alternativePhoneNumber = 'Enter a 10-digit mobile number, or leave it empty';
+    } else if (alternativePhone === value('phone')) {
+      errors.alternativePhoneNumber = 'The alternative number must differ from your phone';
+    }
+  }
+
+  const address = value('address');
+  if (changed.has('address') && (address.length < ADDRESS_LENGTH.min || address.length > ADDRESS_LENGTH.max)) {
+    errors.address = `Address must be ${ADDRESS_LENGTH.min} to ${ADDRESS_LENGTH.max} characters`;
+  }
+
+  const account = value('alternativeBankAccount');
+  if (changed.has('alternativeBankAccount') && account && !ACCOUNT_PATTERN.test(account)) {
+    errors.alternativeBankAccount = 'Account number must be 9 to 18 digits';
+  }
+
+  // A new account needs the IFSC of its branch to be usable
+  const ifsc = value('alternativeBankIfsc');
+  if (changed.has('alternativeBankIfsc') && ifsc && !IFSC_PATTERN.test(ifsc)) {
+    errors.alternativeBankIfsc = 'IFSC must be 11 characters, e.g. SBIN0001234';
+  } else if (changed.has('alternativeBankAccount') && account && !ifsc) {
+    errors.alternativeBankIfsc = 'Enter the IFSC for this account';
+  }
+
+  return errors;
+};
+
+export const toProfileUpdate = (changes: ProfileFieldChange[]): ProfileUpdate =>
+  changes.reduce<ProfileUpdate>((update, change) => ({ ...update, [change.key]: change.to }), {});
@@ -0,0 +1,77 @@
+import moment from 'moment';
+import { MONTH_NAMES, MonthName, PayrollMonth } from '../types/api';
+
+export interface AdvanceRepayment {
+  month: MonthName;
+  year: number;
+  amount: number;
+  balanceAfter: number;
+}
+
+export type AdvanceDeduction = Omit<AdvanceRepayment, 'balanceAfter'>;
+
+export interface AdvanceSchedule {
+  status: 'scheduled';
+  balance: number;     // outstanding on the employee record
+  installment: number; // deduction on the latest payslip, assumed to continue
+  monthsRemaining: number;
+  payoff: { month: MonthName; year: number };
+  schedule: AdvanceRepayment[];
+}
+
+// Payroll recovered the advance before but took nothing on the latest payslip
+export interface AdvanceRecoveryPaused {
+  status: 'paused';
+  balance: number;
+  pausedSince: { month: MonthName; year: number }; // the latest payslip
+  lastDeduction: AdvanceDeduction;                 // the last month anything was recovered
+}
+
+export type AdvanceProjection = AdvanceSchedule | AdvanceRecoveryPaused;
+
+/**
+ * Staff advance deductions taken on past payslips, oldest first
+ */
+export const getRepaymentHistory = (months: PayrollMonth[]): AdvanceDeduction[] =>
+  months.flatMap(item =>
+    item.payslip && item.payslip.staffAdvance > 0
+      ? [{ month: item.month, year: item.year, amount: item.payslip.staffAdvance }]
+      : []
+  );
+
+/**
+ * Remaining installments at the latest payslip's deduction, starting the month after that payslip.
+ * Returns the paused state when the latest payslip recovered nothing, and null when nothing is
+ * outstanding or payroll has not started recovering the advance.
+ */
+export const projectRepayment = (
+  balance: number,
+  history: AdvanceDeduction[],
+  latest: AdvanceDeduction | null // the latest payslip and its deduction, which may be 0
+): AdvanceProjection | null => {
+  const lastDeduction = history[history.length - 1];
+  if (balance <= 0 || !lastDeduction || !latest) return null;
+
+  if (latest.amount <= 0) {
+    return { status: 'paused', balance, pausedSince: { month: latest.month, year: latest.year }, lastDeduction };
+  }
+
+  const from = moment({ year: latest.year, month: MONTH_NAMES.indexOf(latest.month), date: 1 });
+  const schedule: AdvanceRepayment[] = [];
+  let remaining = balance;
+  for (let date = from.clone().add(1, 'month'); remaining > 0; date.add(1, 'month')) {
+    const amount = Math.min(latest.amount, remaining);
+    remaining -= amount;
+    schedule.push({ month: MONTH_NAMES[date.month()], year: date.year(), amount, balanceAfter: remaining });
+  }
+
+  const last = schedule[schedule.length - 1];
+  return {
+    status: 'scheduled',
+    balance,
+    installment: latest.amount,
+    monthsRemaining: schedule.length,
+    payoff: { month: last.month, year: last.year },
+    schedule,
+  };
+};
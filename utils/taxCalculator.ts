@@ -0,0 +1,165 @@
+import { DEDUCTION_LIMITS, TAX_CESS_RATE, TAX_REGIMES, TaxSlab } from '../constants/taxRegimes';
+import { PayrollMonth, TaxDeclarations, TaxRegime } from '../types/api';
+
+// Months of recent payslips averaged to project the rest of the year
+const PROJECTION_SAMPLE_MONTHS = 3;
+
+export interface IncomeProjection {
+  monthsWithPayslip: number;
+  projectedMonths: number; // months after the latest payslip, which TDS still has to cover
+  earnedSoFar: number;
+  projectedRemaining: number;
+  annualSalary: number;
+  tdsSoFar: number;
+  averageMonthlyTds: number;
+  annualPf: number; // employee PF, which counts towards 80C
+}
+
+export interface TaxBreakdown {
+  regime: TaxRegime;
+  grossIncome: number;
+  standardDeduction: number;
+  deductions: number; // exemptions and chapter VI-A deductions, old regime only
+  taxableIncome: number;
+  slabTax: number;
+  rebate: number;
+  surcharge: number;
+  cess: number;
+  totalTax: number;
+}
+
+export interface TdsOutcome {
+  remainingLiability: number; // still to be deducted this year; negative once TDS so far exceeds the tax
+  monthlyTdsNeeded: number;
+  projectedTds: number;       // TDS so far plus the remaining months at the current average
+  projectedBalance: number;   // positive: likely shortfall, negative: likely refund
+}
+
+export interface TaxEstimate {
+  projection: IncomeProjection;
+  regimes: Record<TaxRegime, TaxBreakdown>;
+  recommended: TaxRegime;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Earnings so far plus the months after the latest payslip projected from the most recent payslips.
+ * Earlier months without a payslip, e.g. before joining, were not paid and are not projected.
+ */
+export const projectAnnualIncome = (months: PayrollMonth[]): IncomeProjection => {
+  const payslips = months.flatMap(item => (item.payslip ? [item.payslip] : []));
+  const recent = payslips.slice(-PROJECTION_SAMPLE_MONTHS);
+  const latestPayslipIndex = months.map(item => !!item.payslip).lastIndexOf(true);
+  const projectedMonths = months.length - 1 - latestPayslipIndex;
+
+  const earnedSoFar = payslips.reduce((sum, payslip) => sum + (payslip.totalEarnings || 0), 0);
+  const projectedRemaining = Math.round(average(recent.map(payslip => payslip.totalEarnings || 0)) * projectedMonths);
+  const tdsSoFar = payslips.reduce((sum, payslip) => sum + (payslip.tds || 0), 0);
+  const pfSoFar = payslips.reduce((sum, payslip) => sum + (payslip.pf || 0), 0);
+
+  return {
+    monthsWithPayslip: payslips.length,
+    projectedMonths,
+    earnedSoFar,
+    projectedRemaining,
+    annualSalary: earnedSoFar + projectedRemaining,
+    tdsSoFar,
+    averageMonthlyTds: Math.round(average(recent.map(payslip => payslip.tds || 0))),
+    annualPf: Math.round(pfSoFar + average(recent.map(payslip => payslip.pf || 0)) * projectedMonths),
+  };
+};
+
+export const calculateSlabTax = (income: number, slabs: TaxSlab[]): number => {
+  let tax = 0;
+  let lowerBound = 0;
+
+  for (const slab of slabs) {
+    const upperBound = slab.upTo ?? Infinity;
+    if (income > lowerBound) {
+      tax += ((Math.min(income, upperBound) - lowerBound) * slab.rate) / 100;
+    }
+    lowerBound = upperBound;
+  }
+
+  return Math.round(tax);
+};
+
+const getOldRegimeDeductions = (declarations: TaxDeclarations, annualPf: number): number =>
+  declarations.hraExemption +
+  Math.min(declarations.section80C + annualPf, DEDUCTION_LIMITS.section80C) +
+  Math.min(declarations.section80D, DEDUCTION_LIMITS.section80D) +
+  Math.min(declarations.section80CCD1B, DEDUCTION_LIMITS.section80CCD1B) +
+  Math.min(declarations.homeLoanInterest, DEDUCTION_LIMITS.homeLoanInterest) +
+  declarations.otherDeductions;
+
+/**
+ * Tax for the year under one regime. The new regime's 87A rebate tapers off
+ * just above the limit (marginal relief); surcharge marginal relief is not modelled.
+ */
+export const calculateRegimeTax = (
+  regime: TaxRegime,
+  projection: IncomeProjection,
+  declarations: TaxDeclarations
+): TaxBreakdown => {
+  const rules = TAX_REGIMES[regime];
+  const grossIncome = projection.annualSalary + declarations.otherIncome;
+  const standardDeduction = Math.min(rules.standardDeduction, projection.annualSalary);
+  const deductions = rules.allowsDeductions ? getOldRegimeDeductions(declarations, projection.annualPf) : 0;
+  const taxableIncome = Math.max(0, grossIncome - standardDeduction - deductions);
+
+  const slabTax = calculateSlabTax(taxableIncome, rules.slabs);
+  let rebate = 0;
+  if (taxableIncome <= rules.rebateIncomeLimit) {
+    rebate = Math.min(slabTax, rules.rebateMax);
+  } else if (regime === 'new') {
+    rebate = Math.max(0, slabTax - (taxableIncome - rules.rebateIncomeLimit));
+  }
+
+  const taxAfterRebate = slabTax - rebate;
+  const surchargeRate = rules.surcharges.find(item => taxableIncome > item.above)?.rate || 0;
+  const surcharge = Math.round((taxAfterRebate * surchargeRate) / 100);
+  const cess = Math.round(((taxAfterRebate + surcharge) * TAX_CESS_RATE) / 100);
+
+  return {
+    regime,
+    grossIncome,
+    standardDeduction,
+    deductions,
+    taxableIncome,
+    slabTax,
+    rebate,
+    surcharge,
+    cess,
+    totalTax: taxAfterRebate + surcharge + cess,
+  };
+};
+
+export const estimateTax = (projection: IncomeProjection, declarations: TaxDeclarations): TaxEstimate => {
+  const regimes = {
+    old: calculateRegimeTax('old', projection, declarations),
+    new: calculateRegimeTax('new', projection, declarations),
+  };
+  return {
+    projection,
+    regimes,
+    recommended: regimes.old.totalTax < regimes.new.totalTax ? 'old' : 'new',
+  };
+};
+
+/**
+ * How the projected liability compares with TDS deducted so far and at the current rate
+ */
+export const getTdsOutcome = (breakdown: TaxBreakdown, projection: IncomeProjection): TdsOutcome => {
+  const remainingLiability = breakdown.totalTax - projection.tdsSoFar;
+  const projectedTds = projection.tdsSoFar + projection.averageMonthlyTds * projection.projectedMonths;
+
+  return {
+    remainingLiability,
+    monthlyTdsNeeded:
+      projection.projectedMonths > 0 ? Math.max(0, Math.ceil(remainingLiability / projection.projectedMonths)) : 0,
+    projectedTds,
+    projectedBalance: breakdown.totalTax - projectedTds,
+  };
+};